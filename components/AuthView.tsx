@@ -8,7 +8,7 @@ import {
   sendPasswordResetEmail
 } from 'firebase/auth';
 import { auth } from '../lib/firebaseClient';
-import { execute } from '../lib/tidbClient';
+import { call, setCredentials } from '../lib/rpc/client';
 import { GoogleIcon, EyeIcon, EyeOffIcon } from './icons';
 import { useStatus } from '../contexts/StatusContext';
 
@@ -39,11 +39,9 @@ const AuthView: React.FC = () => {
       } else {
         const userCredential = await createUserWithEmailAndPassword(auth, email, password);
         console.log("Sign up successful:", userCredential.user.uid);
-        // Create initial profile in TiDB
-        await execute(
-          'INSERT IGNORE INTO profiles (id, email, username) VALUES (?, ?, ?)',
-          [userCredential.user.uid, userCredential.user.email || '', '']
-        );
+        // Create initial profile in TiDB (don't wait for AuthContext to hand over the token)
+        setCredentials(userCredential.user);
+        await call('profiles.create', { username: '' });
       }
     } catch (error: any) {
       console.warn("Auth error (handled):", error.code);
@@ -86,23 +84,9 @@ const AuthView: React.FC = () => {
       console.log("Google Sign in successful:", result.user.uid);
 
       // Check/Create profile in TiDB
-      const existing = await execute('SELECT id FROM profiles WHERE id = ?', [result.user.uid]);
-      if (existing.length === 0) {
-        let finalUsername = result.user.displayName || '';
-        if (finalUsername) {
-          // Check if username is taken
-          const taken = await execute('SELECT id FROM profiles WHERE username = ?', [finalUsername]);
-          if (taken.length > 0) {
-            console.warn("Google username taken, initializing with empty username.");
-            finalUsername = ''; // Force user to set it later
-          }
-        }
-
-        await execute(
-          'INSERT INTO profiles (id, email, username) VALUES (?, ?, ?)',
-          [result.user.uid, result.user.email || '', finalUsername]
-        );
-      }
+      // A taken display name is dropped server-side, forcing the user to set one later
+      setCredentials(result.user);
+      await call('profiles.create', { username: result.user.displayName || '' });
 
     } catch (error: any) {
       console.error("Google Sign-In Error:", error);
@@ -128,10 +112,8 @@ const AuthView: React.FC = () => {
 
       // Check/Create profile in TiDB Logic for guest
       const randomId = Math.floor(Math.random() * 10000);
-      await execute(
-        'INSERT IGNORE INTO profiles (id, email, username) VALUES (?, ?, ?)',
-        [result.user.uid, '', `Guest_${randomId}`]
-      );
+      setCredentials(result.user);
+      await call('profiles.create', { username: `Guest_${randomId}` });
     } catch (error: any) {
       console.error("Guest login error", error);
       setError("Guest login failed.");
@@ -1,10 +1,24 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { execute } from '../lib/tidbClient';
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import { call } from '../lib/rpc/client';
 import { useAuth } from '../contexts/AuthContext';
 import { ViewState, ViewType, ChatMessage, Profile } from '../types';
 import { BackIcon, SendIcon } from './icons';
 import { useStatus } from '../contexts/StatusContext';
+import useInfiniteScroll from '../hooks/useInfiniteScroll';
+
+// TiDB returns DATETIMEs as "YYYY-MM-DD HH:MM:SS" (UTC); optimistic messages carry ISO strings
+const toTime = (createdAt: string) => Date.parse(createdAt.includes('T') ? createdAt : `${createdAt.replace(' ', 'T')}Z`) || 0;
+
+// Oldest first, each message once; on a clash the incoming copy wins
+// (the server's version replaces an optimistic one)
+const mergeMessages = (current: ChatMessage[], incoming: ChatMessage[]) => {
+    const byId = new Map(current.map(m => [m.id, m]));
+    incoming.forEach(m => byId.set(m.id, m));
+    return Array.from(byId.values()).sort((a, b) =>
+        (toTime(a.createdAt) - toTime(b.createdAt)) || a.id.localeCompare(b.id)
+    );
+};
 
 interface ChatViewProps {
     chatId: string;
@@ -20,23 +34,30 @@ const ChatView: React.FC<ChatViewProps> = ({ chatId, otherUserId, setCurrentView
     const [newMessage, setNewMessage] = useState('');
     const [otherProfile, setOtherProfile] = useState<Profile | null>(null);
     const bottomRef = useRef<HTMLDivElement>(null);
+    const scrollRef = useRef<HTMLElement>(null);
+    // Cursor into the history before the oldest loaded message
+    const [olderCursor, setOlderCursor] = useState<string | undefined>();
+    const [loadingOlder, setLoadingOlder] = useState(false);
+    const [historyLoaded, setHistoryLoaded] = useState(false);
+    // Distance from the bottom to hold while older messages are prepended
+    const keepFromBottom = useRef<number | null>(null);
 
     useEffect(() => {
         // Fetch other user profile and my status
         const fetchContext = async () => {
             try {
-                const profileRes = await execute('SELECT * FROM profiles WHERE id = ?', [otherUserId]);
-                if (profileRes.length > 0) {
-                    setOtherProfile(profileRes[0] as Profile);
+                const profileRes = await call('profiles.get', { id: otherUserId });
+                if (profileRes) {
+                    setOtherProfile(profileRes);
                 } else {
                     setOtherProfile({ id: otherUserId, username: 'Unknown', email: '' });
                 }
 
                 // Fetch my participant status
                 if (user) {
-                    const statusRes = await execute('SELECT status FROM chat_participants WHERE chat_id = ? AND user_id = ?', [chatId, user.uid]);
-                    if (statusRes.length > 0) {
-                        setStatus(statusRes[0].status);
+                    const statusRes = await call('chats.status', { chatId });
+                    if (statusRes) {
+                        setStatus(statusRes);
                     } else {
                         // If no entry, strange, maybe new chat? assume accepted if we are here?
                         // Or maybe we are not a participant yet?
@@ -49,30 +70,24 @@ const ChatView: React.FC<ChatViewProps> = ({ chatId, otherUserId, setCurrentView
         }
         fetchContext();
 
-        // Poll for messages
+        setMessages([]);
+        setOlderCursor(undefined);
+        setHistoryLoaded(false);
+
+        // Poll for new messages: only the latest page, merged into what's loaded
+        let first = true;
         const fetchMessages = async () => {
             if (!user) return;
             try {
-                console.log('Fetching messages for chat:', chatId);
-                // Determine if we can see messages. 
+                // Determine if we can see messages.
                 // If pending, we can see them (requests).
-                const result = await execute(
-                    'SELECT * FROM messages WHERE chat_id = ? ORDER BY created_at ASC',
-                    [chatId]
-                );
-                console.log('Raw DB result:', result);
-
-                // Fix potential casing issue with query result if DB returns lowercase keys or camelCase
-                // Tidbit: SQL usually returns lowercase. Our type expects camelCase for createdAt?
-                // The DB schema says `created_at DATETIME`. The type says `createdAt`.
-                // We need to map it.
-                const mapped = result.map((m: any) => ({
-                    ...m,
-                    createdAt: m.created_at || m.createdAt,
-                    senderId: m.sender_id || m.senderId
-                }));
-                console.log('Mapped messages:', mapped);
-                setMessages(mapped as ChatMessage[]);
+                const page = await call('messages.list', { chatId });
+                setMessages(current => mergeMessages(current, page.items));
+                if (first) {
+                    first = false;
+                    setOlderCursor(page.nextCursor);
+                    setHistoryLoaded(true);
+                }
             } catch (e) {
                 console.error("Failed to fetch messages", e);
             }
@@ -84,7 +99,33 @@ const ChatView: React.FC<ChatViewProps> = ({ chatId, otherUserId, setCurrentView
         return () => clearInterval(interval);
     }, [chatId, otherUserId, user]);
 
-    // Auto-scroll on new messages using robust scrollTop
+    const loadOlder = async () => {
+        if (!olderCursor || loadingOlder) return;
+        setLoadingOlder(true);
+        try {
+            const page = await call('messages.list', { chatId, cursor: olderCursor });
+            if (scrollRef.current) keepFromBottom.current = scrollRef.current.scrollHeight - scrollRef.current.scrollTop;
+            setMessages(current => mergeMessages(current, page.items));
+            setOlderCursor(page.nextCursor);
+        } catch (e) {
+            console.error("Failed to fetch older messages", e);
+        } finally {
+            setLoadingOlder(false);
+        }
+    };
+
+    const olderSentinel = useInfiniteScroll(loadOlder, { enabled: historyLoaded && !loadingOlder && !!olderCursor, root: scrollRef });
+
+    // Prepending history must not move what the user is looking at
+    useLayoutEffect(() => {
+        if (keepFromBottom.current !== null && scrollRef.current) {
+            scrollRef.current.scrollTop = scrollRef.current.scrollHeight - keepFromBottom.current;
+            keepFromBottom.current = null;
+        }
+    }, [messages]);
+
+    // Auto-scroll on new messages using robust scrollTop (not when history is prepended)
+    const lastMessageId = messages[messages.length - 1]?.id;
     useEffect(() => {
         if (bottomRef.current) {
             const parent = bottomRef.current.parentElement;
@@ -92,7 +133,7 @@ const ChatView: React.FC<ChatViewProps> = ({ chatId, otherUserId, setCurrentView
                 parent.scrollTop = parent.scrollHeight;
             }
         }
-    }, [messages.length]);
+    }, [lastMessageId]);
 
     const handleSend = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -104,27 +145,17 @@ const ChatView: React.FC<ChatViewProps> = ({ chatId, otherUserId, setCurrentView
         const now = new Date().toISOString();
 
         // Optimistic UI update
-        setMessages(prev => [...prev, {
+        setMessages(prev => mergeMessages(prev, [{
             id: newId,
             senderId: user.uid,
             text: text,
             createdAt: now,
             chat_id: chatId
-        } as ChatMessage]);
+        } as ChatMessage]));
 
         try {
-            // Ensure chat exists (redundant if created in ProfileView, but safety net)
-            // await execute('INSERT IGNORE INTO chats ...'); 
-
-            await execute(
-                'INSERT INTO messages (id, chat_id, sender_id, text, created_at) VALUES (?, ?, ?, ?, ?)',
-                [newId, chatId, user.uid, text, now]
-            );
-
-            await execute(
-                'UPDATE chats SET lastMessage = ?, updatedAt = ? WHERE id = ?',
-                [text, now, chatId]
-            );
+            // Also bumps the chat's lastMessage/updatedAt
+            await call('messages.send', { id: newId, chatId, text });
         } catch (e) {
             console.error("Failed to send", e);
             setError("Failed to deliver transmission.");
@@ -134,7 +165,7 @@ const ChatView: React.FC<ChatViewProps> = ({ chatId, otherUserId, setCurrentView
     const handleAccept = async () => {
         if (!user) return;
         try {
-            await execute('UPDATE chat_participants SET status = ? WHERE chat_id = ? AND user_id = ?', ['accepted', chatId, user.uid]);
+            await call('chats.setStatus', { chatId, status: 'accepted' });
             setStatus('accepted');
         } catch (e) { setError("Failed to accept."); }
     };
@@ -142,7 +173,7 @@ const ChatView: React.FC<ChatViewProps> = ({ chatId, otherUserId, setCurrentView
     const handleBlock = async () => {
         if (!user) return;
         try {
-            await execute('UPDATE chat_participants SET status = ? WHERE chat_id = ? AND user_id = ?', ['blocked', chatId, user.uid]);
+            await call('chats.setStatus', { chatId, status: 'blocked' });
             setCurrentView({ type: ViewType.Explore }); // Exit
         } catch (e) { setError("Failed to block."); }
     };
@@ -191,7 +222,13 @@ const ChatView: React.FC<ChatViewProps> = ({ chatId, otherUserId, setCurrentView
             </header>
 
             {/* Messages Area - Added top padding and min-h-0 for flex correctness */}
-            <main className="flex-1 overflow-y-auto p-4 pt-24 space-y-4 custom-scrollbar relative w-full min-h-0">
+            <main ref={scrollRef} className="flex-1 overflow-y-auto p-4 pt-24 space-y-4 custom-scrollbar relative w-full min-h-0">
+
+                {olderCursor && (
+                    <div ref={olderSentinel} className="flex justify-center py-2">
+                        <div className="w-4 h-4 border-2 border-[var(--primary-accent)]/30 border-t-[var(--primary-accent)] rounded-full animate-spin"></div>
+                    </div>
+                )}
 
                 {status === 'pending' && (
                     <div className="absolute inset-0 bg-[var(--bg-color)]/80 backdrop-blur-sm z-10 flex flex-col items-center justify-center p-6 text-center animate-fade-in">
@@ -1,11 +1,12 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Domain, ViewState, ViewType, PostWithAuthorAndLikes } from '../types';
-import { CloseIcon, SearchIcon, PlusCircleIcon, TrashIcon } from './icons';
+import { CloseIcon, SearchIcon, PlusCircleIcon, TrashIcon, ChevronLeftIcon, ChevronRightIcon } from './icons';
 import { useAuth } from '../contexts/AuthContext';
 import { useStatus } from '../contexts/StatusContext';
-import { execute } from '../lib/tidbClient';
-import { compressImage } from '../lib/imageUtils';
+import { call } from '../lib/rpc/client';
+import { uploadImage } from '../lib/imageUtils';
+import { mediaUrl, mediaIdFromUrl, variantUrl, MAX_ATTACHMENTS } from '../lib/media';
 
 interface CreatePostModalProps {
     isOpen: boolean;
@@ -21,6 +22,12 @@ type SearchableDomain = {
     id: string;
 }
 
+// An attached image while the post is being written
+type DraftImage = {
+    url: string;
+    alt: string;
+}
+
 const flattenDomainTree = (node: Domain | null, prefix: string = ''): SearchableDomain[] => {
     if (!node) return [];
 
@@ -44,9 +51,9 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ isOpen, onClose, doma
     const [searchTerm, setSearchTerm] = useState('');
     const [selectedDomain, setSelectedDomain] = useState<SearchableDomain | null>(null);
     const [postContent, setPostContent] = useState('');
-    const [postImage, setPostImage] = useState<string | null>(null);
+    const [postImages, setPostImages] = useState<DraftImage[]>([]);
     const [isPosting, setIsPosting] = useState(false);
-    const [isCompressing, setIsCompressing] = useState(false);
+    const [isUploading, setIsUploading] = useState(false);
     const { error, setError } = useStatus();
     const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -67,7 +74,7 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ isOpen, onClose, doma
         if (isOpen) {
             if (initialPost) {
                 setPostContent(initialPost.content);
-                setPostImage(initialPost.imageURL || null);
+                setPostImages(initialPost.attachments.map(a => ({ url: a.url, alt: a.alt || '' })));
                 // Find domain name from domainTree or id
                 const domainId = initialPost.domain_id;
                 const domainName = domainId.split('/').pop() || domainId;
@@ -80,9 +87,9 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ isOpen, onClose, doma
                 setSearchTerm('');
                 setSelectedDomain(null);
                 setPostContent('');
-                setPostImage(null);
+                setPostImages([]);
                 setIsPosting(false);
-                setIsCompressing(false);
+                setIsUploading(false);
             }, 300);
         }
     }, [isOpen, initialDomain, initialPost]);
@@ -95,37 +102,64 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ isOpen, onClose, doma
     };
 
     const handleImageSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            setIsCompressing(true);
-            try {
-                const compressedBase64 = await compressImage(e.target.files[0]);
-                setPostImage(compressedBase64);
-            } catch (err) {
-                console.error("Compression failed", err);
-                setError("Failed to process image.");
-            } finally {
-                setIsCompressing(false);
+        const files = Array.from(e.target.files || []).slice(0, MAX_ATTACHMENTS - postImages.length);
+        if (files.length === 0) return;
+        setIsUploading(true);
+        try {
+            // One at a time, so they are attached in the order they were picked
+            for (const file of files) {
+                const url = mediaUrl(await uploadImage(file))!;
+                setPostImages(prev => [...prev, { url, alt: '' }].slice(0, MAX_ATTACHMENTS));
             }
+        } catch (err) {
+            console.error("Image upload failed", err);
+            setError("Failed to upload image. Uploads need a connection to the server.");
+        } finally {
+            setIsUploading(false);
+            if (fileInputRef.current) fileInputRef.current.value = '';
         }
     };
 
+    const updateImage = (index: number, alt: string) =>
+        setPostImages(prev => prev.map((image, i) => (i === index ? { ...image, alt } : image)));
+
+    const removeImage = (index: number) => setPostImages(prev => prev.filter((_, i) => i !== index));
+
+    const moveImage = (index: number, delta: number) => setPostImages(prev => {
+        const target = index + delta;
+        if (target < 0 || target >= prev.length) return prev;
+        const next = [...prev];
+        [next[index], next[target]] = [next[target], next[index]];
+        return next;
+    });
+
     const handleCreatePost = async (e: React.FormEvent) => {
         e.preventDefault();
-        if ((!postContent.trim() && !postImage) || !selectedDomain || !user) return;
+        if ((!postContent.trim() && postImages.length === 0) || !selectedDomain || !user) return;
+
+        // Images still inline from before the media store have no id to send;
+        // the server keeps those as they are
+        const attachments = postImages
+            .map(image => ({ mediaId: mediaIdFromUrl(image.url)!, alt: image.alt.trim() || undefined }))
+            .filter(a => a.mediaId);
 
         setIsPosting(true);
         try {
             if (isEditing && initialPost) {
-                await execute(
-                    'UPDATE posts SET content = ?, imageURL = ?, domain_id = ? WHERE id = ?',
-                    [postContent.trim(), postImage || null, selectedDomain.id, initialPost.id]
-                );
+                await call('posts.update', {
+                    id: initialPost.id,
+                    domainId: selectedDomain.id,
+                    content: postContent.trim(),
+                    attachments
+                });
             } else {
                 const newId = crypto.randomUUID();
-                await execute(
-                    'INSERT INTO posts (id, user_id, domain_id, content, imageURL, created_at) VALUES (?, ?, ?, ?, ?, ?)',
-                    [newId, user.uid, selectedDomain.id, postContent.trim(), postImage || null, new Date().toISOString()]
-                );
+                await call('posts.create', {
+                    id: newId,
+                    domainId: selectedDomain.id,
+                    content: postContent.trim(),
+                    attachments
+                });
             }
 
             onClose();
@@ -224,38 +258,59 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ isOpen, onClose, doma
                         <input
                             type="file"
                             accept="image/*"
+                            multiple
                             ref={fileInputRef}
                             className="hidden"
                             onChange={handleImageSelect}
                         />
 
-                        {postImage ? (
-                            <div className="relative w-full h-48 rounded-2xl overflow-hidden border border-white/10 group">
-                                <img src={postImage} alt="Preview" className="w-full h-full object-cover" />
-                                <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
-                                    <button
-                                        type="button"
-                                        onClick={() => { setPostImage(null); if (fileInputRef.current) fileInputRef.current.value = ''; }}
-                                        className="p-3 bg-red-500/80 rounded-full text-white hover:bg-red-500 transition-colors"
-                                    >
-                                        <TrashIcon className="w-5 h-5" />
-                                    </button>
-                                </div>
-                            </div>
-                        ) : (
+                        {postImages.length > 0 && (
+                            <ul className="space-y-3 mb-3">
+                                {postImages.map((image, i) => (
+                                    <li key={`${i}:${image.url}`} className="flex items-start space-x-3 p-2 rounded-2xl bg-white/5 border border-white/10">
+                                        <img src={variantUrl(image.url, 'thumb')} alt={image.alt} className="w-20 h-20 rounded-xl object-cover flex-shrink-0" />
+                                        <div className="flex-1 min-w-0 flex flex-col space-y-2">
+                                            <input
+                                                type="text"
+                                                value={image.alt}
+                                                onChange={e => updateImage(i, e.target.value)}
+                                                maxLength={1000}
+                                                placeholder="Describe this image (alt text)"
+                                                aria-label={`Alt text for image ${i + 1}`}
+                                                className="w-full glass-input bg-white/5 rounded-xl px-3 py-2 text-sm text-[var(--text-color)] focus:outline-none focus:border-indigo-500/50 transition-colors placeholder-slate-500"
+                                            />
+                                            <div className="flex items-center space-x-1 text-slate-400">
+                                                <button type="button" onClick={() => moveImage(i, -1)} disabled={i === 0} aria-label="Move earlier" className="p-1.5 rounded-full hover:bg-white/10 hover:text-white disabled:opacity-30 transition-colors">
+                                                    <ChevronLeftIcon className="w-4 h-4" />
+                                                </button>
+                                                <button type="button" onClick={() => moveImage(i, 1)} disabled={i === postImages.length - 1} aria-label="Move later" className="p-1.5 rounded-full hover:bg-white/10 hover:text-white disabled:opacity-30 transition-colors">
+                                                    <ChevronRightIcon className="w-4 h-4" />
+                                                </button>
+                                                <span className="flex-1 text-[10px] font-mono">{i + 1} / {postImages.length}</span>
+                                                <button type="button" onClick={() => removeImage(i)} aria-label="Remove image" className="p-1.5 rounded-full hover:bg-red-500/20 hover:text-red-400 transition-colors">
+                                                    <TrashIcon className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+
+                        {postImages.length < MAX_ATTACHMENTS && (
                             <button
                                 type="button"
                                 onClick={() => fileInputRef.current?.click()}
-                                disabled={isCompressing}
+                                disabled={isUploading}
                                 className="w-full py-6 border-2 border-dashed border-white/10 rounded-2xl flex flex-col items-center justify-center text-slate-400 hover:border-indigo-500/50 hover:text-indigo-300 hover:bg-white/5 transition-all"
                             >
-                                {isCompressing ? (
+                                {isUploading ? (
                                     <div className="w-6 h-6 border-2 border-indigo-500/30 border-t-indigo-500 rounded-full animate-spin"></div>
                                 ) : (
                                     <>
                                         <PlusCircleIcon className="w-8 h-8 mb-2 opacity-50" />
-                                        <span className="text-sm font-medium">Attach Image</span>
-                                        <span className="text-[10px] opacity-60 mt-1">Auto-compressed to &lt;100KB</span>
+                                        <span className="text-sm font-medium">{postImages.length > 0 ? 'Attach More Images' : 'Attach Images'}</span>
+                                        <span className="text-[10px] opacity-60 mt-1">Up to {MAX_ATTACHMENTS} · Location and camera data are removed</span>
                                     </>
                                 )}
                             </button>
@@ -265,7 +320,7 @@ const CreatePostModal: React.FC<CreatePostModalProps> = ({ isOpen, onClose, doma
                     <div className="flex-shrink-0">
                         <button
                             type="submit"
-                            disabled={isPosting || isCompressing || (!postContent.trim() && !postImage) || !selectedDomain}
+                            disabled={isPosting || isUploading || (!postContent.trim() && postImages.length === 0) || !selectedDomain}
                             className="w-full py-4 px-4 bg-[var(--primary-accent)] hover:bg-indigo-500 rounded-2xl text-white font-semibold transition-all shadow-lg shadow-indigo-500/20 active:scale-95 disabled:opacity-50 disabled:scale-100 disabled:cursor-not-allowed tracking-wide"
                         >
                             {isPosting ? 'Transmitting...' : (isEditing ? 'Update Broadcast' : 'Initiate Broadcast')}
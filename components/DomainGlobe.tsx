@@ -0,0 +1,226 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import { Html, Line, OrbitControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { Domain, DomainActivity } from '../types';
+import { useTheme } from '../contexts/ThemeContext';
+import { Direction, GlobePlace, placeOnGlobe } from '../lib/globeLayout';
+import DomainSphere from './DomainSphere';
+
+interface DomainGlobeProps {
+    tree: Domain;
+    // The explored domain, as names from the top of the tree
+    path: string[];
+    // Its children to show (the explore search may hide some)
+    shown: Domain[];
+    // Go to the domain at `path`
+    onOpen: (path: string[]) => void;
+    onInfo: (domain: Domain, path: string[]) => void;
+    // For the explored level's spheres, as in the orbits
+    activityOf?: (domain: Domain) => DomainActivity | undefined;
+}
+
+const GLOBE_RADIUS = 2;
+// Markers float just above the surface
+const MARKER_ALTITUDE = 1.02;
+const CAMERA_FOV = 45;
+// How fast the camera closes in on its goal (per second, exponential)
+const CAMERA_EASING = 2.5;
+
+// -----------------------------------------------------------------------------
+// THEME
+// -----------------------------------------------------------------------------
+// The globe is drawn in WebGL, so it reads the theme's CSS variables instead
+// of using them directly. Markers are plain DOM (DomainSphere) and use them
+// as they are.
+
+interface GlobeColors {
+    surface: string;
+    grid: string;
+    gridOpacity: number;
+    accent: string;
+}
+
+// "rgba(r, g, b, a)" -> ["rgb(r, g, b)", a]; anything else is opaque
+const splitAlpha = (value: string): [string, number] => {
+    const match = value.match(/rgba\(\s*([^,]+),\s*([^,]+),\s*([^,]+),\s*([^)]+)\)/);
+    return match ? [`rgb(${match[1]}, ${match[2]}, ${match[3]})`, Number(match[4])] : [value || '#ffffff', 1];
+};
+
+const readThemeColors = (): GlobeColors => {
+    const style = getComputedStyle(document.body);
+    const [grid, gridOpacity] = splitAlpha(style.getPropertyValue('--grid-dot-color').trim());
+    return {
+        surface: style.getPropertyValue('--bg-color').trim() || '#050508',
+        grid,
+        gridOpacity,
+        accent: style.getPropertyValue('--primary-accent').trim() || '#FFD820',
+    };
+};
+
+const useThemeColors = () => {
+    const { theme } = useTheme();
+    const [colors, setColors] = useState<GlobeColors | null>(null);
+    useEffect(() => {
+        // The theme's body class is applied in an effect too; read after it
+        const frame = requestAnimationFrame(() => setColors(readThemeColors()));
+        return () => cancelAnimationFrame(frame);
+    }, [theme]);
+    return colors;
+};
+
+// -----------------------------------------------------------------------------
+// SCENE
+// -----------------------------------------------------------------------------
+
+const toVector = (direction: Direction, radius: number) => new THREE.Vector3(...direction).multiplyScalar(radius);
+
+// The great-circle arc from `from` to `to`, just above the surface
+const arcBetween = (from: Direction, to: Direction, segments = 24) => {
+    const a = new THREE.Vector3(...from);
+    const b = new THREE.Vector3(...to);
+    const rotation = new THREE.Quaternion().setFromUnitVectors(a, b);
+    return Array.from({ length: segments + 1 }, (_, i) =>
+        a.clone().applyQuaternion(new THREE.Quaternion().slerp(rotation, i / segments)).multiplyScalar(GLOBE_RADIUS * MARKER_ALTITUDE)
+    );
+};
+
+// What drei's <OrbitControls> renders (three-stdlib's), and with `makeDefault`
+// puts in the fiber state as `controls`
+type OrbitControlsImpl = React.ComponentRef<typeof OrbitControls>;
+
+/**
+ * Flies the camera to look down on `direction` from `distance`, along the
+ * globe rather than through it. Hands control back to the user as soon as
+ * they start dragging.
+ */
+const CameraRig: React.FC<{ focus: string; direction: Direction; distance: number }> = ({ focus, direction, distance }) => {
+    const { camera } = useThree();
+    const controls = useThree(state => state.controls as OrbitControlsImpl | null);
+    const goal = useRef<{ direction: THREE.Vector3; distance: number } | null>(null);
+
+    // A new goal only when the explored domain changes, not on every render
+    useEffect(() => {
+        goal.current = { direction: new THREE.Vector3(...direction).normalize(), distance };
+    }, [focus]);
+
+    useEffect(() => {
+        if (!controls) return;
+        const stop = () => { goal.current = null; };
+        controls.addEventListener('start', stop);
+        return () => controls.removeEventListener('start', stop);
+    }, [controls]);
+
+    useFrame((_, delta) => {
+        if (!goal.current) return;
+        const step = 1 - Math.exp(-CAMERA_EASING * delta);
+        const current = camera.position.clone().normalize();
+        const rotation = new THREE.Quaternion().setFromUnitVectors(current, goal.current.direction);
+        const next = current.applyQuaternion(new THREE.Quaternion().slerp(rotation, step));
+        const length = THREE.MathUtils.lerp(camera.position.length(), goal.current.distance, step);
+        camera.position.copy(next.multiplyScalar(length));
+        camera.lookAt(0, 0, 0);
+        controls?.update();
+
+        if (next.angleTo(goal.current.direction) < 0.001 && Math.abs(length - goal.current.distance) < 0.01) {
+            goal.current = null;
+        }
+    });
+
+    return null;
+};
+
+interface MarkerProps {
+    place: GlobePlace;
+    globe: React.RefObject<THREE.Mesh>;
+    scale: number;
+    isCenter?: boolean;
+    dimmed?: boolean;
+    activity?: DomainActivity;
+    onOpen: (path: string[]) => void;
+    onInfo: (domain: Domain, path: string[]) => void;
+}
+
+const Marker: React.FC<MarkerProps> = ({ place, globe, scale, isCenter, dimmed, activity, onOpen, onInfo }) => (
+    <Html position={toVector(place.direction, GLOBE_RADIUS * MARKER_ALTITUDE)} occlude={[globe]} zIndexRange={[10, 0]}>
+        {/* A point for the sphere to centre on, scaled from there */}
+        <div style={{ position: 'relative', width: 0, height: 0, transform: `scale(${scale})`, opacity: dimmed ? 0.55 : 1, transition: 'transform 0.6s ease, opacity 0.6s ease' }}>
+            <DomainSphere
+                domain={{ ...place.domain, position: undefined }}
+                onSelect={() => onOpen(place.path)}
+                onInfo={domain => onInfo(domain, place.path)}
+                isCenter={isCenter}
+                activity={activity}
+            />
+        </div>
+    </Html>
+);
+
+const DomainGlobe: React.FC<DomainGlobeProps> = ({ tree, path, shown, onOpen, onInfo, activityOf }) => {
+    const colors = useThemeColors();
+    const globe = useRef<THREE.Mesh>(null);
+
+    const places = useMemo(() => placeOnGlobe(tree, path), [tree, path]);
+    const center = path.length > 0 ? places.find(p => p.depth === path.length - 1 && p.domain.name === path[path.length - 1]) : undefined;
+    const shownIds = useMemo(() => new Set(shown.map(d => d.id)), [shown]);
+
+    // The explored level at full size, the levels above it as context
+    const children = places.filter(p => p.depth === path.length && shownIds.has(p.domain.id));
+    const context = places.filter(p => p.depth < path.length && p !== center);
+
+    // Close enough that the explored domain's region fills the view
+    const cameraDirection: Direction = center?.direction ?? [0, 0.3, 1];
+    const cameraDistance = center ? GLOBE_RADIUS * (1 + Math.max(0.25, Math.min(2, center.region * 3))) : GLOBE_RADIUS * 3;
+    // Spheres about as wide as their children's regions look from there
+    // (a sphere is ~35vmin at scale 1), within limits that keep them legible
+    const childRegion = children[0]?.region ?? 0.3;
+    const viewHeight = 2 * (cameraDistance - GLOBE_RADIUS) * Math.tan(THREE.MathUtils.degToRad(CAMERA_FOV / 2));
+    const markerScale = THREE.MathUtils.clamp((2 * childRegion * GLOBE_RADIUS / viewHeight) * 100 / 35, 0.14, 0.32);
+
+    if (!colors) return null;
+
+    return (
+        <Canvas camera={{ position: [0, 0.9, GLOBE_RADIUS * 3], fov: CAMERA_FOV }} dpr={[1, 2]}>
+            <ambientLight intensity={0.8} />
+            <directionalLight position={[5, 5, 5]} intensity={0.6} />
+
+            <mesh ref={globe}>
+                <sphereGeometry args={[GLOBE_RADIUS, 64, 64]} />
+                <meshStandardMaterial color={colors.surface} roughness={0.9} metalness={0.1} />
+            </mesh>
+            <mesh>
+                <sphereGeometry args={[GLOBE_RADIUS * 1.001, 36, 18]} />
+                <meshBasicMaterial color={colors.grid} wireframe transparent opacity={colors.gridOpacity} />
+            </mesh>
+
+            {center && children.map(child => (
+                <Line
+                    key={`arc-${child.domain.id}`}
+                    points={arcBetween(center.direction, child.direction)}
+                    color={colors.accent}
+                    lineWidth={1}
+                    dashed
+                    dashSize={0.03}
+                    gapSize={0.04}
+                    transparent
+                    opacity={0.5}
+                />
+            ))}
+
+            {context.map(place => (
+                <Marker key={`${place.depth}-${place.domain.id}`} place={place} globe={globe} scale={markerScale * 0.7} dimmed onOpen={onOpen} onInfo={onInfo} />
+            ))}
+            {center && (
+                <Marker key={`center-${center.domain.id}`} place={center} globe={globe} scale={markerScale * 1.2} isCenter onOpen={onOpen} onInfo={onInfo} />
+            )}
+            {children.map(place => (
+                <Marker key={`${place.depth}-${place.domain.id}`} place={place} globe={globe} scale={markerScale} activity={activityOf?.(place.domain)} onOpen={onOpen} onInfo={onInfo} />
+            ))}
+
+            <OrbitControls makeDefault enablePan={false} minDistance={GLOBE_RADIUS * 1.15} maxDistance={GLOBE_RADIUS * 4} rotateSpeed={0.5} zoomSpeed={0.6} />
+            <CameraRig focus={path.join('/')} direction={cameraDirection} distance={cameraDistance} />
+        </Canvas>
+    );
+};
+
+export default DomainGlobe;
@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { Domain } from '../types';
+import { Domain, DomainActivity } from '../types';
 import { InfoIcon } from './icons';
 
 interface DomainSphereProps {
@@ -9,6 +9,12 @@ interface DomainSphereProps {
     onInfo: (domain: Domain) => void;
     isCenter?: boolean;
     index?: number;
+    // For roving focus (see hooks/useRovingFocus): -1 keeps it out of the tab
+    // order, and its info button with it (the `i` key opens info instead)
+    tabIndex?: number;
+    onFocus?: () => void;
+    // Posts at and below it; shown as size, glow and a badge when given
+    activity?: DomainActivity;
 }
 
 // Exported for use in layout calculations
@@ -22,12 +28,31 @@ export const calculateSphereSize = (name: string): number => {
     return Math.max(minSize, Math.min(maxSize, calculatedSize));
 };
 
+// How much bigger activity makes a sphere: by its posts on a log scale, to at
+// most 1 + MAX_GROWTH times its size
+const MAX_GROWTH = 0.25;
+export const activityWeight = (activity?: DomainActivity) =>
+    activity ? 1 + Math.min(MAX_GROWTH, Math.log10(1 + activity.posts) * 0.1) : 1;
 
-const DomainSphere: React.FC<DomainSphereProps> = ({ domain, onSelect, onInfo, isCenter = false, index = 0 }) => {
+// A sphere's radius in orbit layout units (% of the explore area, which is 90vmin)
+export const sphereRadius = (name: string, weight = 1) => calculateSphereSize(name) * weight * 0.56;
+
+// 1234 -> "1.2k"
+const shortCount = (n: number) => (n < 1000 ? String(n) : `${(n / 1000).toFixed(n < 10000 ? 1 : 0)}k`);
+
+// How spheres (and the lines to them) move when the layout changes
+export const ORBIT_TRANSITION = '0.9s cubic-bezier(0.22, 1, 0.36, 1)';
+
+
+const DomainSphere: React.FC<DomainSphereProps> = ({ domain, onSelect, onInfo, isCenter = false, index = 0, tabIndex, onFocus, activity }) => {
     const clickAction = isCenter ? () => { } : () => onSelect(domain.name);
     const longPressTimer = React.useRef<NodeJS.Timeout | null>(null);
 
-    const sphereSize = calculateSphereSize(domain.name);
+    const sphereSize = calculateSphereSize(domain.name) * activityWeight(activity);
+    // Brighter the more was posted this week
+    const glow = activity?.recent
+        ? `0 0 ${8 + 2 * Math.min(activity.recent, 12)}px color-mix(in srgb, var(--primary-accent) 55%, transparent)`
+        : undefined;
 
     // Outer Container - Handles Position & Scale.
     const containerStyle: React.CSSProperties = {
@@ -37,6 +62,7 @@ const DomainSphere: React.FC<DomainSphereProps> = ({ domain, onSelect, onInfo, i
         left: `${domain.position?.x ?? 50}%`,
         top: `${domain.position?.y ?? 50}%`,
         transform: 'translate(-50%, -50%) translateZ(0)',
+        transition: isCenter ? undefined : `left ${ORBIT_TRANSITION}, top ${ORBIT_TRANSITION}`,
         zIndex: isCenter ? 10 : 1,
         display: 'flex',
         alignItems: 'center',
@@ -62,9 +88,7 @@ const DomainSphere: React.FC<DomainSphereProps> = ({ domain, onSelect, onInfo, i
 
         border: `1px solid var(--sphere-border)`,
 
-        boxShadow: isCenter
-            ? 'var(--sphere-shadow-center)'
-            : 'var(--sphere-shadow-normal)',
+        boxShadow: [isCenter ? 'var(--sphere-shadow-center)' : 'var(--sphere-shadow-normal)', glow].filter(Boolean).join(', '),
 
         transition: 'transform 0.4s cubic-bezier(0.175, 0.885, 0.32, 1.275), box-shadow 0.4s ease',
     };
@@ -99,6 +123,13 @@ const DomainSphere: React.FC<DomainSphereProps> = ({ domain, onSelect, onInfo, i
 
                     {/* Text Content - Hold (Right Click/Long Press) triggers Info */}
                     <button
+                        data-focus-id={domain.id}
+                        tabIndex={tabIndex}
+                        onFocus={onFocus}
+                        aria-label={[
+                            isCenter ? `${domain.name}, current domain` : domain.name,
+                            activity && `${activity.posts} ${activity.posts === 1 ? 'post' : 'posts'}, ${activity.recent} this week`,
+                        ].filter(Boolean).join(', ')}
                         onPointerDown={(e) => {
                             // Start long press timer
                             longPressTimer.current = setTimeout(() => {
@@ -123,7 +154,7 @@ const DomainSphere: React.FC<DomainSphereProps> = ({ domain, onSelect, onInfo, i
                             e.preventDefault();
                             // We handle long press manually now, so disable default context menu
                         }}
-                        className={`absolute inset-0 w-full h-full flex items-center justify-center p-1 md:p-4 outline-none ${!isCenter ? 'cursor-pointer active:scale-95' : 'cursor-default'} transition-transform duration-300 z-10 rounded-full focus:ring-2 focus:ring-white/20`}
+                        className={`absolute inset-0 w-full h-full flex items-center justify-center p-1 md:p-4 outline-none ${!isCenter ? 'cursor-pointer active:scale-95' : 'cursor-default'} transition-transform duration-300 z-10 rounded-full focus-visible:ring-2 focus-visible:ring-[var(--primary-accent)]`}
                     >
                         <span
                             className={`font-medium text-center select-none leading-none tracking-tight line-clamp-3 w-[100%] font-outfit
@@ -140,12 +171,22 @@ const DomainSphere: React.FC<DomainSphereProps> = ({ domain, onSelect, onInfo, i
                         </span>
                     </button>
 
+                    {activity && (
+                        <span
+                            className="absolute top-[6%] right-[6%] z-20 px-1.5 py-0.5 rounded-full text-[0.6rem] font-semibold leading-none bg-[var(--primary-accent)] text-black shadow-md pointer-events-none"
+                            aria-hidden="true"
+                        >
+                            {shortCount(activity.posts)}
+                        </span>
+                    )}
+
                     {/* Info Button */}
                     <button
                         onClick={(e) => {
                             e.stopPropagation();
                             onInfo(domain);
                         }}
+                        tabIndex={tabIndex === undefined ? undefined : -1}
                         className="absolute -bottom-4 left-1/2 -translate-x-1/2 p-2.5 rounded-full bg-slate-800/90 hover:bg-slate-700 text-white opacity-0 group-hover:opacity-100 transition-all duration-300 z-30 backdrop-blur-md shadow-xl transform translate-y-2 group-hover:translate-y-0 border border-white/20 hover:scale-110"
                         title="Explore details"
                     >
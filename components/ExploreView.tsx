@@ -1,17 +1,26 @@
 
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { Domain, ViewState, ViewType } from '../types';
+import dynamic from 'next/dynamic';
+import { Domain, DomainActivity, DomainDigest, ViewState, ViewType } from '../types';
 import ImagePreviewModal from './ImagePreviewModal';
 import CreatePostModal from './CreatePostModal';
-import { generateDomains as generateAIDomains, ROOT_DOMAINS } from '../services/pollinationsService';
-import { MenuIcon, SettingsIcon, HomeIcon, SearchIcon, ProfileIcon, RefreshSimpleIcon, ZoomInIcon, ZoomOutIcon, BackIcon, EditIcon, InfoIcon, HelpIcon, CloseIcon, GlobeIcon, GridIcon, PlusCircleIcon } from './icons';
-import DomainSphere, { calculateSphereSize } from './DomainSphere';
+import { loadDomainChildren, generateMoreDomainChildren, addUserDomain, loadDomainParents, peekDomainChildren } from '../services/domainService';
+import { call } from '../lib/rpc/client';
+import { nameKey } from '../lib/taxonomy';
+import { MenuIcon, SettingsIcon, HomeIcon, SearchIcon, ProfileIcon, RefreshSimpleIcon, ZoomInIcon, ZoomOutIcon, BackIcon, EditIcon, InfoIcon, HelpIcon, CloseIcon, GlobeIcon, GridIcon, PlusCircleIcon, RadarIcon } from './icons';
+import DomainSphere, { activityWeight, ORBIT_TRANSITION } from './DomainSphere';
 import ConstructingDomainsView from './ConstructingDomainsView';
+import OrbitDetail from './OrbitDetail';
 import Navbar from './Navbar';
 import { useStatus } from '../contexts/StatusContext';
+import useOrbitLayout from '../hooks/useOrbitLayout';
+import useRovingFocus, { ARROW_DIRECTIONS, FocusSpot } from '../hooks/useRovingFocus';
+
+// three.js is only loaded once the globe is switched on
+const DomainGlobe = dynamic(() => import('./DomainGlobe'), { ssr: false });
 
 interface ExploreViewProps {
-    setCurrentView: (view: ViewState) => void;
+    setCurrentView: React.Dispatch<React.SetStateAction<ViewState>>;
     initialPath?: string[];
     domainTree: Domain | null;
     setDomainTree: React.Dispatch<React.SetStateAction<Domain | null>> | ((tree: Domain | null) => void);
@@ -36,12 +45,30 @@ const findNodeByPath = (root: Domain, path: string[]): Domain | null => {
     return currentNode;
 };
 
+// The path to the loaded node named `name` (see nameKey) nearest the root
+const findPathByName = (root: Domain, name: string): string[] | null => {
+    const wanted = nameKey(name);
+    const queue: { node: Domain; path: string[] }[] = [{ node: root, path: [] }];
+    for (let i = 0; i < queue.length; i++) {
+        const { node, path } = queue[i];
+        for (const child of node.children ?? []) {
+            const childPath = [...path, child.name];
+            if (nameKey(child.name) === wanted) return childPath;
+            queue.push({ node: child, path: childPath });
+        }
+    }
+    return null;
+};
+
 const cloneDomainTree = (node: Domain): Domain => {
     const newNode: Domain = {
         id: node.id,
         name: node.name,
         children: null,
         source: node.source,
+        summary: node.summary,
+        sourceUrl: node.sourceUrl,
+        sourceName: node.sourceName,
     };
 
     if (node.position) {
@@ -82,86 +109,26 @@ const updateNodeByPath = (root: Domain, path: string[], newChildren: Domain[]):
     return newRoot;
 };
 
-const calculateChaoticLayout = (
-    domains: Domain[] | null,
-    containerSize: number,
-    centerNodeName: string
-): Domain[] => {
-    if (!domains) return [];
-
-    const centerNodeSize = calculateSphereSize(centerNodeName);
-    const centerRadius = centerNodeSize * 0.56;
-
-    const nodes = domains.map(domain => {
-        const existingX = domain.position?.x;
-        const existingY = domain.position?.y;
-
-        const size = calculateSphereSize(domain.name);
-        const radius = size * 0.56;
-
-        const startX = 50 + (Math.random() - 0.5) * 30;
-        const startY = 50 + (Math.random() - 0.5) * 30;
-
-        return {
-            ...domain,
-            radius: radius,
-            x: existingX ?? startX,
-            y: existingY ?? startY,
-        };
-    });
-
-    const iterations = 300;
-
-    for (let i = 0; i < iterations; i++) {
-        for (let j = 0; j < nodes.length; j++) {
-            for (let k = j + 1; k < nodes.length; k++) {
-                const node1 = nodes[j];
-                const node2 = nodes[k];
-                const dx = node2.x - node1.x;
-                const dy = node2.y - node1.y;
-                const distance = Math.sqrt(dx * dx + dy * dy);
-                const minDistance = node1.radius + node2.radius + 2;
-
-                if (distance < minDistance && distance > 0) {
-                    const overlap = minDistance - distance;
-                    const angle = Math.atan2(dy, dx);
-                    const pushX = (overlap / 2) * Math.cos(angle);
-                    const pushY = (overlap / 2) * Math.sin(angle);
-
-                    node1.x -= pushX;
-                    node1.y -= pushY;
-                    node2.x += pushX;
-                    node2.y += pushY;
-                }
-            }
-        }
-
-        for (const node of nodes) {
-            const dxToCenter = 50 - node.x;
-            const dyToCenter = 50 - node.y;
-
-            const pullForce = 0.015;
-
-            node.x += dxToCenter * pullForce;
-            node.y += dyToCenter * pullForce;
+// Whether this browser can draw the 3D globe at all
+const canDrawGlobe = () => {
+    try {
+        const canvas = document.createElement('canvas');
+        return !!(canvas.getContext('webgl2') || canvas.getContext('webgl'));
+    } catch {
+        return false;
+    }
+};
 
-            const distanceFromCenter = Math.sqrt(dxToCenter * dxToCenter + dyToCenter * dyToCenter);
-            const minDistanceFromCenter = centerRadius + node.radius + 4;
+const GLOBE_SETTING = 'hyle_explore_globe';
+const ACTIVITY_SETTING = 'hyle_explore_activity';
 
-            if (distanceFromCenter < minDistanceFromCenter && distanceFromCenter > 0) {
-                const overlap = minDistanceFromCenter - distanceFromCenter;
-                const angle = Math.atan2(dyToCenter, dxToCenter);
-                node.x -= overlap * Math.cos(angle);
-                node.y -= overlap * Math.sin(angle);
-            }
-        }
-    }
+// Semantic zoom: from SATELLITE_ZOOM each orbiting child shows its own loaded
+// children, from DIGEST_ZOOM its post count and newest post (see OrbitDetail)
+const SATELLITE_ZOOM = 1.4;
+const DIGEST_ZOOM = 1.8;
 
-    return nodes.map(node => ({
-        ...node,
-        position: { x: node.x, y: node.y },
-    }));
-};
+// A node's id in the shared taxonomy; the home tree's root is the top level
+const taxonomyId = (node: Domain) => (node.id === 'root' ? undefined : node.id);
 
 const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath, domainTree, setDomainTree }) => {
     // const [domainTree, setDomainTree] = useState<Domain | null>(null); // REMOVED
@@ -171,7 +138,6 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
     const [isLoading, setIsLoading] = useState(true);
     const [isMoreLoading, setIsMoreLoading] = useState(false);
     const { error, setError } = useStatus();
-    const [containerSize, setContainerSize] = useState(500);
     const [searchQuery, setSearchQuery] = useState('');
     const [isSearching, setIsSearching] = useState(false);
     const searchInputRef = useRef<HTMLInputElement>(null);
@@ -179,10 +145,37 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
     const [isCreatePostModalOpen, setCreatePostModalOpen] = useState(false);
     const [isSearchVisible, setIsSearchVisible] = useState(false);
     const [isGuideOpen, setGuideOpen] = useState(false);
+    // Where else the centre domain is found, besides the route taken to it
+    const [otherParents, setOtherParents] = useState<{ id: string; name: string }[]>([]);
 
     const [zoomLevel, setZoomLevel] = useState(1);
     const [loadMoreVariant, setLoadMoreVariant] = useState(0);
     const [isPinchEnabled, setPinchEnabled] = useState(false); // Default off as requested
+    // 3D globe instead of the 2D orbits; remembered on this device
+    const [globeAvailable] = useState(canDrawGlobe);
+    const [isGlobe, setGlobe] = useState(() => globeAvailable && localStorage.getItem(GLOBE_SETTING) === 'true');
+    const toggleGlobe = () => {
+        localStorage.setItem(GLOBE_SETTING, String(!isGlobe));
+        setGlobe(!isGlobe);
+    };
+
+    // Spheres weighted by how much is posted at and below them, unless turned
+    // off on this device. By domain id, null for none; kept while Explore is open.
+    const [showActivity, setShowActivity] = useState(() => localStorage.getItem(ACTIVITY_SETTING) !== 'false');
+    const toggleActivity = () => {
+        localStorage.setItem(ACTIVITY_SETTING, String(!showActivity));
+        setShowActivity(!showActivity);
+    };
+    const [activity, setActivity] = useState<Record<string, DomainActivity | null>>({});
+    const activityWeights = useMemo(() => {
+        if (!showActivity) return undefined;
+        const weights: Record<string, number> = {};
+        Object.entries(activity).forEach(([id, a]) => {
+            if (a) weights[id] = activityWeight(a);
+        });
+        return weights;
+    }, [showActivity, activity]);
+    const activityOf = (domain: Domain) => (showActivity ? activity[domain.id] ?? undefined : undefined);
 
     // Panning & Pinching State
     const [pan, setPan] = useState({ x: 0, y: 0 });
@@ -196,13 +189,7 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
     const initialPinchDistance = useRef<number | null>(null);
     const initialZoomLevel = useRef<number>(1);
 
-    const containerRef = useCallback((node: HTMLDivElement) => {
-        if (node !== null) {
-            setContainerSize(Math.min(node.offsetWidth, node.offsetHeight));
-        }
-    }, []);
-
-    const breadcrumbRef = useRef<HTMLDivElement>(null);
+    const breadcrumbRef = useRef<HTMLElement>(null);
 
     useEffect(() => {
         setLoadMoreVariant(0);
@@ -222,13 +209,7 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
     const fetchInitialDomains = useCallback(async () => {
         try {
             setIsLoading(true);
-            const rootDomains = ROOT_DOMAINS;
-            const children = rootDomains.map((name) => ({
-                id: name,
-                name,
-                children: null,
-                source: 'ai' as const
-            }));
+            const children = await loadDomainChildren(undefined);
             setDomainTree({ id: 'root', name: 'SparkSphere', children });
         } catch (e: any) {
             setError('Failed to fetch initial domains.');
@@ -245,10 +226,23 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
 
     const currentNode = useMemo(() => domainTree ? findNodeByPath(domainTree, currentPath) : null, [domainTree, currentPath]);
 
-    const orbitingChildren = useMemo(() => {
-        const centerNodeName = currentPath.length > 0 ? currentPath[currentPath.length - 1] : (domainTree?.name || "SparkSphere");
-        return calculateChaoticLayout(currentNode?.children || null, containerSize, centerNodeName);
-    }, [currentNode?.children, containerSize, currentPath, domainTree?.name]);
+    const centerNodeName = currentPath.length > 0 ? currentPath[currentPath.length - 1] : (domainTree?.name || "SparkSphere");
+    const orbitingChildren = useOrbitLayout(currentNode?.id ?? '', centerNodeName, currentNode?.children ?? null, activityWeights);
+
+    useEffect(() => {
+        if (!showActivity || !currentNode?.children) return;
+        const missing = currentNode.children.map(d => d.id).filter(id => !(id in activity));
+        if (missing.length === 0) return;
+        const batches = Array.from({ length: Math.ceil(missing.length / 50) }, (_, i) => missing.slice(i * 50, i * 50 + 50));
+        Promise.all(batches.map(domainIds => call('posts.domainActivity', { domainIds })))
+            .then(found => setActivity(prev => {
+                const next = { ...prev };
+                missing.forEach(id => { next[id] = null; });
+                found.flat().forEach(a => { next[a.domainId] = a; });
+                return next;
+            }))
+            .catch(e => console.warn("Failed to load activity", e));
+    }, [showActivity, currentNode?.children]);
 
     const filteredOrbitingChildren = useMemo(() => {
         if (!searchQuery.trim()) return orbitingChildren;
@@ -257,6 +251,71 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
         );
     }, [orbitingChildren, searchQuery]);
 
+    // Keyboard: a roving focus over the spheres, the centre first
+    const sphereLayer = useRef<HTMLDivElement>(null);
+    const focusSpots = useMemo<FocusSpot[]>(() => currentNode ? [
+        { id: currentNode.id, x: 50, y: 50 },
+        ...filteredOrbitingChildren.filter(d => d.position).map(d => ({ id: d.id, ...d.position! })),
+    ] : [], [currentNode, filteredOrbitingChildren]);
+    const roving = useRovingFocus(focusSpots, sphereLayer);
+    // The domain (by name) to focus once it is on screen, after going down or
+    // back from the keyboard: the one just entered or just left
+    const pendingFocus = useRef<string | null>(null);
+
+    useEffect(() => {
+        const name = pendingFocus.current;
+        if (!name || !currentNode?.children) return;
+        const domain = name === centerNodeName ? currentNode : filteredOrbitingChildren.find(d => d.name === name);
+        if (!domain) return;
+        pendingFocus.current = null;
+        roving.focus(domain.id);
+    }, [focusSpots]);
+
+    // (with a little slack: the zoom buttons add up 0.2s)
+    const showSatellites = !isGlobe && zoomLevel >= SATELLITE_ZOOM - 0.01;
+    const showDigests = !isGlobe && zoomLevel >= DIGEST_ZOOM - 0.01;
+    // Children whose own children were already looked for, and digests by domain
+    // id (null: no posts), kept while Explore is open
+    const peeked = useRef(new Set<string>());
+    const [digests, setDigests] = useState<Record<string, DomainDigest | null>>({});
+    // The tree as of the last render, for prefetches that finish later
+    const latestTree = useRef(domainTree);
+    latestTree.current = domainTree;
+
+    // Zoomed in: fill in the children of orbiting children that are already
+    // stored. Never generates any; that waits until the child is opened.
+    useEffect(() => {
+        if (!showSatellites || !currentNode) return;
+        const unpeeked = filteredOrbitingChildren.filter(d => d.children === null && !peeked.current.has(d.id));
+        if (unpeeked.length === 0) return;
+        unpeeked.forEach(d => peeked.current.add(d.id));
+
+        const path = currentPath;
+        Promise.all(unpeeked.map(d => peekDomainChildren(d.id).then(children => [d.name, children] as const)))
+            .then(found => {
+                const tree = found.reduce(
+                    (tree, [name, children]) => (tree && children ? updateNodeByPath(tree, [...path, name], children) : tree),
+                    latestTree.current
+                );
+                if (tree !== latestTree.current) setDomainTree(tree);
+            })
+            .catch(e => console.warn("Failed to prefetch children", e));
+    }, [showSatellites, filteredOrbitingChildren]);
+
+    useEffect(() => {
+        if (!showDigests) return;
+        const missing = filteredOrbitingChildren.map(d => d.id).filter(id => !(id in digests)).slice(0, 50);
+        if (missing.length === 0) return;
+        call('posts.domainDigests', { domainIds: missing })
+            .then(found => setDigests(prev => {
+                const next = { ...prev };
+                missing.forEach(id => { next[id] = null; });
+                found.forEach(digest => { next[digest.domainId] = digest; });
+                return next;
+            }))
+            .catch(e => console.warn("Failed to load post digests", e));
+    }, [showDigests, filteredOrbitingChildren]);
+
 
     useEffect(() => {
         const fetchChildrenIfNeeded = async () => {
@@ -265,18 +324,10 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
                 setError(null);
 
                 try {
-                    const fullContextPath = [domainTree!.name, ...currentPath];
-                    const aiNames = await generateAIDomains(currentNode.name, fullContextPath, 0);
-
-                    const aiChildren: Domain[] = aiNames.map(name => ({
-                        id: name,
-                        name,
-                        children: null,
-                        source: 'ai'
-                    }));
+                    const children = await loadDomainChildren(taxonomyId(currentNode));
 
                     if (domainTree) {
-                        const treeWithNew = updateNodeByPath(domainTree, currentPath, aiChildren);
+                        const treeWithNew = updateNodeByPath(domainTree, currentPath, children);
                         setDomainTree(treeWithNew);
                     }
                 } catch (e: any) {
@@ -297,6 +348,67 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
         fetchChildrenIfNeeded();
     }, [currentNode, currentPath, domainTree, setError]);
 
+    const routeKey = currentPath.join('/');
+    useEffect(() => {
+        setOtherParents([]);
+        if (!domainTree || !currentNode || currentPath.length === 0) return;
+        const routeParent = findNodeByPath(domainTree, currentPath.slice(0, -1));
+        let cancelled = false;
+        loadDomainParents(currentNode.id)
+            .then(parents => {
+                if (!cancelled) setOtherParents(parents.filter(p => p.id !== routeParent?.id));
+            })
+            .catch(e => console.warn("Failed to load parents", e));
+        return () => { cancelled = true; };
+    }, [currentNode?.id, routeKey]);
+
+    /**
+     * Goes to `route` (names from the top of the home tree), loading each
+     * level on the way that isn't loaded yet. Stops at the deepest level
+     * that exists.
+     */
+    const openRoute = async (route: string[]) => {
+        setIsLoading(true);
+        try {
+            let tree: Domain = domainTree?.id === 'root'
+                ? domainTree
+                : { id: 'root', name: 'SparkSphere', children: await loadDomainChildren(undefined) };
+            const path: string[] = [];
+            for (const name of route) {
+                const node = findNodeByPath(tree, path)!;
+                if (node.children === null) {
+                    tree = updateNodeByPath(tree, path, await loadDomainChildren(taxonomyId(node)));
+                }
+                const next = findNodeByPath(tree, path)!.children?.find(c => nameKey(c.name) === nameKey(name));
+                if (!next) break;
+                path.push(next.name);
+            }
+            setDomainTree(tree);
+            setCurrentPath(path);
+        } catch (e) {
+            setError("Failed to load domains.");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // The route is the URL (/explore/...): moving around writes it, and a
+    // new one (a link, back/forward) is opened, loading what it needs
+    useEffect(() => {
+        setCurrentView(prev => (prev.type === ViewType.Explore && (prev.initialPath ?? []).join('/') !== routeKey
+            ? { ...prev, initialPath: currentPath.length ? currentPath : undefined }
+            : prev));
+    }, [routeKey]);
+
+    const initialKey = (initialPath ?? []).join('/');
+    useEffect(() => {
+        if (initialKey === routeKey && (currentPath.length === 0 || currentNode)) return;
+        if (initialPath?.length) {
+            openRoute(initialPath);
+        } else {
+            setCurrentPath([]);
+        }
+    }, [initialKey]);
 
     const handleSelectDomain = (domainName: string) => {
         // Explicitly rely on pointer events for navigation now
@@ -323,43 +435,41 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
     };
 
     const handleInfoClick = (domain: Domain, isCenter: boolean = false) => {
+        openInfo(domain, isCenter ? currentPath : [...currentPath, domain.name]);
+    };
+
+    // `relativePath` is where the domain is, from the top of the tree
+    const openInfo = (domain: Domain, relativePath: string[]) => {
         setModalDomain(domain);
-        const relativePath = isCenter ? currentPath : [...currentPath, domain.name];
-        const fullPath = [domainTree!.name, ...relativePath];
-        setModalDomainPath(fullPath);
+        setModalDomainPath([domainTree!.name, ...relativePath]);
+    };
+
+    // A domain linked from an info card: where it already is in the loaded
+    // tree, or else a new tree rooted at it
+    const handleOpenDomain = (name: string) => {
+        setModalDomain(null);
+        setModalDomainPath(null);
+        const path = domainTree ? findPathByName(domainTree, name) : null;
+        if (path) {
+            setCurrentPath(path);
+        } else {
+            executeSearch(name);
+        }
     };
 
     const handleLoadMore = useCallback(async () => {
         if (!currentNode) return;
         setIsMoreLoading(true);
         try {
-            const fullContextPath = [domainTree!.name, ...currentPath];
             const nextVariant = loadMoreVariant + 1;
 
-            const newNames = await generateAIDomains(currentNode.name, fullContextPath, nextVariant);
-            setLoadMoreVariant(nextVariant);
-
-            if (newNames.length > 0) {
-                if (!domainTree) return;
+            if (!domainTree) return;
 
-                const freshParent = findNodeByPath(domainTree, currentPath);
-                if (!freshParent) return;
-
-                const existing = freshParent.children || [];
-                const existingSet = new Set(existing.map(c => c.name.toLowerCase()));
-
-                const uniqueNew = newNames.filter(n => !existingSet.has(n.toLowerCase()));
-
-                const newDomains: Domain[] = uniqueNew.map(name => ({
-                    id: name,
-                    name,
-                    children: null,
-                    source: 'ai'
-                }));
+            const children = await generateMoreDomainChildren(taxonomyId(currentNode), nextVariant, currentNode.children ?? []);
+            setLoadMoreVariant(nextVariant);
 
-                const newTree = updateNodeByPath(domainTree, currentPath, [...existing, ...newDomains]);
-                setDomainTree(newTree);
-            }
+            const newTree = updateNodeByPath(domainTree, currentPath, children);
+            setDomainTree(newTree);
         } catch (e) {
             setError("Failed to load more.");
         } finally {
@@ -377,14 +487,7 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
             setIsSearchVisible(false);
             searchInputRef.current?.blur();
 
-            const aiNames = await generateAIDomains(searchTerm, [searchTerm], 0);
-
-            const children = aiNames.map((name) => ({
-                id: name,
-                name,
-                children: null,
-                source: 'ai' as const
-            }));
+            const children = await loadDomainChildren(searchTerm);
 
             setDomainTree({ id: searchTerm, name: searchTerm, children });
         } catch (err: any) {
@@ -395,7 +498,7 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
         }
     };
 
-    const handleContextSearchSubmit = (e: React.FormEvent) => {
+    const handleContextSearchSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
 
         if (!searchQuery.trim()) return;
@@ -411,23 +514,20 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
         const node = findNodeByPath(domainTree, currentPath);
         if (!node) return;
 
-        const newChild: Domain = {
-            id: term,
-            name: term,
-            children: null,
-            source: 'ai'
-        };
+        setSearchQuery('');
+        setIsSearchVisible(false);
+        searchInputRef.current?.blur();
 
         const currentChildren = node.children || [];
         // Avoid duplicates (insensitive)
-        if (!currentChildren.find(c => c.name.toLowerCase() === term.toLowerCase())) {
-            const newTree = updateNodeByPath(domainTree, currentPath, [...currentChildren, newChild]);
-            setDomainTree(newTree);
-        }
+        if (currentChildren.find(c => c.name.toLowerCase() === term.toLowerCase())) return;
 
-        setSearchQuery('');
-        setIsSearchVisible(false);
-        searchInputRef.current?.blur();
+        try {
+            const children = await addUserDomain(taxonomyId(node), term);
+            setDomainTree(updateNodeByPath(domainTree, currentPath, children));
+        } catch (err) {
+            setError("Failed to add domain.");
+        }
     };
 
     const handleSearchSubmit = async (e: React.FormEvent) => {
@@ -539,49 +639,104 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
         }
     };
 
-    // Helper to control domain selection based on drag state
-    const handleDomainClickRequest = (domainName: string) => {
-        if (isDragging.current) return; // Ignore if currently dragging
+    // Whether the pointer that just came up was a tap, not the end of a drag or a hold
+    const isTap = () => {
+        if (isDragging.current) return false; // Ignore if currently dragging
 
         // Duration check: Tap must be short (< 150ms) to distinguish from "Hold to Explore"
         // User requested "slightly reduce" / "sooner"
         // BYPASS this check for MOUSE to restore "old" desktop control feel
-        if (lastPointerType.current !== 'mouse' && Date.now() - startDragTime.current > 150) return;
+        return lastPointerType.current === 'mouse' || Date.now() - startDragTime.current <= 150;
+    };
+
+    // Helper to control domain selection based on drag state
+    const handleDomainClickRequest = (domainName: string) => {
+        if (isTap()) handleSelectDomain(domainName);
+    };
+
+    // A satellite: straight to the grandchild, through its parent
+    const handleSatelliteClick = (parentName: string, name: string) => {
+        if (!isTap()) return;
+        setSearchQuery('');
+        setCurrentPath(prev => [...prev, parentName, name]);
+    };
+
+    const handleSphereKeyDown = (e: React.KeyboardEvent) => {
+        if (e.altKey || e.ctrlKey || e.metaKey) return;
+        const direction = ARROW_DIRECTIONS[e.key];
+        if (direction) {
+            e.preventDefault();
+            roving.move(direction);
+            return;
+        }
 
-        handleSelectDomain(domainName);
+        const id = (e.target as HTMLElement).dataset.focusId;
+        const isCenter = id === currentNode?.id;
+        const domain = isCenter ? currentNode : filteredOrbitingChildren.find(d => d.id === id);
+        if (!domain) return;
+        if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            if (isCenter) return;
+            pendingFocus.current = domain.name;
+            handleSelectDomain(domain.name);
+        } else if (e.key === 'i' || e.key === 'I') {
+            e.preventDefault();
+            handleInfoClick(domain, isCenter);
+        } else if (e.key === 'Backspace' && currentPath.length > 0) {
+            e.preventDefault();
+            pendingFocus.current = centerNodeName;
+            handleBack();
+        }
     };
 
+    const handleDigestClick = (domain: Domain, postId: string) => {
+        if (!isTap()) return;
+        setCurrentView({ type: ViewType.Post, domainId: domain.id, domainName: domain.name, focusedPostId: postId, route: [...currentPath, domain.name] });
+    };
+
+    const childCount = currentNode?.children?.length;
+    const announcement = isSearching || (isLoading && childCount === undefined)
+        ? `Loading ${centerNodeName}`
+        : childCount === undefined ? '' : `${centerNodeName}, ${childCount} ${childCount === 1 ? 'subdomain' : 'subdomains'}`;
+
     const renderBreadcrumb = () => (
-        <div
+        <nav
             ref={breadcrumbRef}
-            className="flex items-center space-x-1 text-sm text-slate-400 overflow-x-auto whitespace-nowrap px-2 font-medium h-full w-full custom-scrollbar"
+            aria-label="Breadcrumb"
+            className="text-sm text-slate-400 overflow-x-auto whitespace-nowrap px-2 font-medium h-full w-full custom-scrollbar"
         >
-            <button onClick={handleGoHome} className="hover:text-white transition-colors flex-shrink-0 px-2 py-1">Home</button>
-            {(domainTree?.name !== 'SparkSphere') && (
-                <>
-                    <span className="flex-shrink-0 opacity-40 mx-1">/</span>
-                    <button
-                        onClick={() => setCurrentPath([])}
-                        className={`${currentPath.length === 0 ? 'text-white font-semibold' : 'hover:text-white'} transition-colors flex-shrink-0 px-2 py-1`}
-                    >
-                        {domainTree?.name}
-                    </button>
-                </>
-            )}
-            {currentPath.map((name, index) => (
-                <React.Fragment key={`${name}-${index}`}>
-                    <span className="flex-shrink-0 opacity-40 mx-1">/</span>
-                    <button
-                        onClick={() => handleNavigate(index)}
-                        className={`${index === currentPath.length - 1 ? 'text-white font-semibold' : 'hover:text-white'} transition-colors flex-shrink-0 px-2 py-1`}
-                    >
-                        {name}
-                    </button>
-                </React.Fragment>
-            ))}
-            {/* Spacer to ensure last item isn't masked */}
-            <div className="w-8 flex-shrink-0"></div>
-        </div>
+            <ol className="flex items-center space-x-1 h-full">
+                <li className="flex-shrink-0">
+                    <button onClick={handleGoHome} className="hover:text-white transition-colors px-2 py-1">Home</button>
+                </li>
+                {(domainTree?.name !== 'SparkSphere') && (
+                    <li className="flex items-center flex-shrink-0">
+                        <span className="opacity-40 mx-1" aria-hidden="true">/</span>
+                        <button
+                            onClick={() => setCurrentPath([])}
+                            aria-current={currentPath.length === 0 ? 'page' : undefined}
+                            className={`${currentPath.length === 0 ? 'text-white font-semibold' : 'hover:text-white'} transition-colors px-2 py-1`}
+                        >
+                            {domainTree?.name}
+                        </button>
+                    </li>
+                )}
+                {currentPath.map((name, index) => (
+                    <li key={`${name}-${index}`} className="flex items-center flex-shrink-0">
+                        <span className="opacity-40 mx-1" aria-hidden="true">/</span>
+                        <button
+                            onClick={() => handleNavigate(index)}
+                            aria-current={index === currentPath.length - 1 ? 'page' : undefined}
+                            className={`${index === currentPath.length - 1 ? 'text-white font-semibold' : 'hover:text-white'} transition-colors px-2 py-1`}
+                        >
+                            {name}
+                        </button>
+                    </li>
+                ))}
+                {/* Spacer to ensure last item isn't masked */}
+                <li className="w-8 flex-shrink-0" aria-hidden="true"></li>
+            </ol>
+        </nav>
     );
 
     const renderContent = () => {
@@ -589,9 +744,22 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
             return <ConstructingDomainsView />;
         }
 
-        if (currentNode) {
-            const centerNodeName = currentPath.length > 0 ? currentPath[currentPath.length - 1] : (domainTree?.name || "SparkSphere");
+        if (currentNode && domainTree && isGlobe) {
+            return (
+                <div className="absolute inset-0">
+                    <DomainGlobe
+                        tree={domainTree}
+                        path={currentPath}
+                        shown={filteredOrbitingChildren}
+                        onOpen={(path) => { setSearchQuery(''); setCurrentPath(path); }}
+                        onInfo={openInfo}
+                        activityOf={activityOf}
+                    />
+                </div>
+            );
+        }
 
+        if (currentNode) {
             return (
                 <div
                     className="absolute inset-0 overflow-hidden cursor-move touch-none"
@@ -613,36 +781,50 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
 
                     <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
                         <div
-                            ref={containerRef}
                             className="relative w-[90vmin] h-[90vmin] transition-transform duration-100 ease-linear"
                             style={{
                                 transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoomLevel})`
                             }}
                         >
-                            <svg className="absolute inset-0 w-full h-full pointer-events-none" style={{ transform: 'translateZ(0)' }}>
-                                {filteredOrbitingChildren.map((domain) => (
-                                    domain.position && (
-                                        <line
+                            {/* In % like the spheres. The CSS `d` lets the lines move with
+                                the spheres where it is supported; elsewhere they jump. */}
+                            <svg className="absolute inset-0 w-full h-full pointer-events-none overflow-visible" viewBox="0 0 100 100" preserveAspectRatio="none" style={{ transform: 'translateZ(0)' }}>
+                                {filteredOrbitingChildren.map((domain) => {
+                                    if (!domain.position) return null;
+                                    const line = `M 50 50 L ${domain.position.x} ${domain.position.y}`;
+                                    return (
+                                        <path
                                             key={`line-${domain.id}`}
-                                            x1="50%"
-                                            y1="50%"
-                                            x2={`${domain.position.x}%`}
-                                            y2={`${domain.position.y}%`}
+                                            d={line}
+                                            style={{ d: `path("${line}")`, transition: `d ${ORBIT_TRANSITION}` } as React.CSSProperties}
                                             stroke="var(--grid-dot-color)"
                                             strokeWidth="1"
                                             strokeDasharray="3 4"
+                                            vectorEffect="non-scaling-stroke"
                                             opacity="0.4"
                                         />
-                                    )
-                                ))}
+                                    );
+                                })}
                             </svg>
 
-                            <div className="pointer-events-auto">
+                            <div
+                                ref={sphereLayer}
+                                className="pointer-events-auto"
+                                role="group"
+                                aria-label={`${centerNodeName} and its subdomains`}
+                                aria-describedby="explore-keys"
+                                onKeyDown={handleSphereKeyDown}
+                            >
+                                <p id="explore-keys" className="sr-only">
+                                    Arrow keys move between domains. Enter opens one, I shows its info, Backspace goes back up.
+                                </p>
                                 <DomainSphere
                                     domain={currentNode}
                                     onSelect={() => { }}
                                     onInfo={(domain) => handleInfoClick(domain, true)}
                                     isCenter={true}
+                                    tabIndex={roving.activeId === currentNode.id ? 0 : -1}
+                                    onFocus={() => roving.choose(currentNode.id)}
                                 />
 
                                 {filteredOrbitingChildren.map((domain, index) => (
@@ -652,6 +834,21 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
                                         onSelect={() => handleDomainClickRequest(domain.name)}
                                         onInfo={(domain) => handleInfoClick(domain)}
                                         index={index}
+                                        tabIndex={roving.activeId === domain.id ? 0 : -1}
+                                        onFocus={() => roving.choose(domain.id)}
+                                        activity={activityOf(domain)}
+                                    />
+                                ))}
+
+                                {(showSatellites || showDigests) && filteredOrbitingChildren.map(domain => (
+                                    <OrbitDetail
+                                        key={`detail-${domain.id}`}
+                                        domain={domain}
+                                        weight={activityWeights?.[domain.id]}
+                                        showSatellites={showSatellites}
+                                        digest={showDigests ? digests[domain.id] ?? undefined : undefined}
+                                        onOpenChild={(name) => handleSatelliteClick(domain.name, name)}
+                                        onOpenPost={(postId) => handleDigestClick(domain, postId)}
                                     />
                                 ))}
                             </div>
@@ -667,6 +864,11 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
         <div className="w-full h-full flex flex-col relative font-sans text-slate-200 overflow-hidden bg-transparent">
             <div className="noise-overlay" />
 
+            {/* Where you are, for screen readers */}
+            <div className="sr-only" role="status" aria-live="polite">
+                {announcement}
+            </div>
+
             <Navbar
                 isOpen={isNavOpen}
                 onClose={() => setIsNavOpen(false)}
@@ -714,6 +916,24 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
                     </div>
                 </div>
 
+                {otherParents.length > 0 && currentNode && !isSearchVisible && (
+                    <div className="flex justify-center mt-2 animate-fade-in">
+                        <div className="glass-panel rounded-full px-3 py-1.5 flex items-center gap-2 text-xs text-slate-400 max-w-full overflow-x-auto whitespace-nowrap custom-scrollbar">
+                            <span className="flex-shrink-0">Also found under</span>
+                            {otherParents.map(parent => (
+                                <button
+                                    key={parent.id}
+                                    onClick={() => openRoute([...parent.id.split('/'), currentNode.name])}
+                                    className="flex-shrink-0 px-2 py-0.5 rounded-full bg-white/5 hover:bg-white/10 hover:text-white transition-colors"
+                                    title={parent.id.split('/').join(' / ')}
+                                >
+                                    {parent.name}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
                 {/* Dropdown Search Bar */}
                 <div
                     className={`absolute top-full mt-3 left-4 right-4 overflow-hidden transition-all duration-500 cubic-bezier(0.16, 1, 0.3, 1) ${isSearchVisible ? 'max-h-24 opacity-100 translate-y-0' : 'max-h-0 opacity-0 -translate-y-4'}`}
@@ -789,6 +1009,7 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
                                     <h3 className="font-bold text-sm text-slate-200">Explore</h3>
                                     <p className="text-xs text-slate-400 mt-0.5 leading-relaxed">
                                         <span className="md:hidden">Tap</span><span className="hidden md:inline">Click</span> bubbles to dive deeper relative to the center topic.
+                                        <span className="hidden md:inline"> With the keyboard: Tab to the bubbles, arrows to move, Enter to dive, I for info, Backspace to go back.</span>
                                     </p>
                                 </div>
                             </div>
@@ -802,6 +1023,33 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
                                     <p className="text-xs text-slate-400 mt-0.5 leading-relaxed">
                                         <span className="md:hidden">Drag to move. Pinch to zoom.</span>
                                         <span className="hidden md:inline">Drag to move. Scroll to zoom.</span>
+                                        {' '}Zoom in to see each domain's subdomains, closer still its posts.
+                                    </p>
+                                </div>
+                            </div>
+
+                            {globeAvailable && (
+                                <div className="flex items-start space-x-3">
+                                    <div className="p-2 bg-white/5 rounded-lg mt-0.5">
+                                        <GlobeIcon className="w-5 h-5 text-sky-400" />
+                                    </div>
+                                    <div>
+                                        <h3 className="font-bold text-sm text-slate-200">Globe</h3>
+                                        <p className="text-xs text-slate-400 mt-0.5 leading-relaxed">
+                                            The globe button shows domains on a 3D globe, each inside its parent's region. Drag to turn it.
+                                        </p>
+                                    </div>
+                                </div>
+                            )}
+
+                            <div className="flex items-start space-x-3">
+                                <div className="p-2 bg-white/5 rounded-lg mt-0.5">
+                                    <RadarIcon className="w-5 h-5 text-amber-400" />
+                                </div>
+                                <div>
+                                    <h3 className="font-bold text-sm text-slate-200">Activity</h3>
+                                    <p className="text-xs text-slate-400 mt-0.5 leading-relaxed">
+                                        Bubbles grow with the posts in them and below, and glow when posted to this week. The radar button turns this off.
                                     </p>
                                 </div>
                             </div>
@@ -854,25 +1102,72 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
                 )}
             </button>
 
+            {/* What the activity spheres mean */}
+            {showActivity && currentNode?.children && !isSearching && (
+                <div className="fixed bottom-[calc(74px+env(safe-area-inset-bottom))] left-4 md:bottom-32 md:left-6 z-30 glass-panel rounded-2xl px-3 py-2 text-[0.65rem] text-slate-300 space-y-1.5 animate-fade-in pointer-events-none">
+                    <p className="font-semibold uppercase tracking-widest text-slate-400">Activity</p>
+                    <p className="flex items-center gap-2">
+                        <span className="px-1.5 py-0.5 rounded-full text-[0.6rem] font-semibold leading-none bg-[var(--primary-accent)] text-black">12</span>
+                        Posts here and below
+                    </p>
+                    <p className="flex items-center gap-2">
+                        <span className="w-3 h-3 rounded-full border border-[var(--sphere-border)]" style={{ boxShadow: '0 0 8px var(--primary-accent)' }} />
+                        Posted to this week
+                    </p>
+                    <p className="flex items-center gap-2">
+                        <span className="w-4 h-3 flex items-end gap-px">
+                            <span className="w-1.5 h-1.5 rounded-full border border-[var(--sphere-border)]" />
+                            <span className="w-2.5 h-2.5 rounded-full border border-[var(--sphere-border)]" />
+                        </span>
+                        Bigger: more posts
+                    </p>
+                </div>
+            )}
+
             {/* Floating Zoom Controls - Visible on Mobile now but smaller */}
             <div className="flex fixed bottom-[calc(74px+env(safe-area-inset-bottom))] right-4 md:bottom-32 md:right-6 flex-col space-y-3 z-40 scale-90 md:scale-100 origin-bottom-right">
-                {/* Pinch Toggle (Mobile Only) */}
                 <button
-                    onClick={() => setPinchEnabled(!isPinchEnabled)}
-                    className={`md:hidden p-3 glass-dock rounded-full transition-all active:scale-95 shadow-xl border group backdrop-blur-md ${isPinchEnabled ? 'bg-[var(--primary-accent)]/80 border-[var(--primary-accent)] !text-white' : 'bg-black/40 border-white/10 text-slate-400'}`}
-                    title={isPinchEnabled ? "Disable Pinch Zoom" : "Enable Pinch Zoom"}
+                    onClick={toggleActivity}
+                    className={`p-3 glass-dock rounded-full transition-all active:scale-95 shadow-xl border group backdrop-blur-md ${showActivity ? 'bg-[var(--primary-accent)]/80 border-[var(--primary-accent)] !text-white' : 'bg-black/40 border-white/10 text-slate-300 hover:text-white'}`}
+                    title={showActivity ? "Hide Activity" : "Show Activity"}
+                    aria-pressed={showActivity}
                 >
-                    <div className="w-5 h-5 flex items-center justify-center font-bold text-xs">
-                        {isPinchEnabled ? '✋' : '🔒'}
-                    </div>
+                    <RadarIcon className="w-5 h-5" />
                 </button>
 
-                <button onClick={handleZoomIn} className="p-3 glass-dock rounded-full hover:bg-white/10 text-slate-300 hover:text-white transition-all active:scale-95 shadow-xl border border-white/10 group backdrop-blur-md bg-black/40">
-                    <ZoomInIcon className="w-5 h-5 group-active:scale-110 transition-transform" />
-                </button>
-                <button onClick={handleZoomOut} className="p-3 glass-dock rounded-full hover:bg-white/10 text-slate-300 hover:text-white transition-all active:scale-95 shadow-xl border border-white/10 group backdrop-blur-md bg-black/40">
-                    <ZoomOutIcon className="w-5 h-5 group-active:scale-90 transition-transform" />
-                </button>
+                {/* 2D / 3D Toggle */}
+                {globeAvailable && (
+                    <button
+                        onClick={toggleGlobe}
+                        className={`p-3 glass-dock rounded-full transition-all active:scale-95 shadow-xl border group backdrop-blur-md ${isGlobe ? 'bg-[var(--primary-accent)]/80 border-[var(--primary-accent)] !text-white' : 'bg-black/40 border-white/10 text-slate-300 hover:text-white'}`}
+                        title={isGlobe ? "Switch to Orbit View" : "Switch to Globe View"}
+                    >
+                        <GlobeIcon className="w-5 h-5" />
+                    </button>
+                )}
+
+                {/* The globe zooms and turns by itself */}
+                {!isGlobe && (
+                    <>
+                        {/* Pinch Toggle (Mobile Only) */}
+                        <button
+                            onClick={() => setPinchEnabled(!isPinchEnabled)}
+                            className={`md:hidden p-3 glass-dock rounded-full transition-all active:scale-95 shadow-xl border group backdrop-blur-md ${isPinchEnabled ? 'bg-[var(--primary-accent)]/80 border-[var(--primary-accent)] !text-white' : 'bg-black/40 border-white/10 text-slate-400'}`}
+                            title={isPinchEnabled ? "Disable Pinch Zoom" : "Enable Pinch Zoom"}
+                        >
+                            <div className="w-5 h-5 flex items-center justify-center font-bold text-xs">
+                                {isPinchEnabled ? '✋' : '🔒'}
+                            </div>
+                        </button>
+
+                        <button onClick={handleZoomIn} className="p-3 glass-dock rounded-full hover:bg-white/10 text-slate-300 hover:text-white transition-all active:scale-95 shadow-xl border border-white/10 group backdrop-blur-md bg-black/40">
+                            <ZoomInIcon className="w-5 h-5 group-active:scale-110 transition-transform" />
+                        </button>
+                        <button onClick={handleZoomOut} className="p-3 glass-dock rounded-full hover:bg-white/10 text-slate-300 hover:text-white transition-all active:scale-95 shadow-xl border border-white/10 group backdrop-blur-md bg-black/40">
+                            <ZoomOutIcon className="w-5 h-5 group-active:scale-90 transition-transform" />
+                        </button>
+                    </>
+                )}
             </div>
 
             {/* Floating Glass Dock */}
@@ -915,12 +1210,12 @@ const ExploreView: React.FC<ExploreViewProps> = ({ setCurrentView, initialPath,
 
             <ImagePreviewModal
                 domain={modalDomain}
-                domainPath={modalDomainPath}
                 onClose={() => {
                     setModalDomain(null);
                     setModalDomainPath(null);
                 }}
-                onSeePosts={(domain) => setCurrentView({ type: ViewType.Post, domainId: domain.id, domainName: domain.name })}
+                onSeePosts={(domain) => setCurrentView({ type: ViewType.Post, domainId: domain.id, domainName: domain.name, route: modalDomainPath?.slice(1) })}
+                onOpenDomain={handleOpenDomain}
             />
             <CreatePostModal
                 isOpen={isCreatePostModalOpen}
@@ -1,9 +1,11 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { execute } from '../lib/tidbClient';
+import { call } from '../lib/rpc/client';
 import { useAuth } from '../contexts/AuthContext';
-import { PostWithAuthorAndLikes, ViewState, ViewType, Comment } from '../types';
+import { PostWithAuthorAndLikes, PostSummary, Page, ViewState, ViewType, Comment } from '../types';
 import { useStatus } from '../contexts/StatusContext';
+import useInfiniteScroll from '../hooks/useInfiniteScroll';
 import { HeartIcon, TrashIcon, BackIcon, CommentIcon, GlobeIcon } from './icons';
+import PostGallery from './PostGallery';
 import PostView from './PostView'; // We might want to resuse components from PostView or refactor PostCard out.
 // For now, I will duplicate PostCard to be safe and independent, or better yet, refactor PostCard to be exported from PostView.tsx 
 // But viewing PostView.tsx shows PostCard is not exported. I should probably duplicate it for this specific task to avoid touching PostView logic too much and breaking things, 
@@ -77,7 +79,7 @@ const CommentCard: React.FC<{ comment: Comment & { replies?: Comment[] }, onDele
     );
 };
 
-const PostCard: React.FC<{ post: PostWithAuthorAndLikes; onToggleLike: () => void; onDelete: () => void; onComment: (content: string, parentId?: string) => Promise<void>; onDeleteComment: (commentId: string) => Promise<void>; currentUserId: string | undefined; onUserClick: (uid: string) => void; }> = ({ post, onToggleLike, onDelete, onComment, onDeleteComment, currentUserId, onUserClick }) => {
+const PostCard: React.FC<{ post: PostWithAuthorAndLikes; onToggleLike: () => void; onDelete: () => void; onComment: (content: string, parentId?: string) => Promise<void>; onDeleteComment: (commentId: string) => Promise<void>; onLoadMoreComments: () => Promise<void>; currentUserId: string | undefined; onUserClick: (uid: string) => void; }> = ({ post, onToggleLike, onDelete, onComment, onDeleteComment, onLoadMoreComments, currentUserId, onUserClick }) => {
     const isOwner = post.user_id === currentUserId;
     const [commentContent, setCommentContent] = useState('');
     const [replyTo, setReplyTo] = useState<{ id: string, username: string } | null>(null);
@@ -129,11 +131,7 @@ const PostCard: React.FC<{ post: PostWithAuthorAndLikes; onToggleLike: () => voi
 
                     <p className="text-[var(--text-color)] whitespace-pre-wrap leading-relaxed text-[15px] font-normal tracking-wide pl-1">{post.content}</p>
 
-                    {post.imageURL && (
-                        <div className="mt-4 rounded-xl overflow-hidden border border-white/10 max-h-96 w-full">
-                            <img src={post.imageURL} alt="Post Attachment" className="w-full h-full object-cover" />
-                        </div>
-                    )}
+                    <PostGallery attachments={post.attachments} />
                 </div>
 
                 <div className="px-4 py-2 md:px-6 md:py-3 bg-[var(--bg-color)]/20 border-t border-[var(--glass-border)] flex items-center space-x-6">
@@ -165,6 +163,11 @@ const PostCard: React.FC<{ post: PostWithAuthorAndLikes; onToggleLike: () => voi
                                     currentUserId={currentUserId}
                                 />
                             ))}
+                            {post.commentsCursor && (
+                                <button onClick={onLoadMoreComments} className="text-[10px] text-slate-500 hover:text-indigo-400 font-mono uppercase tracking-widest transition-colors">
+                                    Load more replies
+                                </button>
+                            )}
                         </div>
 
                         {currentUserId && (
@@ -220,10 +223,24 @@ const FeedView: React.FC<FeedViewProps> = ({ setCurrentView }) => {
     const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
     const scrollContainerRef = React.useRef<HTMLDivElement>(null);
 
+    const [nextCursor, setNextCursor] = useState<string | undefined>();
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    // Bumped by every fresh load, so a page requested for an older feed is dropped
+    const generation = React.useRef(0);
+
     const { setError } = useStatus();
 
+    // Issued together, so the client sends these as one batch request
+    const withComments = (page: Page<PostSummary>): Promise<PostWithAuthorAndLikes[]> => Promise.all(page.items.map(async post => {
+        const comments = await call('comments.list', { postId: post.id });
+        return { ...post, comments: comments.items, commentsCursor: comments.nextCursor };
+    }));
+
+    const interestsOf = () => (profile?.interests || '').split(',').filter(Boolean);
+
     const fetchFeed = useCallback(async () => {
         if (!user) return;
+        const current = ++generation.current;
 
         // Check for interests
         if (!profile?.interests) {
@@ -235,7 +252,7 @@ const FeedView: React.FC<FeedViewProps> = ({ setCurrentView }) => {
         setShowTopicSelector(false);
         setIsLoading(true);
         try {
-            const interests = profile.interests.split(',').filter(Boolean);
+            const interests = interestsOf();
             if (interests.length === 0) {
                 setShowTopicSelector(true);
                 setIsLoading(false);
@@ -244,67 +261,13 @@ const FeedView: React.FC<FeedViewProps> = ({ setCurrentView }) => {
 
             // ... (rest of fetch logic)
 
-            // Construct LIKE clauses for each interest
-            // WHERE (LOWER(p.domain_id) LIKE '%topic1%' OR LOWER(p.domain_id) LIKE '%topic2%')
-            const likeClauses = interests.map(() => `LOWER(p.domain_id) LIKE ?`).join(' OR ');
-            const queryParams = interests.map(i => `%${i.toLowerCase()}%`);
-
-            const sql = `
-                SELECT 
-                    p.*, 
-                    u.username, 
-                    u.photoURL,
-                    (SELECT COUNT(*) FROM likes l WHERE l.post_id = p.id) as like_count,
-                    (SELECT COUNT(*) FROM comments c WHERE c.post_id = p.id) as comment_count,
-                    EXISTS(SELECT 1 FROM likes l WHERE l.post_id = p.id AND l.user_id = ?) as is_liked_by_user
-                FROM posts p 
-                LEFT JOIN profiles u ON p.user_id = u.id 
-                WHERE ${likeClauses}
-                ORDER BY like_count DESC, p.created_at DESC
-                LIMIT 50
-            `;
-
-            const rawPosts = await execute(sql, [user.uid, ...queryParams]);
-
-            const postsWithComments = await Promise.all(rawPosts.map(async (post: any) => {
-                const commentsSql = `
-                    SELECT c.*, u.username, u.photoURL 
-                    FROM comments c
-                    LEFT JOIN profiles u ON c.user_id = u.id
-                    WHERE c.post_id = ?
-                    ORDER BY c.created_at ASC
-                `;
-                const comments = await execute(commentsSql, [post.id]);
-
-                return {
-                    id: post.id,
-                    content: post.content,
-                    imageURL: post.imageURL,
-                    created_at: post.created_at,
-                    user_id: post.user_id,
-                    domain_id: post.domain_id,
-                    profiles: {
-                        username: post.username || 'Unknown',
-                        photoURL: post.photoURL
-                    },
-                    like_count: Number(post.like_count),
-                    is_liked_by_user: Boolean(post.is_liked_by_user),
-                    comment_count: Number(post.comment_count),
-                    comments: comments.map((c: any) => ({
-                        id: c.id,
-                        user_id: c.user_id,
-                        parent_id: c.parent_id,
-                        content: c.content,
-                        created_at: c.created_at,
-                        profiles: {
-                            username: c.username || 'Unknown',
-                            photoURL: c.photoURL
-                        }
-                    }))
-                };
-            }));
+            // Posts whose domain path mentions any interest, newest first
+            const page = await call('posts.listFeed', { interests });
+            const postsWithComments = await withComments(page);
+            if (current !== generation.current) return;
 
             setPosts(postsWithComments);
+            setNextCursor(page.nextCursor);
 
         } catch (e) {
             console.error("Feed error", e);
@@ -319,6 +282,37 @@ const FeedView: React.FC<FeedViewProps> = ({ setCurrentView }) => {
         fetchFeed();
     }, [fetchFeed]);
 
+    const loadMorePosts = async () => {
+        if (!nextCursor || isLoadingMore) return;
+        const current = generation.current;
+        setIsLoadingMore(true);
+        try {
+            const page = await call('posts.listFeed', { interests: interestsOf(), cursor: nextCursor });
+            const more = await withComments(page);
+            if (current !== generation.current) return;
+            setPosts(existing => [...existing, ...more.filter(p => !existing.some(e => e.id === p.id))]);
+            setNextCursor(page.nextCursor);
+        } catch (e) {
+            console.error("Feed error", e);
+            setError("Failed to load older transmissions.");
+        } finally {
+            setIsLoadingMore(false);
+        }
+    };
+
+    const loadMoreSentinel = useInfiniteScroll(loadMorePosts, { enabled: !isLoading && !isLoadingMore && !!nextCursor, root: scrollContainerRef });
+
+    const handleLoadMoreComments = async (post: PostWithAuthorAndLikes) => {
+        if (!post.commentsCursor) return;
+        try {
+            const page = await call('comments.list', { postId: post.id, cursor: post.commentsCursor });
+            setPosts(current => current.map(p => p.id === post.id
+                ? { ...p, comments: [...p.comments, ...page.items.filter(c => !p.comments.some(e => e.id === c.id))], commentsCursor: page.nextCursor }
+                : p
+            ));
+        } catch (err: any) { setError("Failed to load replies."); }
+    };
+
     // Copy handlers from PostView... simplified
     const handleToggleLike = async (post: PostWithAuthorAndLikes) => {
         if (!user) return;
@@ -328,14 +322,14 @@ const FeedView: React.FC<FeedViewProps> = ({ setCurrentView }) => {
                 : p
         ));
         try {
-            if (post.is_liked_by_user) await execute('DELETE FROM likes WHERE post_id = ? AND user_id = ?', [post.id, user.uid]);
-            else await execute('INSERT INTO likes (id, post_id, user_id, created_at) VALUES (UUID(), ?, ?, ?)', [post.id, user.uid, new Date().toISOString()]);
+            if (post.is_liked_by_user) await call('posts.unlike', { postId: post.id });
+            else await call('posts.like', { postId: post.id });
         } catch (err: any) { }
     };
 
     const handleDeletePost = async (postId: string) => {
         try {
-            await execute('DELETE FROM posts WHERE id = ?', [postId]);
+            await call('posts.delete', { id: postId });
             setPosts(p => p.filter(x => x.id !== postId));
         } catch (err: any) { setError("Failed to delete post."); }
     };
@@ -345,16 +339,31 @@ const FeedView: React.FC<FeedViewProps> = ({ setCurrentView }) => {
         try {
             const newId = crypto.randomUUID();
             const now = new Date().toISOString();
-            await execute('INSERT INTO comments (id, post_id, user_id, content, created_at, parent_id) VALUES (?, ?, ?, ?, ?, ?)', [newId, postId, user.uid, content.trim(), now, parentId || null]);
-            // Ideally refetch or update local state complexly... for now just refetch for simplicity or simple local update
-            fetchFeed(); // Lazy way to refresh comments
+            await call('comments.create', { id: newId, postId, content: content.trim(), parentId });
+
+            // Patched in place: refetching would throw away every page loaded so far
+            const newComment: Comment = {
+                id: newId,
+                user_id: user.uid,
+                parent_id: parentId,
+                content: content.trim(),
+                created_at: now,
+                profiles: { username: profile?.username || 'Me', photoURL: profile?.photoURL }
+            };
+            setPosts(current => current.map(p => p.id === postId
+                ? { ...p, comments: [...p.comments, newComment], comment_count: p.comment_count + 1 }
+                : p
+            ));
         } catch (err: any) { setError("Failed to post comment."); }
     };
 
     const handleDeleteComment = async (postId: string, commentId: string) => {
         try {
-            await execute('DELETE FROM comments WHERE id = ?', [commentId]);
-            fetchFeed();
+            await call('comments.delete', { id: commentId });
+            setPosts(current => current.map(p => p.id === postId
+                ? { ...p, comments: p.comments.filter(c => c.id !== commentId), comment_count: p.comment_count - 1 }
+                : p
+            ));
         } catch (e) { setError("Failed to delete comment"); }
     };
 
@@ -485,15 +494,16 @@ const FeedView: React.FC<FeedViewProps> = ({ setCurrentView }) => {
                                     onDelete={() => handleDeletePost(post.id)}
                                     onComment={(content, parentId) => handleCreateComment(post.id, content, parentId)}
                                     onDeleteComment={(commentId) => handleDeleteComment(post.id, commentId)}
+                                    onLoadMoreComments={() => handleLoadMoreComments(post)}
                                     currentUserId={user?.uid}
                                     onUserClick={(uid) => setCurrentView((prev) => ({ ...prev, overlayProfileId: uid }))}
                                 />
                             </div>
                         ))
                     )}
-                    {/* Snap-aligned Loading Trigger (Visual Only for now as pagination is implicit limit 50) */}
-                    {posts.length > 0 && (
-                        <div className="snap-start w-full min-h-[20vh] flex flex-col items-center justify-center py-10 opacity-50">
+                    {/* Snap-aligned Loading Trigger: reaching it loads the next page */}
+                    {posts.length > 0 && nextCursor && !isLoading && (
+                        <div ref={loadMoreSentinel} className="snap-start w-full min-h-[20vh] flex flex-col items-center justify-center py-10 opacity-50">
                             <div className="w-6 h-6 border-2 border-indigo-500/30 border-t-indigo-500 rounded-full animate-spin mb-3"></div>
                             <p className="text-[10px] uppercase tracking-widest text-slate-500">Synchronizing...</p>
                         </div>
@@ -1,28 +1,42 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Domain } from '../types';
+import { Domain, Attachment } from '../types';
 import { CloseIcon, BookmarkIcon, RefreshIcon, ChevronLeftIcon, ChevronRightIcon } from './icons';
-import { generateDomainDescription } from '../services/pollinationsService';
+import { loadDomainProfile, refreshDomainProfile, ShownProfile } from '../services/domainService';
+import { findTopicSummary } from '../services/webSearchService';
 import { useAuth } from '../contexts/AuthContext';
 import { useStatus } from '../contexts/StatusContext';
-import { execute } from '../lib/tidbClient';
+import { call } from '../lib/rpc/client';
+import { variantUrl } from '../lib/media';
 
 interface ImagePreviewModalProps {
   domain: Domain | null;
-  domainPath: string[] | null;
   onClose: () => void;
   onSeePosts: (domain: Domain) => void;
+  // A prerequisite or related domain was picked
+  onOpenDomain: (name: string) => void;
 }
 
-const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ domain, domainPath, onClose, onSeePosts }) => {
+const ProfileSection: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="mt-5">
+    <h3 className="text-[11px] uppercase tracking-widest text-slate-400 font-semibold mb-2">{title}</h3>
+    {children}
+  </section>
+);
+
+const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ domain, onClose, onSeePosts, onOpenDomain }) => {
   const { user } = useAuth();
   const [description, setDescription] = useState('');
+  const [shown, setShown] = useState<ShownProfile | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
   const { error, setError } = useStatus();
   const [isSaved, setIsSaved] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [imageLoaded, setImageLoaded] = useState(false);
   const [savedDocId, setSavedDocId] = useState<string | null>(null);
-  const [userImages, setUserImages] = useState<string[]>([]);
+  // Where a 'web' domain's summary came from
+  const [attribution, setAttribution] = useState<{ name: string; url: string } | null>(null);
+  const [userImages, setUserImages] = useState<Attachment[]>([]);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const slideInterval = useRef<NodeJS.Timeout | null>(null);
   const [isCheckingImages, setIsCheckingImages] = useState(true);
@@ -32,17 +46,30 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ domain, domainPat
     setIsLoading(true);
     setError(null);
     setDescription('');
+    setShown(null);
+    setAttribution(null);
     setImageLoaded(false);
     try {
-      const desc = await generateDomainDescription(domain.name, domainPath || []);
-      setDescription(desc);
+      // Web domains are summarised by the page they were found on; the
+      // profile still adds the rest
+      const page = domain.source !== 'web' ? null : domain.summary && domain.sourceUrl
+        ? { summary: domain.summary, url: domain.sourceUrl, source: domain.sourceName || 'the web' }
+        : await findTopicSummary(domain.name);
+      const profile = await loadDomainProfile(domain.id);
+      setShown(profile);
+      if (page?.summary) {
+        setDescription(page.summary);
+        setAttribution({ name: page.source, url: page.url });
+      } else {
+        setDescription(profile.profile.summary);
+      }
     } catch (err: any) {
-      console.error("Failed to generate description:", err.message);
+      console.error("Failed to load profile:", err.message);
       setError('Could not load description. Please try again.');
     } finally {
       setIsLoading(false);
     }
-  }, [domain, domainPath, setError]);
+  }, [domain, setError]);
 
   useEffect(() => {
     if (domain) {
@@ -52,11 +79,7 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ domain, domainPat
       const fetchUserImages = async () => {
         setIsCheckingImages(true);
         try {
-          const res = await execute(
-            `SELECT imageURL FROM posts WHERE domain_id = ? AND imageURL IS NOT NULL AND imageURL != '' ORDER BY created_at DESC LIMIT 10`,
-            [domain.id]
-          );
-          const images = res.map((r: any) => r.imageURL);
+          const images = await call('posts.domainImages', { domainId: domain.id });
           if (images.length > 0) {
             setUserImages(images);
             setCurrentImageIndex(0);
@@ -74,14 +97,11 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ domain, domainPat
       if (user) {
         const checkSavedStatus = async () => {
           try {
-            const result = await execute(
-              'SELECT id FROM saved_domains WHERE user_id = ? AND domain_id = ?',
-              [user.uid, domain.id]
-            );
+            const savedId = await call('savedDomains.find', { domainId: domain.id });
 
-            if (result.length > 0) {
+            if (savedId) {
               setIsSaved(true);
-              setSavedDocId(result[0].id);
+              setSavedDocId(savedId);
             } else {
               setIsSaved(false);
               setSavedDocId(null);
@@ -124,21 +144,46 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ domain, domainPat
 
   if (!domain) return null;
 
+  const handleRefreshProfile = async () => {
+    setIsRefreshing(true);
+    try {
+      const next = await refreshDomainProfile(domain.id, shown?.stored);
+      setShown(next);
+      if (!attribution) setDescription(next.profile.summary);
+    } catch (e) {
+      console.error("Failed to refresh profile:", e);
+      setError('Could not refresh this profile. Please try again.');
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const domainLinks = (names: string[]) => (
+    <div className="flex flex-wrap gap-2">
+      {names.map(name => (
+        <button
+          key={name}
+          onClick={() => onOpenDomain(name)}
+          className="px-3 py-1 rounded-full text-xs bg-indigo-500/15 text-indigo-200 hover:bg-indigo-500/30 border border-indigo-400/20 transition-colors"
+        >
+          {name}
+        </button>
+      ))}
+    </div>
+  );
+
   const handleToggleSave = async () => {
     if (!user || !domain) return;
     setIsSaving(true);
 
     try {
       if (isSaved && savedDocId) {
-        await execute('DELETE FROM saved_domains WHERE id = ?', [savedDocId]);
+        await call('savedDomains.remove', { id: savedDocId });
         setIsSaved(false);
         setSavedDocId(null);
       } else {
         const newId = crypto.randomUUID();
-        await execute(
-          'INSERT INTO saved_domains (id, user_id, domain_id, domain_name, saved_at) VALUES (?, ?, ?, ?, ?)',
-          [newId, user.uid, domain.id, domain.name, new Date().toISOString()]
-        );
+        await call('savedDomains.save', { id: newId, domainId: domain.id, domainName: domain.name });
         setIsSaved(true);
         setSavedDocId(newId);
       }
@@ -180,8 +225,8 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ domain, domainPat
 
           {!isCheckingImages && (
             <img
-              src={userImages.length > 0 ? userImages[currentImageIndex] : imageUrl}
-              alt={domain.name}
+              src={userImages.length > 0 ? variantUrl(userImages[currentImageIndex].url, 'thumb') : imageUrl}
+              alt={userImages[currentImageIndex]?.alt || domain.name}
               className={`w-full h-full object-cover transition-opacity duration-700 ${imageLoaded ? 'opacity-100' : 'opacity-0'}`}
               onLoad={() => setImageLoaded(true)}
               onError={(e) => {
@@ -221,7 +266,7 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ domain, domainPat
           <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-60 pointer-events-none"></div>
         </div>
 
-        <div className="text-[var(--text-color)] text-[15px] mb-8 min-h-[5rem] max-h-48 overflow-y-auto transition-opacity duration-300 whitespace-pre-wrap leading-relaxed description-scrollbar pr-2 font-light">
+        <div className="text-[var(--text-color)] text-[15px] mb-8 min-h-[5rem] max-h-72 overflow-y-auto transition-opacity duration-300 whitespace-pre-wrap leading-relaxed description-scrollbar pr-2 font-light">
           {isLoading && (
             <div className="flex items-center space-x-2 h-full justify-center opacity-60">
               <div className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce" style={{ animationDelay: '-0.3s' }}></div>
@@ -239,6 +284,77 @@ const ImagePreviewModal: React.FC<ImagePreviewModalProps> = ({ domain, domainPat
             </div>
           )}
           {!isLoading && !error && description}
+          {!isLoading && !error && attribution && (
+            <a
+              href={attribution.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block mt-3 text-xs text-slate-400 hover:text-indigo-300 transition-colors"
+            >
+              Source: {attribution.name} ↗
+            </a>
+          )}
+          {!isLoading && !error && shown && (
+            <div className="whitespace-normal">
+              {shown.profile.keyConcepts.length > 0 && (
+                <ProfileSection title="Key concepts">
+                  <div className="flex flex-wrap gap-2">
+                    {shown.profile.keyConcepts.map(concept => (
+                      <span key={concept} className="px-3 py-1 rounded-full text-xs bg-white/5 border border-white/10">{concept}</span>
+                    ))}
+                  </div>
+                </ProfileSection>
+              )}
+              {shown.profile.notablePeople.length > 0 && (
+                <ProfileSection title="Notable people">
+                  <ul className="space-y-1 text-sm">
+                    {shown.profile.notablePeople.map(person => (
+                      <li key={person.name}>
+                        <span className="font-medium">{person.name}</span>
+                        {person.note && <span className="text-slate-400"> — {person.note}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </ProfileSection>
+              )}
+              {shown.profile.prerequisites.length > 0 && (
+                <ProfileSection title="Start with">{domainLinks(shown.profile.prerequisites)}</ProfileSection>
+              )}
+              {shown.profile.related.length > 0 && (
+                <ProfileSection title="Related">{domainLinks(shown.profile.related)}</ProfileSection>
+              )}
+              {shown.profile.reading.length > 0 && (
+                <ProfileSection title="Suggested reading">
+                  <ul className="space-y-1 text-sm">
+                    {shown.profile.reading.map(book => (
+                      <li key={book.title}>
+                        <span className="italic">{book.title}</span>
+                        {book.author && <span className="text-slate-400"> by {book.author}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </ProfileSection>
+              )}
+              {user && (
+                <div className="flex items-center justify-between mt-5 text-[11px] text-slate-500">
+                  <span>
+                    {shown.stored
+                      ? `${shown.stored.generator || 'AI'} · ${new Date(shown.stored.updated_at).toLocaleDateString()}`
+                      : 'Short summary'}
+                  </span>
+                  <button
+                    onClick={handleRefreshProfile}
+                    disabled={isRefreshing}
+                    className="flex items-center space-x-1 px-3 py-1 rounded-full hover:bg-white/10 hover:text-[var(--text-color)] transition-colors disabled:opacity-50"
+                    title="Generate a new profile for everyone"
+                  >
+                    <RefreshIcon className={`w-3 h-3 ${isRefreshing ? 'animate-spin' : ''}`} />
+                    <span>Refresh</span>
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         <div className="grid grid-cols-2 gap-4">
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { execute } from '../lib/tidbClient';
+import { call } from '../lib/rpc/client';
 import { useAuth } from '../contexts/AuthContext';
 import { ViewState, ViewType, ChatSession } from '../types';
 import { ProfileIcon, SearchIcon, PlusCircleIcon, CloseIcon } from './icons';
@@ -19,12 +19,7 @@ const InboxView: React.FC<InboxViewProps> = ({ setCurrentView }) => {
 
     useEffect(() => {
         if (showNewChat && user) {
-            execute(`
-                SELECT p.* FROM profiles p 
-                JOIN follows f ON(f.following_id = p.id AND f.follower_id = ?)
-OR(f.follower_id = p.id AND f.following_id = ?)
-                GROUP BY p.id
-            `, [user.uid, user.uid]).then(res => setFollowList(res));
+            call('profiles.connections', {}).then(res => setFollowList(res));
         }
     }, [showNewChat, user]);
 
@@ -34,29 +29,16 @@ OR(f.follower_id = p.id AND f.following_id = ?)
         const fetchChats = async () => {
             try {
                 // Fetch chats where I am a participant
-                const myChatsRes = await execute(
-                    `SELECT c.id, c.lastMessage, c.updatedAt, cp.status 
-                     FROM chats c
-                     JOIN chat_participants cp ON c.id = cp.chat_id
-                     WHERE cp.user_id = ?
-    ORDER BY c.updatedAt DESC`,
-                    [user.uid]
-                );
+                const myChatsRes = await call('chats.list', {});
 
                 const primaryList: ChatSession[] = [];
                 const requestList: ChatSession[] = [];
 
-                await Promise.all(myChatsRes.map(async (chat: any) => {
-                    // Fetch other participant
-                    const participantsRes = await execute(
-                        `SELECT p.id, p.username, p.photoURL 
-                         FROM profiles p
-                         JOIN chat_participants cp ON p.id = cp.user_id
-                         WHERE cp.chat_id = ? AND p.id != ? `,
-                        [chat.id, user.uid]
-                    );
+                await Promise.all(myChatsRes.map(async chat => {
+                    // Fetch other participant (batched with the other chats')
+                    const partner = await call('chats.partner', { chatId: chat.id });
 
-                    const otherProfile = participantsRes[0] || { username: 'Unknown' };
+                    const otherProfile = partner || { id: '', username: 'Unknown' };
 
                     const session: ChatSession = {
                         id: chat.id,
@@ -97,7 +79,7 @@ OR(f.follower_id = p.id AND f.following_id = ?)
         if (!user) return;
         try {
             const { getOrCreateChat } = await import('../services/chatService');
-            const chatId = await getOrCreateChat(user.uid, targetId);
+            const chatId = await getOrCreateChat(targetId);
             setCurrentView({ type: ViewType.Chat, chatId, otherUserId: targetId });
             setShowNewChat(false);
         } catch (e) {
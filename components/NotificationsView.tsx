@@ -1,24 +1,14 @@
-import React, { useState, useEffect } from 'react';
-import { execute } from '../lib/tidbClient';
+import React, { useState, useEffect, useRef } from 'react';
+import { call } from '../lib/rpc/client';
 import { useAuth } from '../contexts/AuthContext';
-import { ViewState, ViewType, Profile } from '../types';
+import { ViewState, ViewType, AppNotification } from '../types';
 import { HeartIcon } from './icons';
+import useInfiniteScroll from '../hooks/useInfiniteScroll';
 
 interface NotificationsViewProps {
     setCurrentView: (view: ViewState) => void;
 }
 
-interface Notification {
-    id: string;
-    type: 'follow' | 'like' | 'comment';
-    actor_id: string;
-    created_at: string;
-    read_status: boolean;
-    actorProfile?: Profile;
-    // For likes/comments
-    entity_id?: string;
-}
-
 const FollowButton: React.FC<{ targetId: string }> = ({ targetId }) => {
     const { user } = useAuth();
     const [status, setStatus] = useState<'none' | 'pending' | 'accepted'>('none');
@@ -26,9 +16,9 @@ const FollowButton: React.FC<{ targetId: string }> = ({ targetId }) => {
 
     useEffect(() => {
         if (!user) return;
-        execute('SELECT status FROM follows WHERE follower_id = ? AND following_id = ?', [user.uid, targetId])
+        call('follows.status', { followingId: targetId })
             .then(res => {
-                if (res.length > 0) setStatus(res[0].status);
+                if (res) setStatus(res);
             });
     }, [user, targetId]);
 
@@ -39,19 +29,11 @@ const FollowButton: React.FC<{ targetId: string }> = ({ targetId }) => {
             if (status !== 'none') {
                 // Unfollow
                 setStatus('none'); // Optimistic
-                await execute('DELETE FROM follows WHERE follower_id = ? AND following_id = ?', [user.uid, targetId]);
+                await call('follows.unfollow', { followingId: targetId });
             } else {
-                // Follow
-                const newStatus = 'accepted'; // Simplify for notification context
-                setStatus(newStatus); // Optimistic
-                await execute('INSERT IGNORE INTO follows (follower_id, following_id, status) VALUES (?, ?, ?)', [user.uid, targetId, newStatus]);
-
-                // Notify
-                const notifId = crypto.randomUUID();
-                await execute(
-                    'INSERT INTO notifications (id, user_id, actor_id, type, created_at) VALUES (?, ?, ?, ?, ?)',
-                    [notifId, targetId, user.uid, 'follow', new Date().toISOString()]
-                );
+                // Follow (the server notifies the target)
+                setStatus('accepted'); // Optimistic
+                setStatus(await call('follows.follow', { followingId: targetId }));
             }
         } catch (e) { console.error(e); }
         setLoading(false);
@@ -73,40 +55,21 @@ const FollowButton: React.FC<{ targetId: string }> = ({ targetId }) => {
 
 const NotificationsView: React.FC<NotificationsViewProps> = ({ setCurrentView }) => {
     const { user } = useAuth();
-    const [notifications, setNotifications] = useState<Notification[]>([]);
+    const [notifications, setNotifications] = useState<AppNotification[]>([]);
     const [loading, setLoading] = useState(true);
+    const [nextCursor, setNextCursor] = useState<string | undefined>();
+    const [loadingMore, setLoadingMore] = useState(false);
+    const scrollRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
         if (!user) return;
 
         const fetchNotifications = async () => {
             try {
-                // Fetch notifications for me
-                const res = await execute(
-                    `SELECT n.*, p.username, p.photoURL 
-                     FROM notifications n
-                     LEFT JOIN profiles p ON n.actor_id = p.id
-                     WHERE n.user_id = ?
-                     ORDER BY n.created_at DESC
-                     LIMIT 50`,
-                    [user.uid]
-                );
-
-                const mapped = res.map((n: any) => ({
-                    id: n.id,
-                    type: n.type,
-                    actor_id: n.actor_id,
-                    entity_id: n.entity_id,
-                    created_at: n.created_at,
-                    read_status: Boolean(n.read_status),
-                    actorProfile: {
-                        id: n.actor_id,
-                        username: n.username || 'Unknown',
-                        photoURL: n.photoURL
-                    }
-                }));
-
-                setNotifications(mapped);
+                // Fetch notifications for me, newest first
+                const page = await call('notifications.list', {});
+                setNotifications(page.items);
+                setNextCursor(page.nextCursor);
             } catch (e) {
                 console.error("Failed to fetch notifications", e);
             } finally {
@@ -117,6 +80,22 @@ const NotificationsView: React.FC<NotificationsViewProps> = ({ setCurrentView })
         fetchNotifications();
     }, [user]);
 
+    const loadOlder = async () => {
+        if (!nextCursor || loadingMore) return;
+        setLoadingMore(true);
+        try {
+            const page = await call('notifications.list', { cursor: nextCursor });
+            setNotifications(current => [...current, ...page.items.filter(n => !current.some(c => c.id === n.id))]);
+            setNextCursor(page.nextCursor);
+        } catch (e) {
+            console.error("Failed to fetch older notifications", e);
+        } finally {
+            setLoadingMore(false);
+        }
+    };
+
+    const loadOlderSentinel = useInfiniteScroll(loadOlder, { enabled: !loading && !loadingMore && !!nextCursor, root: scrollRef });
+
     if (loading) return <div className="p-10 flex justify-center"><div className="w-6 h-6 border-2 border-indigo-500 rounded-full animate-spin"></div></div>;
 
     return (
@@ -125,7 +104,7 @@ const NotificationsView: React.FC<NotificationsViewProps> = ({ setCurrentView })
                 <h1 className="text-xl md:text-2xl font-bold">Notifications</h1>
             </div>
 
-            <div className="flex-1 overflow-y-auto custom-scrollbar p-2">
+            <div ref={scrollRef} className="flex-1 overflow-y-auto custom-scrollbar p-2">
                 {notifications.length === 0 ? (
                     <div className="flex flex-col items-center justify-center h-64 text-slate-500">
                         <div className="w-12 h-12 rounded-full bg-white/5 flex items-center justify-center mb-3">
@@ -173,6 +152,11 @@ const NotificationsView: React.FC<NotificationsViewProps> = ({ setCurrentView })
                                 )}
                             </div>
                         ))}
+                        {nextCursor && (
+                            <div ref={loadOlderSentinel} className="flex justify-center py-6">
+                                <div className="w-5 h-5 border-2 border-indigo-500 rounded-full animate-spin"></div>
+                            </div>
+                        )}
                     </div>
                 )}
             </div>
@@ -0,0 +1,132 @@
+import React from 'react';
+import { Domain, DomainDigest } from '../types';
+import { ORBIT_TRANSITION, sphereRadius } from './DomainSphere';
+
+// -----------------------------------------------------------------------------
+// ORBIT DETAIL
+// -----------------------------------------------------------------------------
+// What Explore adds around an orbiting child when zoomed in close (semantic
+// zoom, see ExploreView): its own children as small satellites on the side
+// away from the centre, and closer still, how many posts it has and the
+// newest one's headline on the side facing it.
+//
+// Drawn in the same % coordinates as the spheres, inside the zoomed area, and
+// sized for the zoom it appears at: at 1x the text would be too small to read.
+// Out of the tab order: from the keyboard, the spheres and their info cards
+// lead to the same places.
+// -----------------------------------------------------------------------------
+
+interface OrbitDetailProps {
+    // An orbiting child, with its position
+    domain: Domain;
+    // Its activityWeight, if it is drawn bigger for it
+    weight?: number;
+    showSatellites: boolean;
+    digest?: DomainDigest;
+    onOpenChild: (name: string) => void;
+    onOpenPost: (postId: string) => void;
+}
+
+const SATELLITE_SIZE = 5; // vmin
+const MAX_SATELLITES = 7;
+// Between two satellites, seen from their domain
+const SATELLITE_STEP = Math.PI / 7;
+// Layout units (%) between a sphere's edge and what is drawn around it
+const SATELLITE_GAP = 1.5;
+const DIGEST_GAP = 1;
+
+// Placed like the spheres: centred on a point in % of the explore area
+const placedAt = (x: number, y: number): React.CSSProperties => ({
+    position: 'absolute',
+    left: `${x}%`,
+    top: `${y}%`,
+    transform: 'translate(-50%, -50%)',
+    transition: `left ${ORBIT_TRANSITION}, top ${ORBIT_TRANSITION}`,
+});
+
+const OrbitDetail: React.FC<OrbitDetailProps> = ({ domain, weight, showSatellites, digest, onOpenChild, onOpenPost }) => {
+    if (!domain.position) return null;
+    const { x, y } = domain.position;
+    const radius = sphereRadius(domain.name, weight);
+    // Away from the centre sphere
+    const outward = Math.atan2(y - 50, x - 50);
+
+    const children = showSatellites ? domain.children ?? [] : [];
+    const shown = children.slice(0, children.length > MAX_SATELLITES ? MAX_SATELLITES - 1 : MAX_SATELLITES);
+    const hidden = children.length - shown.length;
+    const slots = shown.length + (hidden > 0 ? 1 : 0);
+    const orbit = radius + SATELLITE_GAP + SATELLITE_SIZE * 0.56;
+    const slotAt = (i: number) => {
+        const angle = outward + (i - (slots - 1) / 2) * SATELLITE_STEP;
+        return placedAt(x + orbit * Math.cos(angle), y + orbit * Math.sin(angle));
+    };
+
+    const satelliteStyle: React.CSSProperties = {
+        width: `${SATELLITE_SIZE}vmin`,
+        height: `${SATELLITE_SIZE}vmin`,
+        background: 'var(--sphere-bg)',
+        border: '1px solid var(--sphere-border)',
+        boxShadow: 'var(--sphere-shadow-normal)',
+    };
+
+    const latest = digest?.latest;
+    const inward = radius + DIGEST_GAP;
+
+    return (
+        <>
+            {shown.map((child, i) => (
+                <button
+                    key={child.id}
+                    onClick={() => onOpenChild(child.name)}
+                    tabIndex={-1}
+                    className="flex flex-col items-center gap-0.5 animate-fade-in outline-none group/satellite"
+                    style={slotAt(i)}
+                    title={child.name}
+                >
+                    <span className="block rounded-full transition-transform group-hover/satellite:scale-110" style={satelliteStyle} />
+                    <span
+                        className="absolute top-full mt-0.5 max-w-[12vmin] truncate text-[7px] leading-none font-medium"
+                        style={{ color: 'var(--sphere-text-color)', textShadow: 'var(--sphere-text-shadow)' }}
+                    >
+                        {child.name}
+                    </span>
+                </button>
+            ))}
+            {hidden > 0 && (
+                <span
+                    className="flex items-center justify-center rounded-full text-[7px] font-medium animate-fade-in"
+                    style={{ ...slotAt(slots - 1), ...satelliteStyle, color: 'var(--sphere-text-color)' }}
+                >
+                    +{hidden}
+                </span>
+            )}
+
+            {digest && (
+                <button
+                    onClick={() => latest && onOpenPost(latest.id)}
+                    tabIndex={-1}
+                    className="glass-panel rounded-xl px-2 py-1 w-[22vmin] text-left animate-fade-in outline-none hover:bg-white/10 transition-colors"
+                    style={{
+                        ...placedAt(x - inward * Math.cos(outward), y - inward * Math.sin(outward)),
+                        // Hangs off the sphere's edge towards the centre
+                        transform: `translate(${-50 - 50 * Math.cos(outward)}%, ${-50 - 50 * Math.sin(outward)}%)`,
+                        zIndex: 5,
+                    }}
+                    title={latest?.headline}
+                >
+                    <span className="block text-[6px] uppercase tracking-widest text-[var(--primary-accent)]">
+                        {digest.count} {digest.count === 1 ? 'post' : 'posts'}
+                    </span>
+                    {latest && (
+                        <span className="block text-[7px] leading-snug text-slate-200 line-clamp-2">
+                            {latest.headline || 'Untitled'}
+                            {latest.username && <span className="text-slate-400"> · @{latest.username}</span>}
+                        </span>
+                    )}
+                </button>
+            )}
+        </>
+    );
+};
+
+export default OrbitDetail;
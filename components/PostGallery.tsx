@@ -0,0 +1,147 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+import { Attachment } from '../types';
+import { variantUrl } from '../lib/media';
+import PostImage from './PostImage';
+import { CloseIcon, ChevronLeftIcon, ChevronRightIcon } from './icons';
+
+// Horizontal travel that counts as a swipe in the lightbox
+const SWIPE_DISTANCE = 50;
+
+const Lightbox: React.FC<{ images: Attachment[]; start: number; onClose: () => void }> = ({ images, start, onClose }) => {
+    const [index, setIndex] = useState(start);
+    const touchStart = useRef<number | null>(null);
+    const image = images[index];
+
+    const step = (delta: number) => setIndex(i => (i + delta + images.length) % images.length);
+
+    useEffect(() => {
+        const onKey = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') onClose();
+            if (e.key === 'ArrowLeft') step(-1);
+            if (e.key === 'ArrowRight') step(1);
+        };
+        window.addEventListener('keydown', onKey);
+        return () => window.removeEventListener('keydown', onKey);
+    });
+
+    // Portalled: cards use transforms, which would trap a fixed overlay
+    return createPortal(
+        <div
+            role="dialog"
+            aria-modal="true"
+            aria-label="Image viewer"
+            className="fixed inset-0 z-[200] bg-black/95 flex flex-col items-center justify-center"
+            onClick={onClose}
+            onTouchStart={e => { touchStart.current = e.touches[0].clientX; }}
+            onTouchEnd={e => {
+                if (touchStart.current === null) return;
+                const distance = e.changedTouches[0].clientX - touchStart.current;
+                touchStart.current = null;
+                if (Math.abs(distance) > SWIPE_DISTANCE) step(distance < 0 ? 1 : -1);
+            }}
+            style={{ animation: 'fadeIn 0.2s ease-out' }}
+        >
+            <button onClick={onClose} aria-label="Close" className="absolute top-4 right-4 p-2 rounded-full text-white/70 hover:text-white hover:bg-white/10 transition-colors">
+                <CloseIcon className="w-7 h-7" />
+            </button>
+
+            <img
+                src={variantUrl(image.url, 'full')}
+                alt={image.alt || ''}
+                className="max-w-[95vw] max-h-[80vh] object-contain select-none"
+                onClick={e => e.stopPropagation()}
+            />
+            {image.alt && <p className="mt-4 max-w-2xl px-6 text-center text-sm text-white/80">{image.alt}</p>}
+
+            {images.length > 1 && (
+                <>
+                    <button onClick={e => { e.stopPropagation(); step(-1); }} aria-label="Previous image" className="absolute left-2 md:left-6 top-1/2 -translate-y-1/2 p-3 rounded-full bg-white/10 hover:bg-white/20 text-white transition-colors">
+                        <ChevronLeftIcon className="w-6 h-6" />
+                    </button>
+                    <button onClick={e => { e.stopPropagation(); step(1); }} aria-label="Next image" className="absolute right-2 md:right-6 top-1/2 -translate-y-1/2 p-3 rounded-full bg-white/10 hover:bg-white/20 text-white transition-colors">
+                        <ChevronRightIcon className="w-6 h-6" />
+                    </button>
+                    <span className="absolute bottom-6 font-mono text-xs text-white/60">{index + 1} / {images.length}</span>
+                </>
+            )}
+        </div>,
+        document.body
+    );
+};
+
+/**
+ * A post's attachments, one at a time: swipe (or use the arrows) to move
+ * between them, tap to open the full-screen lightbox.
+ */
+const PostGallery: React.FC<{ attachments: Attachment[] }> = ({ attachments }) => {
+    const [index, setIndex] = useState(0);
+    const [lightbox, setLightbox] = useState<number | null>(null);
+    const track = useRef<HTMLDivElement>(null);
+
+    if (attachments.length === 0) return null;
+
+    // Swiping scrolls the track (CSS scroll snap); the dots follow it
+    const handleScroll = () => {
+        const el = track.current;
+        if (el && el.clientWidth > 0) setIndex(Math.round(el.scrollLeft / el.clientWidth));
+    };
+    const goTo = (i: number) => {
+        const el = track.current;
+        if (el) el.scrollTo({ left: i * el.clientWidth, behavior: 'smooth' });
+    };
+
+    return (
+        <>
+            <div className="relative mt-4 rounded-xl overflow-hidden border border-white/10 group/gallery">
+                <div
+                    ref={track}
+                    onScroll={handleScroll}
+                    className="flex items-center overflow-x-auto snap-x snap-mandatory max-h-96"
+                    style={{ scrollbarWidth: 'none' }}
+                >
+                    {attachments.map((image, i) => (
+                        <button
+                            key={`${i}:${image.url}`}
+                            type="button"
+                            onClick={() => setLightbox(i)}
+                            aria-label={`View image ${i + 1} of ${attachments.length}${image.alt ? `: ${image.alt}` : ''}`}
+                            className="w-full shrink-0 snap-center max-h-96 overflow-hidden cursor-zoom-in"
+                        >
+                            <PostImage image={image} className="w-full h-full object-cover" />
+                        </button>
+                    ))}
+                </div>
+
+                {attachments.length > 1 && (
+                    <>
+                        {index > 0 && (
+                            <button onClick={() => goTo(index - 1)} aria-label="Previous image" className="absolute left-2 top-1/2 -translate-y-1/2 p-1.5 rounded-full bg-black/50 hover:bg-black/70 text-white backdrop-blur-md opacity-0 group-hover/gallery:opacity-100 transition-opacity">
+                                <ChevronLeftIcon className="w-4 h-4" />
+                            </button>
+                        )}
+                        {index < attachments.length - 1 && (
+                            <button onClick={() => goTo(index + 1)} aria-label="Next image" className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 rounded-full bg-black/50 hover:bg-black/70 text-white backdrop-blur-md opacity-0 group-hover/gallery:opacity-100 transition-opacity">
+                                <ChevronRightIcon className="w-4 h-4" />
+                            </button>
+                        )}
+                        <div className="absolute bottom-2 left-1/2 -translate-x-1/2 flex space-x-1.5">
+                            {attachments.map((_, i) => (
+                                <button
+                                    key={i}
+                                    onClick={() => goTo(i)}
+                                    aria-label={`Show image ${i + 1}`}
+                                    className={`w-1.5 h-1.5 rounded-full transition-colors ${i === index ? 'bg-white' : 'bg-white/40'}`}
+                                />
+                            ))}
+                        </div>
+                    </>
+                )}
+            </div>
+
+            {lightbox !== null && <Lightbox images={attachments} start={lightbox} onClose={() => setLightbox(null)} />}
+        </>
+    );
+};
+
+export default PostGallery;
@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { Attachment } from '../types';
+import { variantUrl, mediaSrcSet } from '../lib/media';
+
+interface PostImageProps {
+    image: Attachment;
+    className?: string;
+    // How wide the image is rendered, so the browser picks the right variant
+    sizes?: string;
+}
+
+/**
+ * One of a post's images at the size the layout needs. Space is reserved
+ * from the stored dimensions and the blurred placeholder shows until the
+ * real image has loaded, so cards don't jump while scrolling.
+ */
+const PostImage: React.FC<PostImageProps> = ({ image, className = '', sizes = '(min-width: 768px) 672px, 100vw' }) => {
+    const [loaded, setLoaded] = useState(false);
+    const { url, alt, width, height, placeholder } = image;
+
+    return (
+        <div className="relative w-full h-full overflow-hidden" style={width && height ? { aspectRatio: `${width} / ${height}` } : undefined}>
+            {placeholder && !loaded && (
+                <div
+                    aria-hidden
+                    className="absolute inset-0 scale-110 blur-xl bg-cover bg-center"
+                    style={{ backgroundImage: `url(${placeholder})` }}
+                />
+            )}
+            <img
+                src={variantUrl(url, 'feed')}
+                srcSet={mediaSrcSet(url)}
+                sizes={sizes}
+                width={width}
+                height={height}
+                alt={alt || ''}
+                loading="lazy"
+                decoding="async"
+                onLoad={() => setLoaded(true)}
+                className={`relative ${className} transition-opacity duration-500 ${loaded || !placeholder ? 'opacity-100' : 'opacity-0'}`}
+            />
+        </div>
+    );
+};
+
+export default PostImage;
@@ -1,9 +1,12 @@
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { execute } from '../lib/tidbClient';
+import { call } from '../lib/rpc/client';
 import { useAuth } from '../contexts/AuthContext';
-import { PostWithAuthorAndLikes, ViewState, ViewType, Comment } from '../types';
+import { PostWithAuthorAndLikes, PostSummary, Page, ViewState, ViewType, Comment } from '../types';
 import { useStatus } from '../contexts/StatusContext';
+import useInfiniteScroll from '../hooks/useInfiniteScroll';
+import PostImage from './PostImage';
+import PostGallery from './PostGallery';
 import { HeartIcon, TrashIcon, BackIcon, CommentIcon, ReplyIcon, EditIcon } from './icons';
 
 
@@ -12,6 +15,8 @@ interface PostViewProps {
     domainName: string;
     setCurrentView: (view: ViewState) => void;
     focusedPostId?: string;
+    // The Explore route that led here, to go back along
+    route?: string[];
     onEditPost?: (post: PostWithAuthorAndLikes) => void;
     refreshKey?: number;
 }
@@ -41,7 +46,7 @@ const CommentCard: React.FC<{ comment: Comment, onDelete: () => void, onReply: (
     );
 };
 
-const PostCard: React.FC<{ post: PostWithAuthorAndLikes; onToggleLike: () => void; onDelete: () => void; onEdit: () => void; onComment: (content: string) => Promise<void>; onDeleteComment: (commentId: string) => Promise<void>; currentUserId: string | undefined; onUserClick: (uid: string) => void; mode: 'gallery' | 'discussion' }> = ({ post, onToggleLike, onDelete, onEdit, onComment, onDeleteComment, currentUserId, onUserClick, mode }) => {
+const PostCard: React.FC<{ post: PostWithAuthorAndLikes; onToggleLike: () => void; onDelete: () => void; onEdit: () => void; onComment: (content: string) => Promise<void>; onDeleteComment: (commentId: string) => Promise<void>; onLoadMoreComments: () => Promise<void>; currentUserId: string | undefined; onUserClick: (uid: string) => void; mode: 'gallery' | 'discussion' }> = ({ post, onToggleLike, onDelete, onEdit, onComment, onDeleteComment, onLoadMoreComments, currentUserId, onUserClick, mode }) => {
     const isOwner = post.user_id === currentUserId;
     const [commentContent, setCommentContent] = useState('');
     const [isCommenting, setIsCommenting] = useState(false);
@@ -66,7 +71,7 @@ const PostCard: React.FC<{ post: PostWithAuthorAndLikes; onToggleLike: () => voi
         return (
             <div className="relative group perspective-1000 mb-6 break-inside-avoid">
                 <div className="relative glass-panel rounded-2xl overflow-hidden border border-[var(--glass-border)] bg-[var(--glass-surface)] hover:-translate-y-1 transition-transform duration-300">
-                    <img src={post.imageURL} alt="Post" className="w-full h-auto object-cover" />
+                    <PostImage image={post.attachments[0]} className="w-full h-auto object-cover" sizes="(min-width: 1024px) 25vw, (min-width: 768px) 33vw, 50vw" />
                     <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex flex-col justify-end p-4">
                         <div className="flex items-center space-x-2 mb-2 cursor-pointer" onClick={() => onUserClick(post.user_id)}>
                             <div className="w-6 h-6 rounded-full bg-slate-700 overflow-hidden">
@@ -133,11 +138,7 @@ const PostCard: React.FC<{ post: PostWithAuthorAndLikes; onToggleLike: () => voi
 
                     <p className="text-[var(--text-color)] whitespace-pre-wrap leading-relaxed text-[15px] font-normal tracking-wide pl-1">{post.content}</p>
 
-                    {post.imageURL && (
-                        <div className="mt-4 rounded-xl overflow-hidden border border-white/10 max-h-96 w-full">
-                            <img src={post.imageURL} alt="Post Attachment" className="w-full h-full object-cover" />
-                        </div>
-                    )}
+                    <PostGallery attachments={post.attachments} />
                 </div>
 
                 <div className="px-6 py-3 bg-[var(--bg-color)]/20 border-t border-[var(--glass-border)] flex items-center space-x-6">
@@ -163,6 +164,11 @@ const PostCard: React.FC<{ post: PostWithAuthorAndLikes; onToggleLike: () => voi
                                 {post.comments.map(comment => (
                                     <CommentCard key={comment.id} comment={comment} onDelete={() => onDeleteComment(comment.id)} onReply={handleReply} onUserClick={onUserClick} currentUserId={currentUserId} />
                                 ))}
+                                {post.commentsCursor && (
+                                    <button onClick={onLoadMoreComments} className="text-[10px] text-slate-500 hover:text-[var(--primary-accent)] font-mono uppercase tracking-widest transition-colors">
+                                        Load more replies
+                                    </button>
+                                )}
                             </div>
                         ) : (
                             <div className="text-center py-4 mb-2">
@@ -205,7 +211,7 @@ const PostCard: React.FC<{ post: PostWithAuthorAndLikes; onToggleLike: () => voi
 };
 
 
-const PostView: React.FC<PostViewProps> = ({ domainId, domainName, setCurrentView, focusedPostId, onEditPost, refreshKey }) => {
+const PostView: React.FC<PostViewProps> = ({ domainId, domainName, setCurrentView, focusedPostId, route, onEditPost, refreshKey }) => {
     const { user, profile } = useAuth();
     const [posts, setPosts] = useState<PostWithAuthorAndLikes[]>([]);
     const [isLoading, setIsLoading] = useState(true);
@@ -213,6 +219,11 @@ const PostView: React.FC<PostViewProps> = ({ domainId, domainName, setCurrentVie
     const [viewMode, setViewMode] = useState<'gallery' | 'discussion'>('gallery');
     const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
     const postRefs = useRef<Map<string, HTMLDivElement | null>>(new Map());
+    const scrollRef = useRef<HTMLElement>(null);
+    const [nextCursor, setNextCursor] = useState<string | undefined>();
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    // Bumped by every fresh load, so a page requested for an older list is dropped
+    const generation = useRef(0);
 
     useEffect(() => {
         if (focusedPostId && !isLoading) {
@@ -221,75 +232,23 @@ const PostView: React.FC<PostViewProps> = ({ domainId, domainName, setCurrentVie
         }
     }, [focusedPostId, isLoading]);
 
+    // Issued together, so the client sends these as one batch request
+    const withComments = (page: Page<PostSummary>): Promise<PostWithAuthorAndLikes[]> => Promise.all(page.items.map(async post => {
+        const comments = await call('comments.list', { postId: post.id });
+        return { ...post, comments: comments.items, commentsCursor: comments.nextCursor };
+    }));
+
     const fetchPosts = useCallback(async () => {
+        const current = ++generation.current;
         setIsLoading(true);
         setError(null);
         try {
-            // Complex SQL query to join profiles and get counts
-            // NOTE: TiDB/MySQL syntax
-            // Using UUID() for IDs generated on client, or we assume they are passed
-
-            const userId = user ? user.uid : 'NO_USER';
-
-            const sql = `
-                SELECT 
-                    p.*, 
-                    u.username, 
-                    u.photoURL,
-                    (SELECT COUNT(*) FROM likes l WHERE l.post_id = p.id) as like_count,
-                    (SELECT COUNT(*) FROM comments c WHERE c.post_id = p.id) as comment_count,
-                    EXISTS(SELECT 1 FROM likes l WHERE l.post_id = p.id AND l.user_id = ?) as is_liked_by_user
-                FROM posts p 
-                LEFT JOIN profiles u ON p.user_id = u.id 
-                WHERE (LOWER(p.domain_id) = LOWER(?) OR LOWER(p.domain_id) LIKE LOWER(CONCAT('%/', ?))) 
-                ORDER BY p.created_at DESC
-            `;
-
-            const rawPosts = await execute(sql, [userId, domainId, domainId]);
-
-            // We need to fetch comments separately or use JSON_ARRAYAGG if supported.
-            // For simplicity, let's just fetch comments for these posts.
-            // Actually, fetching comments for ALL posts in list is heavy.
-            // Let's lazy load comments or just fetch for now to match previous behavior.
-
-            const postsWithComments = await Promise.all(rawPosts.map(async (post: any) => {
-                const commentsSql = `
-                    SELECT c.*, u.username, u.photoURL 
-                    FROM comments c
-                    LEFT JOIN profiles u ON c.user_id = u.id
-                    WHERE c.post_id = ?
-                    ORDER BY c.created_at ASC
-                `;
-                const comments = await execute(commentsSql, [post.id]);
-
-                return {
-                    id: post.id,
-                    content: post.content,
-                    imageURL: post.imageURL,
-                    created_at: post.created_at,
-                    user_id: post.user_id,
-                    domain_id: post.domain_id,
-                    profiles: {
-                        username: post.username || 'Unknown',
-                        photoURL: post.photoURL
-                    },
-                    like_count: Number(post.like_count),
-                    is_liked_by_user: Boolean(post.is_liked_by_user),
-                    comment_count: Number(post.comment_count),
-                    comments: comments.map((c: any) => ({
-                        id: c.id,
-                        user_id: c.user_id,
-                        content: c.content,
-                        created_at: c.created_at,
-                        profiles: {
-                            username: c.username || 'Unknown',
-                            photoURL: c.photoURL
-                        }
-                    }))
-                };
-            }));
+            const page = await call('posts.listByDomain', { domainId });
+            const postsWithComments = await withComments(page);
+            if (current !== generation.current) return;
 
             setPosts(postsWithComments);
+            setNextCursor(page.nextCursor);
 
             if (postsWithComments.filter(p => p.imageURL).length === 0 && postsWithComments.length > 0) {
                 if (viewMode === 'gallery') {
@@ -312,6 +271,36 @@ const PostView: React.FC<PostViewProps> = ({ domainId, domainName, setCurrentVie
         fetchPosts();
     }, [fetchPosts]);
 
+    const loadMorePosts = async () => {
+        if (!nextCursor || isLoadingMore) return;
+        const current = generation.current;
+        setIsLoadingMore(true);
+        try {
+            const page = await call('posts.listByDomain', { domainId, cursor: nextCursor });
+            const more = await withComments(page);
+            if (current !== generation.current) return;
+            setPosts(existing => [...existing, ...more.filter(p => !existing.some(e => e.id === p.id))]);
+            setNextCursor(page.nextCursor);
+        } catch (err: any) {
+            console.error("Load more posts failed:", err);
+            setError('Failed to fetch older transmissions.');
+        } finally {
+            setIsLoadingMore(false);
+        }
+    };
+
+    const loadMoreSentinel = useInfiniteScroll(loadMorePosts, { enabled: !isLoading && !isLoadingMore && !!nextCursor, root: scrollRef });
+
+    const handleLoadMoreComments = async (post: PostWithAuthorAndLikes) => {
+        if (!post.commentsCursor) return;
+        try {
+            const page = await call('comments.list', { postId: post.id, cursor: post.commentsCursor });
+            setPosts(current => current.map(p => p.id === post.id
+                ? { ...p, comments: [...p.comments, ...page.items.filter(c => !p.comments.some(e => e.id === c.id))], commentsCursor: page.nextCursor }
+                : p
+            ));
+        } catch (err: any) { setError("Failed to load replies."); }
+    };
 
     const handleToggleLike = async (post: PostWithAuthorAndLikes) => {
         if (!user) return;
@@ -325,9 +314,9 @@ const PostView: React.FC<PostViewProps> = ({ domainId, domainName, setCurrentVie
 
         try {
             if (post.is_liked_by_user) {
-                await execute('DELETE FROM likes WHERE post_id = ? AND user_id = ?', [post.id, user.uid]);
+                await call('posts.unlike', { postId: post.id });
             } else {
-                await execute('INSERT INTO likes (id, post_id, user_id, created_at) VALUES (UUID(), ?, ?, ?)', [post.id, user.uid, new Date().toISOString()]);
+                await call('posts.like', { postId: post.id });
             }
         } catch (err: any) {
             setError("Action failed.");
@@ -338,17 +327,15 @@ const PostView: React.FC<PostViewProps> = ({ domainId, domainName, setCurrentVie
     const handleDeletePost = async (postId: string) => {
         if (!user) return;
         try {
-            await execute('DELETE FROM posts WHERE id = ?', [postId]);
-            // Cascade delete would be handled by DB or manually
-            await execute('DELETE FROM likes WHERE post_id = ?', [postId]);
-            await execute('DELETE FROM comments WHERE post_id = ?', [postId]);
+            // Likes and comments are removed along with the post
+            await call('posts.delete', { id: postId });
             setPosts(p => p.filter(x => x.id !== postId));
         } catch (err: any) { setError("Failed to delete post."); }
     };
 
     const handleDeleteComment = async (postId: string, commentId: string) => {
         try {
-            await execute('DELETE FROM comments WHERE id = ?', [commentId]);
+            await call('comments.delete', { id: commentId });
             setPosts(current => current.map(p => {
                 if (p.id === postId) {
                     return {
@@ -367,9 +354,7 @@ const PostView: React.FC<PostViewProps> = ({ domainId, domainName, setCurrentVie
         try {
             const newId = crypto.randomUUID();
             const now = new Date().toISOString();
-            await execute('INSERT INTO comments (id, post_id, user_id, content, created_at) VALUES (?, ?, ?, ?, ?)',
-                [newId, postId, user.uid, content.trim(), now]
-            );
+            await call('comments.create', { id: newId, postId, content: content.trim() });
 
             const newComment: Comment = {
                 id: newId,
@@ -403,12 +388,27 @@ const PostView: React.FC<PostViewProps> = ({ domainId, domainName, setCurrentVie
                 <div className="w-full max-w-4xl px-4 flex flex-col items-center">
                     <div className="pointer-events-auto glass-panel rounded-full p-2 pr-6 flex items-center shadow-[0_10px_30px_-5px_rgba(0,0,0,0.5)] backdrop-blur-2xl bg-[var(--glass-surface)] border border-[var(--glass-border)] relative overflow-hidden mb-4">
                         <div className="absolute inset-0 bg-gradient-to-r from-[var(--primary-accent)]/10 to-transparent pointer-events-none"></div>
-                        <button onClick={() => setCurrentView({ type: ViewType.Explore })} className="p-3 rounded-full hover:bg-white/10 transition-colors mr-3 text-slate-300 hover:text-white group relative z-10">
+                        <button onClick={() => setCurrentView({ type: ViewType.Explore, initialPath: route })} className="p-3 rounded-full hover:bg-white/10 transition-colors mr-3 text-slate-300 hover:text-white group relative z-10">
                             <BackIcon className="w-5 h-5 group-active:-translate-x-1 transition-transform" />
                         </button>
                         <div className="flex flex-col justify-center border-l border-[var(--glass-border)] pl-4 relative z-10">
                             <span className="text-[9px] uppercase tracking-[0.2em] text-[var(--primary-accent)] font-black mb-0.5 font-['Inter']">Channel Frequency</span>
                             <h1 className="text-lg font-black text-[var(--text-color)] tracking-tighter leading-none font-['Inter']">{domainName}</h1>
+                            {route && route.length > 1 && (
+                                <div className="flex items-center text-[10px] text-slate-500 mt-1 max-w-[60vw] overflow-x-auto whitespace-nowrap">
+                                    {route.slice(0, -1).map((name, index) => (
+                                        <React.Fragment key={`${name}-${index}`}>
+                                            <button
+                                                onClick={() => setCurrentView({ type: ViewType.Explore, initialPath: route.slice(0, index + 1) })}
+                                                className="hover:text-[var(--text-color)] transition-colors"
+                                            >
+                                                {name}
+                                            </button>
+                                            <span className="mx-1 opacity-40">/</span>
+                                        </React.Fragment>
+                                    ))}
+                                </div>
+                            )}
                         </div>
                     </div>
 
@@ -431,7 +431,7 @@ const PostView: React.FC<PostViewProps> = ({ domainId, domainName, setCurrentVie
             </header>
 
             {/* Posts List */}
-            <main className={`w-full ${viewMode === 'gallery' ? 'max-w-5xl px-2' : 'max-w-2xl px-4'} flex-1 overflow-y-auto pt-60 md:pt-44 pb-32 custom-scrollbar min-h-0 relative`}>
+            <main ref={scrollRef} className={`w-full ${viewMode === 'gallery' ? 'max-w-5xl px-2' : 'max-w-2xl px-4'} flex-1 overflow-y-auto pt-60 md:pt-44 pb-32 custom-scrollbar min-h-0 relative`}>
                 {isLoading && (
                     <div className="flex flex-col items-center justify-center pt-32">
                         <div className="relative w-16 h-16">
@@ -469,13 +469,20 @@ const PostView: React.FC<PostViewProps> = ({ domainId, domainName, setCurrentVie
                                 onEdit={() => onEditPost?.(post)}
                                 onComment={(content) => handleCreateComment(post.id, content)}
                                 onDeleteComment={(commentId) => handleDeleteComment(post.id, commentId)}
+                                onLoadMoreComments={() => handleLoadMoreComments(post)}
                                 currentUserId={user?.uid}
-                                onUserClick={(uid) => setCurrentView({ type: ViewType.Post, domainId, domainName, focusedPostId, overlayProfileId: uid })}
+                                onUserClick={(uid) => setCurrentView({ type: ViewType.Post, domainId, domainName, focusedPostId, route, overlayProfileId: uid })}
                                 mode={viewMode}
                             />
                         </div>
                     ))}
                 </div>
+
+                {nextCursor && !isLoading && (
+                    <div ref={loadMoreSentinel} className="flex justify-center py-8">
+                        <div className="w-6 h-6 border-2 border-[var(--primary-accent)]/20 border-t-[var(--primary-accent)] rounded-full animate-spin"></div>
+                    </div>
+                )}
             </main>
 
             <style>{`
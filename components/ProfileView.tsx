@@ -1,14 +1,17 @@
 
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { execute } from '../lib/tidbClient';
+import { call } from '../lib/rpc/client';
+import { mediaUrl, mediaIdFromUrl, variantUrl } from '../lib/media';
 import AuthView from './AuthView';
 import { BackIcon, EditIcon, HeartIcon, SettingsIcon, CloseIcon, GridIcon, BookmarkIcon, ProfileIcon, PlusCircleIcon } from './icons';
 import { useStatus } from '../contexts/StatusContext';
 import { ViewState, ViewType, ProfileTab, Profile, PostWithAuthorAndLikes } from '../types';
+import { nameOf } from '../lib/taxonomy';
+import useInfiniteScroll from '../hooks/useInfiniteScroll';
 
 interface ProfileViewProps {
-    setCurrentView: (view: ViewState) => void;
+    setCurrentView: React.Dispatch<React.SetStateAction<ViewState>>;
     initialTab?: ProfileTab;
     targetUserId?: string;
     isOverlay?: boolean;
@@ -66,7 +69,18 @@ const ProfileView: React.FC<ProfileViewProps> = ({ setCurrentView, initialTab =
     const { user, profile: myProfile, fetchProfile, isLoading: isAuthLoading } = useAuth();
     const [displayProfile, setDisplayProfile] = useState<Profile | null>(null);
     const [activeTab, setActiveTab] = useState<ProfileTab>(initialTab);
+
+    // The tab is part of the URL (?tab=), except in the overlay
+    useEffect(() => { setActiveTab(initialTab); }, [initialTab]);
+    const selectTab = (tab: ProfileTab) => {
+        setActiveTab(tab);
+        if (!isOverlay) setCurrentView(prev => (prev.type === ViewType.Profile ? { ...prev, initialTab: tab } : prev));
+    };
     const [items, setItems] = useState<any[]>([]);
+    // Posts and likes come a page at a time; saved domains all at once
+    const [nextCursor, setNextCursor] = useState<string | undefined>();
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const scrollRef = React.useRef<HTMLDivElement>(null);
 
     // Edit Modal State
     const [showEditModal, setShowEditModal] = useState(false);
@@ -112,9 +126,9 @@ const ProfileView: React.FC<ProfileViewProps> = ({ setCurrentView, initialTab =
         } else if (profileId) {
             const loadOtherProfile = async () => {
                 try {
-                    const res = await execute('SELECT * FROM profiles WHERE id = ?', [profileId]);
-                    if (res.length > 0) {
-                        setDisplayProfile(res[0] as Profile);
+                    const res = await call('profiles.get', { id: profileId });
+                    if (res) {
+                        setDisplayProfile(res);
                     }
                 } catch (e) { console.error(e); }
             };
@@ -125,6 +139,8 @@ const ProfileView: React.FC<ProfileViewProps> = ({ setCurrentView, initialTab =
     useEffect(() => {
         if (profileId) {
             fetchStats();
+            // The old tab's cursor means nothing to the new one
+            setNextCursor(undefined);
             fetchItems();
             if (!isOwnProfile && user) {
                 checkIfFollowing().then(status => setIsFollowing(!!status));
@@ -143,71 +159,66 @@ const ProfileView: React.FC<ProfileViewProps> = ({ setCurrentView, initialTab =
     const fetchStats = async () => {
         if (!profileId) return;
         try {
-            const postCount = await execute('SELECT COUNT(*) as c FROM posts WHERE user_id = ?', [profileId]);
-            const followers = await execute('SELECT COUNT(*) as c FROM follows WHERE following_id = ?', [profileId]);
-            const following = await execute('SELECT COUNT(*) as c FROM follows WHERE follower_id = ?', [profileId]);
-
-            // Calculate total likes received
-            const likesCount = await execute(`
-                SELECT COUNT(*) as c FROM likes l
-                JOIN posts p ON l.post_id = p.id
-                WHERE p.user_id = ?
-            `, [profileId]);
-
-            setStats({
-                posts: postCount[0].c,
-                followers: followers[0].c,
-                following: following[0].c,
-                totalLikes: likesCount[0].c
-            });
+            setStats(await call('profiles.stats', { id: profileId }));
         } catch (e) { console.error(e); }
     };
 
     const checkIfFollowing = async () => {
         if (!user || !profileId) return;
-        const res = await execute('SELECT * FROM follows WHERE follower_id = ? AND following_id = ?', [user.uid, profileId]);
-        if (res.length > 0) return res[0].status;
+        return (await call('follows.status', { followingId: profileId })) ?? null;
+    };
+
+    // A page of the active tab's posts, if it is a paged one
+    const fetchPostPage = (cursor?: string) => {
+        if (activeTab === 'posts') return call('posts.listByUser', { userId: profileId!, cursor });
+        if (activeTab === 'likes' && isOwnProfile) return call('posts.listLikedBy', { cursor });
         return null;
     };
 
     const fetchItems = async () => {
         if (!profileId) return;
         try {
-            let result = [];
-            if (activeTab === 'posts') {
-                result = await execute(`
-                    SELECT p.*, 
-                    (SELECT COUNT(*) FROM likes l WHERE l.post_id = p.id) as like_count
-                    FROM posts p WHERE user_id = ? ORDER BY created_at DESC
-                 `, [profileId]);
-            } else if (activeTab === 'likes' && isOwnProfile) {
-                result = await execute(`
-                    SELECT p.*,
-                    (SELECT COUNT(*) FROM likes l WHERE l.post_id = p.id) as like_count
-                    FROM posts p
-                    JOIN likes l ON p.id = l.post_id
-                    WHERE l.user_id = ? ORDER BY l.created_at DESC
-                 `, [profileId]);
-            } else if (activeTab === 'saved' && isOwnProfile) {
-                result = await execute(`
-                    SELECT * FROM saved_domains WHERE user_id = ? ORDER BY saved_at DESC
-                `, [profileId]);
+            const page = fetchPostPage();
+            if (page) {
+                const { items, nextCursor } = await page;
+                setItems(items);
+                setNextCursor(nextCursor);
+                return;
             }
-            setItems(result);
+            setItems(activeTab === 'saved' && isOwnProfile ? await call('savedDomains.list', {}) : []);
+            setNextCursor(undefined);
         } catch (e) { console.error(e); }
     };
 
+    const activeTabRef = React.useRef(activeTab);
+    activeTabRef.current = activeTab;
+    const loadMoreItems = async () => {
+        if (!nextCursor || isLoadingMore) return;
+        const tab = activeTab;
+        setIsLoadingMore(true);
+        try {
+            const page = await fetchPostPage(nextCursor);
+            // Dropped if the tab changed meanwhile: that tab loads its own first page
+            if (!page || tab !== activeTabRef.current) return;
+            setItems(prev => [...prev, ...page.items.filter(p => !prev.some(e => e.id === p.id))]);
+            setNextCursor(page.nextCursor);
+        } catch (e) {
+            console.error(e);
+        } finally {
+            setIsLoadingMore(false);
+        }
+    };
+
+    const loadMoreSentinel = useInfiniteScroll(loadMoreItems, { enabled: !isLoadingMore && !!nextCursor, root: scrollRef });
+
     const fetchUserList = async (type: 'followers' | 'following') => {
         if (!profileId) return;
         setShowUserList(type);
         try {
-            let users = [];
-            if (type === 'followers') {
-                users = await execute(`SELECT p.* FROM profiles p JOIN follows f ON f.follower_id = p.id WHERE f.following_id = ?`, [profileId]);
-            } else {
-                users = await execute(`SELECT p.* FROM profiles p JOIN follows f ON f.following_id = p.id WHERE f.follower_id = ?`, [profileId]);
-            }
-            setUserList(users as Profile[]);
+            const users = type === 'followers'
+                ? await call('profiles.followers', { id: profileId })
+                : await call('profiles.following', { id: profileId });
+            setUserList(users);
         } catch (e) { console.error(e); setError("Failed to load users"); }
     };
 
@@ -216,18 +227,20 @@ const ProfileView: React.FC<ProfileViewProps> = ({ setCurrentView, initialTab =
         if (!user || !editUsername.trim()) return;
         try {
             // Check for uniqueness
-            const existing = await execute('SELECT id FROM profiles WHERE username = ? AND id != ?', [editUsername.trim(), user.uid]);
-            if (existing.length > 0) {
+            const taken = await call('profiles.isUsernameTaken', { username: editUsername.trim() });
+            if (taken) {
                 setError("Username already taken.");
                 return;
             }
 
             // Combine Tagline + Bio
             const combinedBio = `${editTagline}\n${editBio}`;
-            await execute(`
-                INSERT INTO profiles (id, username, email, bio, tags, photoURL) VALUES (?, ?, ?, ?, ?, ?)
-                ON DUPLICATE KEY UPDATE username = ?, bio = ?, tags = ?, photoURL = ?
-            `, [user.uid, editUsername.trim(), user.email || '', combinedBio, editTags.trim(), editPhoto, editUsername.trim(), combinedBio, editTags.trim(), editPhoto]);
+            await call('profiles.update', {
+                username: editUsername.trim(),
+                bio: combinedBio,
+                tags: editTags.trim(),
+                photoId: mediaIdFromUrl(editPhoto)
+            });
             await fetchProfile();
             setShowEditModal(false);
         } catch (e) { setError("Failed to update profile."); }
@@ -237,11 +250,11 @@ const ProfileView: React.FC<ProfileViewProps> = ({ setCurrentView, initialTab =
         const file = e.target.files?.[0];
         if (!file) return;
         try {
-            const { compressImage } = await import('../lib/imageUtils');
-            const compressed = await compressImage(file);
-            setEditPhoto(compressed);
+            const { uploadImage } = await import('../lib/imageUtils');
+            const mediaId = await uploadImage(file);
+            setEditPhoto(mediaUrl(mediaId) || null);
         } catch (err) {
-            setError("Failed to process image.");
+            setError("Failed to upload image. Uploads need a connection to the server.");
         }
     };
 
@@ -249,20 +262,11 @@ const ProfileView: React.FC<ProfileViewProps> = ({ setCurrentView, initialTab =
         if (!user || !profileId) return;
         try {
             if (isFollowing) {
-                await execute('DELETE FROM follows WHERE follower_id = ? AND following_id = ?', [user.uid, profileId]);
+                await call('follows.unfollow', { followingId: profileId });
                 setIsFollowing(false);
             } else {
-                const status = displayProfile?.is_private ? 'pending' : 'accepted';
-                await execute('INSERT IGNORE INTO follows (follower_id, following_id, status) VALUES (?, ?, ?)', [user.uid, profileId, status]);
-
-                // NOTIFICATION LOGIC ADDED
-                const notifId = crypto.randomUUID();
-                const now = new Date().toISOString();
-                await execute(
-                    'INSERT INTO notifications (id, user_id, actor_id, type, created_at, read_status) VALUES (?, ?, ?, ?, ?, ?)',
-                    [notifId, profileId, user.uid, 'follow', now, false]
-                );
-
+                // Private profiles get a pending request; the server also notifies the target
+                await call('follows.follow', { followingId: profileId });
                 setIsFollowing(true);
             }
             fetchStats();
@@ -273,7 +277,7 @@ const ProfileView: React.FC<ProfileViewProps> = ({ setCurrentView, initialTab =
         if (!user || !profileId) return;
         try {
             const { getOrCreateChat } = await import('../services/chatService');
-            const chatId = await getOrCreateChat(user.uid, profileId);
+            const chatId = await getOrCreateChat(profileId);
 
             // Navigate to Chat View with fully resolved ID
             setCurrentView({ type: ViewType.Chat, chatId: chatId, otherUserId: profileId });
@@ -293,7 +297,7 @@ const ProfileView: React.FC<ProfileViewProps> = ({ setCurrentView, initialTab =
     const bioDetails = profileBioParts.slice(1);
 
     const content = (
-        <div className="w-full h-full flex flex-col bg-[#050505] text-white relative font-['Inter'] scroll-smooth overflow-y-auto custom-scrollbar">
+        <div ref={scrollRef} className="w-full h-full flex flex-col bg-[#050505] text-white relative font-['Inter'] scroll-smooth overflow-y-auto custom-scrollbar">
 
             {/* 
                 MOBILE "ANNETTE" HEADER 
@@ -303,7 +307,7 @@ const ProfileView: React.FC<ProfileViewProps> = ({ setCurrentView, initialTab =
                 <div className="relative w-full h-[40vh]">
                     <div className="absolute inset-0 z-0">
                         {displayProfile.photoURL ? (
-                            <img src={displayProfile.photoURL} className="w-full h-full object-cover" />
+                            <img src={variantUrl(displayProfile.photoURL, 'feed')} className="w-full h-full object-cover" />
                         ) : (
                             <div className="w-full h-full bg-[#111] flex items-center justify-center">
                                 <span className="text-9xl font-black text-white/5">{displayProfile.username?.charAt(0)}</span>
@@ -463,11 +467,11 @@ const ProfileView: React.FC<ProfileViewProps> = ({ setCurrentView, initialTab =
                 {/* Tabs - Centered Icons for Mobile */}
                 <div className="flex items-center justify-center md:justify-start mb-8 border-b border-white/10 pb-0 md:border-b-0 md:pb-0">
                     <div className="flex space-x-12 mx-auto md:mx-0">
-                        <TabButton active={activeTab === 'posts'} icon={GridIcon} onClick={() => setActiveTab('posts')} />
+                        <TabButton active={activeTab === 'posts'} icon={GridIcon} onClick={() => selectTab('posts')} />
                         {isOwnProfile && (
                             <>
-                                <TabButton active={activeTab === 'likes'} icon={HeartIcon} onClick={() => setActiveTab('likes')} />
-                                <TabButton active={activeTab === 'saved'} icon={BookmarkIcon} onClick={() => setActiveTab('saved')} />
+                                <TabButton active={activeTab === 'likes'} icon={HeartIcon} onClick={() => selectTab('likes')} />
+                                <TabButton active={activeTab === 'saved'} icon={BookmarkIcon} onClick={() => selectTab('saved')} />
                             </>
                         )}
                     </div>
@@ -479,17 +483,14 @@ const ProfileView: React.FC<ProfileViewProps> = ({ setCurrentView, initialTab =
                         <div
                             key={item.id}
                             onClick={() => {
-                                const fullId = item.domain_id || item.domain_name;
-                                // ALWAYS use the leaf ID (e.g. Science/Physics -> Physics) for the domain lookup
-                                // This ensures "Relativity" finds "Science/Relativity" and "Cosmology/Relativity" (Broad Search)
-                                const leafId = fullId ? fullId.split('/').pop() : 'Unknown';
-
-                                setCurrentView({ type: ViewType.Post, domainId: leafId, domainName: leafId, focusedPostId: item.id });
+                                // Posts belong to one domain node: open that one, named by its leaf
+                                const domainId = item.domain_id || item.domain_name || 'Unknown';
+                                setCurrentView({ type: ViewType.Post, domainId, domainName: nameOf(domainId), focusedPostId: item.id });
                             }}
                             className="aspect-[4/5] rounded-[1.5rem] bg-[#111] overflow-hidden relative group cursor-pointer shadow-lg transition-all duration-500 border border-white/5"
                         >
                             {item.imageURL ? (
-                                <img src={item.imageURL} className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-110" />
+                                <img src={variantUrl(item.imageURL, 'thumb')} loading="lazy" className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-110" />
                             ) : (
                                 <div className="w-full h-full flex flex-col items-center justify-center p-6 text-center">
                                     <span className="font-extrabold text-white text-sm">{item.domain_name}</span>
@@ -534,6 +535,12 @@ const ProfileView: React.FC<ProfileViewProps> = ({ setCurrentView, initialTab =
                         </div>
                     ))}
                 </div>
+
+                {nextCursor && (
+                    <div ref={loadMoreSentinel} className="flex justify-center py-8">
+                        <div className="w-6 h-6 border-2 border-[var(--primary-accent)]/20 border-t-[var(--primary-accent)] rounded-full animate-spin"></div>
+                    </div>
+                )}
             </section>
 
 
@@ -1,16 +1,18 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Domain, ViewState, ViewType } from '../types';
+import { Domain, ViewState, ViewType, PostSummary, Profile, SearchMode } from '../types';
 import { SearchIcon, CloseIcon } from './icons';
-import { execute } from '../lib/tidbClient';
-import { ROOT_DOMAINS } from '../services/pollinationsService';
+import { call } from '../lib/rpc/client';
+import { ROOT_DOMAINS } from '../services/aiService';
+import { nameOf } from '../lib/taxonomy';
 
 interface SearchViewProps {
     domainTree: Domain | null;
     setCurrentView: React.Dispatch<React.SetStateAction<ViewState>>;
+    // From the URL (?q=&mode=); edits are written back to it
+    query?: string;
+    mode?: SearchMode;
 }
 
-type SearchMode = 'frequency' | 'signal' | 'people';
-
 type FrequencyResult = {
     id: string; // Full path e.g. "Science/Physics"
     name: string; // "Physics"
@@ -34,20 +36,33 @@ const flattenDomainTree = (node: Domain | null, prefix: string = ''): FrequencyR
     return results;
 };
 
-const SearchView: React.FC<SearchViewProps> = ({ domainTree, setCurrentView }) => {
-    const [searchTerm, setSearchTerm] = useState('');
-    const [mode, setMode] = useState<SearchMode>('frequency');
+const SearchView: React.FC<SearchViewProps> = ({ domainTree, setCurrentView, query = '', mode: initialMode = 'frequency' }) => {
+    const [searchTerm, setSearchTerm] = useState(query);
+    const [mode, setMode] = useState<SearchMode>(initialMode);
+
+    // Back/forward to another search
+    useEffect(() => { setSearchTerm(query); }, [query]);
+    useEffect(() => { setMode(initialMode); }, [initialMode]);
+
+    // Typing settles before it reaches the URL
+    useEffect(() => {
+        const timer = setTimeout(() => setCurrentView(prev => {
+            if (prev.type !== ViewType.Search || ((prev.query ?? '') === searchTerm && (prev.mode ?? 'frequency') === mode)) return prev;
+            return { ...prev, query: searchTerm || undefined, mode };
+        }), 400);
+        return () => clearTimeout(timer);
+    }, [searchTerm, mode, setCurrentView]);
 
     // Frequency Mode State
     const [activeFrequencies, setActiveFrequencies] = useState<FrequencyResult[]>([]);
     const [frequencyLoading, setFrequencyLoading] = useState(true);
 
     // Signal Mode State
-    const [signalResults, setSignalResults] = useState<any[]>([]); // Using any for partial post data
+    const [signalResults, setSignalResults] = useState<PostSummary[]>([]);
     const [signalLoading, setSignalLoading] = useState(false);
 
     // People Mode State
-    const [peopleResults, setPeopleResults] = useState<any[]>([]);
+    const [peopleResults, setPeopleResults] = useState<Profile[]>([]);
     const [peopleLoading, setPeopleLoading] = useState(false);
 
     // 1. Fetch Active Frequencies (Real-time DB Counts)
@@ -55,20 +70,14 @@ const SearchView: React.FC<SearchViewProps> = ({ domainTree, setCurrentView }) =
         const fetchFrequencies = async () => {
             setFrequencyLoading(true);
             try {
-                const result = await execute('SELECT domain_id FROM posts');
-                const counts: Record<string, number> = {};
-                result.forEach((row: any) => {
-                    if (row.domain_id) {
-                        counts[row.domain_id] = (counts[row.domain_id] || 0) + 1;
-                    }
-                });
+                const counts = await call('posts.countByDomain', {});
 
-                const domains: FrequencyResult[] = Object.keys(counts).map(id => {
-                    const parts = id.split('/');
+                const domains: FrequencyResult[] = counts.map(({ domainId, count }) => {
+                    const parts = domainId.split('/');
                     return {
-                        id: id,
+                        id: domainId,
                         name: parts[parts.length - 1],
-                        count: counts[id],
+                        count,
                         isTrending: true
                     };
                 });
@@ -88,16 +97,7 @@ const SearchView: React.FC<SearchViewProps> = ({ domainTree, setCurrentView }) =
             const fetchSignals = async () => {
                 setSignalLoading(true);
                 try {
-                    // This query needs to be supported by tidbClient mock/real
-                    const sql = `
-                        SELECT p.id, p.content, p.created_at, p.user_id, p.domain_id, u.username, u.photoURL 
-                        FROM posts p
-                        LEFT JOIN profiles u ON p.user_id = u.id
-                        WHERE LOWER(p.content) LIKE LOWER(?)
-                        ORDER BY p.created_at DESC
-                        LIMIT 20
-                    `;
-                    const results = await execute(sql, [`%${searchTerm}%`]);
+                    const results = await call('posts.search', { term: searchTerm.trim() });
                     setSignalResults(results);
                 } catch (e) {
                     console.error("Signal search failed", e);
@@ -119,14 +119,7 @@ const SearchView: React.FC<SearchViewProps> = ({ domainTree, setCurrentView }) =
             const fetchPeople = async () => {
                 setPeopleLoading(true);
                 try {
-                    const sql = `
-                        SELECT id, username, photoURL, bio
-                        FROM profiles
-                        WHERE LOWER(username) LIKE LOWER(?)
-                        ORDER BY username ASC
-                        LIMIT 20
-                    `;
-                    const results = await execute(sql, [`%${searchTerm}%`]);
+                    const results = await call('profiles.search', { term: searchTerm.trim() });
                     setPeopleResults(results);
                 } catch (e) {
                     console.error("People search failed", e);
@@ -288,15 +281,15 @@ const SearchView: React.FC<SearchViewProps> = ({ domainTree, setCurrentView }) =
                                     {signalResults.map((post) => (
                                         <div
                                             key={post.id}
-                                            onClick={() => setCurrentView({ type: ViewType.Post, domainId: post.domain_id, domainName: post.domain_id, focusedPostId: post.id })}
+                                            onClick={() => setCurrentView({ type: ViewType.Post, domainId: post.domain_id, domainName: nameOf(post.domain_id), focusedPostId: post.id })}
                                             className="bg-[#1a1a2e] border border-white/5 p-4 rounded-xl hover:border-[var(--primary-accent)]/30 cursor-pointer transition-colors group"
                                         >
                                             <div className="flex items-center space-x-3 mb-3">
                                                 <div className="w-8 h-8 rounded-full bg-slate-700 overflow-hidden">
-                                                    {post.photoURL ? <img src={post.photoURL} alt={post.username} className="w-full h-full object-cover" /> : <div className="w-full h-full flex items-center justify-center text-[10px] text-white font-bold">{post.username?.[0]}</div>}
+                                                    {post.profiles.photoURL ? <img src={post.profiles.photoURL} alt={post.profiles.username} className="w-full h-full object-cover" /> : <div className="w-full h-full flex items-center justify-center text-[10px] text-white font-bold">{post.profiles.username?.[0]}</div>}
                                                 </div>
                                                 <div>
-                                                    <p className="text-xs font-bold text-slate-200">{post.username}</p>
+                                                    <p className="text-xs font-bold text-slate-200">{post.profiles.username}</p>
                                                     <p className="text-[10px] text-slate-500 font-mono">{post.domain_id} • {new Date(post.created_at).toLocaleString()}</p>
                                                 </div>
                                             </div>
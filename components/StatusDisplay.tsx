@@ -1,13 +1,34 @@
 import React from 'react';
 import { useStatus } from '../contexts/StatusContext';
+import { discardFailed } from '../lib/rpc/outbox';
+import { retryWrite } from '../lib/rpc/client';
+import type { OperationName } from '../lib/rpc/operations';
 import { CloseIcon } from './icons';
 
+// How a queued write is described to the user
+const WRITE_LABELS: Partial<Record<OperationName, string>> = {
+    'posts.create': 'New post',
+    'posts.update': 'Post edit',
+    'posts.delete': 'Post deletion',
+    'posts.like': 'Like',
+    'posts.unlike': 'Unlike',
+    'comments.create': 'Comment',
+    'comments.delete': 'Comment deletion',
+    'follows.follow': 'Follow',
+    'follows.unfollow': 'Unfollow',
+    'messages.send': 'Message',
+    'chats.getOrCreate': 'New chat',
+    'chats.setStatus': 'Chat request response',
+    'savedDomains.save': 'Saved domain',
+    'savedDomains.remove': 'Unsaved domain',
+};
+
 interface StatusDisplayProps {
     showUplink?: boolean;
 }
 
 const StatusDisplay: React.FC<StatusDisplayProps> = ({ showUplink = true }) => {
-    const { error, setError, isOffline, connectionMode } = useStatus();
+    const { error, setError, isOffline, connectionMode, pendingWrites, failedWrites } = useStatus();
 
     return (
         <>
@@ -33,6 +54,40 @@ const StatusDisplay: React.FC<StatusDisplayProps> = ({ showUplink = true }) => {
 
             {/* Connection Mode Banner - REMOVED */}
 
+            {/* Offline Writes Waiting To Sync */}
+            {pendingWrites > 0 && (
+                <div
+                    className="fixed bottom-6 left-6 z-[99] px-4 py-2 glass-panel border border-yellow-500/30 text-yellow-100 text-xs font-medium rounded-full shadow-lg flex items-center space-x-2"
+                    role="status"
+                >
+                    <span className="w-2 h-2 bg-yellow-500 rounded-full animate-pulse"></span>
+                    <span>{pendingWrites} {pendingWrites === 1 ? 'change' : 'changes'} waiting to sync</span>
+                </div>
+            )}
+
+            {/* Offline Writes The Server Rejected */}
+            {failedWrites.length > 0 && (
+                <div
+                    className="fixed bottom-16 left-6 z-[99] w-full max-w-sm p-4 glass-panel border-l-4 border-l-red-500 rounded-r-xl shadow-2xl space-y-3"
+                    role="alert"
+                    style={{ background: 'rgba(69, 10, 10, 0.6)' }}
+                >
+                    <p className="font-bold text-white">Couldn't sync offline changes</p>
+                    {failedWrites.map(item => (
+                        <div key={item.key} className="flex items-start justify-between gap-3">
+                            <div className="min-w-0">
+                                <p className="text-sm text-white">{WRITE_LABELS[item.name] || item.name}</p>
+                                <p className="text-xs text-red-100 truncate">{item.error}</p>
+                            </div>
+                            <div className="flex shrink-0 space-x-2 text-xs">
+                                <button onClick={() => retryWrite(item.key)} className="px-2 py-1 rounded-full text-red-100 hover:text-white hover:bg-white/10 transition-colors">Retry</button>
+                                <button onClick={() => discardFailed(item.key)} className="px-2 py-1 rounded-full text-red-100 hover:text-white hover:bg-white/10 transition-colors">Dismiss</button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
             {/* Offline Banner */}
             {isOffline && (
                 <div
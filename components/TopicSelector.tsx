@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { execute } from '../lib/tidbClient';
+import { call } from '../lib/rpc/client';
 import { useAuth } from '../contexts/AuthContext';
 import { useStatus } from '../contexts/StatusContext';
 import { CheckIcon } from './icons';
@@ -48,8 +48,7 @@ const TopicSelector: React.FC<TopicSelectorProps> = ({ onComplete }) => {
         if (!user) return;
         setIsSaving(true);
         try {
-            const interestsStr = selectedTopics.join(',');
-            await execute('UPDATE profiles SET interests = ? WHERE id = ?', [interestsStr, user.uid]);
+            await call('profiles.setInterests', { interests: selectedTopics });
             await fetchProfile(); // Force refresh of local profile context
             onComplete();
         } catch (e) {
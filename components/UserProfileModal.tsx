@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { execute } from '../lib/tidbClient';
+import { call } from '../lib/rpc/client';
+import { getOrCreateChat } from '../services/chatService';
 import { Profile, ViewState, ViewType } from '../types';
 import { CloseIcon, CommentIcon } from './icons';
 import { useStatus } from '../contexts/StatusContext';
@@ -20,9 +21,9 @@ const UserProfileModal: React.FC<UserProfileModalProps> = ({ userId, onClose, se
     useEffect(() => {
         const fetchProfile = async () => {
             try {
-                const result = await execute('SELECT * FROM profiles WHERE id = ?', [userId]);
-                if (result.length > 0) {
-                    setProfile(result[0] as Profile);
+                const result = await call('profiles.get', { id: userId });
+                if (result) {
+                    setProfile(result);
                 } else {
                     setProfile({ id: userId, username: 'Unknown User', email: '' });
                 }
@@ -38,22 +39,11 @@ const UserProfileModal: React.FC<UserProfileModalProps> = ({ userId, onClose, se
 
     const handleStartChat = async () => {
         if (!user || !profile) return;
-        
-        // Simple chatId convention: sorted uids joined by underscore
-        const participantIds = [user.uid, profile.id].sort();
-        const chatId = `${participantIds[0]}_${participantIds[1]}`;
 
         try {
-            // Check if chat exists, if not create it.
-            // In MySQL we can use INSERT IGNORE or ON DUPLICATE KEY UPDATE
-            // JSON array for participants
-            const participantsJson = JSON.stringify(participantIds);
-            
-            await execute(
-                'INSERT INTO chats (id, participants, updatedAt) VALUES (?, ?, ?) ON DUPLICATE KEY UPDATE updatedAt = VALUES(updatedAt)',
-                [chatId, participantsJson, new Date().toISOString()]
-            );
-            
+            // Same chat_participants-based lookup as ProfileView/InboxView
+            const chatId = await getOrCreateChat(profile.id);
+
             onClose();
             setCurrentView({ type: ViewType.Chat, chatId, otherUserId: profile.id });
         } catch (e: any) {
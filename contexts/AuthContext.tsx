@@ -2,7 +2,7 @@
 import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback } from 'react';
 import { User as FirebaseUser, onAuthStateChanged } from 'firebase/auth';
 import { auth } from '../lib/firebaseClient';
-import { execute } from '../lib/tidbClient';
+import { call, setCredentials } from '../lib/rpc/client';
 import { Profile } from '../types';
 import { useStatus } from './StatusContext';
 
@@ -23,10 +23,10 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   const fetchUserProfile = useCallback(async (currentUser: FirebaseUser) => {
     try {
-      const result = await execute('SELECT * FROM profiles WHERE id = ?', [currentUser.uid]);
-      
-      if (result.length > 0) {
-        setProfile(result[0] as Profile);
+      const result = await call('profiles.getOwn', {});
+
+      if (result) {
+        setProfile(result);
       } else {
         // Fallback for new users or if insert pending
         setProfile({ id: currentUser.uid, email: currentUser.email || '', username: '' });
@@ -42,6 +42,8 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (currentUser) => {
+      // Must happen before any RPC so requests carry the new user's token
+      setCredentials(currentUser);
       setUser(currentUser);
       if (currentUser) {
         await fetchUserProfile(currentUser);
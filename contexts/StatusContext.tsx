@@ -1,6 +1,7 @@
 import React, { createContext, useState, useContext, ReactNode, useCallback, useEffect } from 'react';
 
 import { subscribeToConnectionMode, ConnectionMode } from '../lib/tidbClient';
+import { subscribeToOutbox, OutboxItem } from '../lib/rpc/outbox';
 
 interface StatusContextType {
   error: string | null;
@@ -8,6 +9,10 @@ interface StatusContextType {
   isOffline: boolean;
   setIsOffline: (offline: boolean) => void;
   connectionMode: ConnectionMode;
+  // Offline writes still waiting to reach the server
+  pendingWrites: number;
+  // Offline writes the server rejected on replay
+  failedWrites: OutboxItem[];
 }
 
 const StatusContext = createContext<StatusContextType | undefined>(undefined);
@@ -16,6 +21,7 @@ export const StatusProvider: React.FC<{ children: ReactNode }> = ({ children })
   const [error, setErrorState] = useState<string | null>(null);
   const [isOffline, setIsOffline] = useState<boolean>(false); // Default to false (Online) for SSR consistency
   const [connectionMode, setConnectionMode] = useState<ConnectionMode>('cloud');
+  const [outbox, setOutbox] = useState<OutboxItem[]>([]);
 
   const setError = useCallback((newError: string | null) => {
     setErrorState(newError);
@@ -44,10 +50,13 @@ export const StatusProvider: React.FC<{ children: ReactNode }> = ({ children })
       setConnectionMode(mode);
     });
 
+    const unsubscribeOutbox = subscribeToOutbox(setOutbox);
+
     return () => {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
       unsubscribeTidb();
+      unsubscribeOutbox();
     };
   }, []);
 
@@ -58,6 +67,8 @@ export const StatusProvider: React.FC<{ children: ReactNode }> = ({ children })
     isOffline,
     setIsOffline,
     connectionMode,
+    pendingWrites: outbox.filter(i => i.status === 'pending').length,
+    failedWrites: outbox.filter(i => i.status === 'failed'),
   };
 
   return <StatusContext.Provider value={value}>{children}</StatusContext.Provider>;
@@ -1,7 +1,7 @@
 import React, { createContext, useState, useContext, ReactNode, useEffect } from 'react';
 import { Theme } from '../types';
 import { useAuth } from './AuthContext';
-import { execute } from '../lib/tidbClient';
+import { call } from '../lib/rpc/client';
 
 interface ThemeContextType {
   theme: Theme;
@@ -30,7 +30,7 @@ export const ThemeProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     if (user && profile && profile.theme !== theme) {
       const saveTheme = async () => {
         try {
-          await execute('UPDATE profiles SET theme = ? WHERE id = ?', [theme, user.uid]);
+          await call('profiles.setTheme', { theme });
         } catch (e) {
           console.error("Failed to save theme", e);
         }
@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useRef, RefObject } from 'react';
+
+type InfiniteScrollOptions = {
+  // Only observe while there is more to load and no page is in flight
+  enabled: boolean;
+  // The scrolling container; margins only extend a root, not the viewport
+  // a nested scroller is clipped to
+  root?: RefObject<Element | null>;
+  // How far ahead of the sentinel to start loading
+  rootMargin?: string;
+};
+
+/**
+ * Calls `onReach` when the returned sentinel ref scrolls into view. Put the
+ * sentinel after the last item to load more on scroll-down, or before the
+ * first to load older items on scroll-up.
+ */
+const useInfiniteScroll = (
+  onReach: () => void,
+  { enabled, root, rootMargin = '400px' }: InfiniteScrollOptions
+) => {
+  const observer = useRef<IntersectionObserver | null>(null);
+  const sentinel = useRef<Element | null>(null);
+  // Always call the latest callback without re-creating the observer
+  const callback = useRef(onReach);
+  useEffect(() => {
+    callback.current = onReach;
+  });
+
+  const observe = useCallback(() => {
+    observer.current?.disconnect();
+    observer.current = null;
+    if (!enabled || !sentinel.current || typeof IntersectionObserver === 'undefined') return;
+
+    observer.current = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) callback.current();
+    }, { root: root?.current ?? null, rootMargin });
+    observer.current.observe(sentinel.current);
+  }, [enabled, root, rootMargin]);
+
+  useEffect(() => {
+    observe();
+    return () => observer.current?.disconnect();
+  }, [observe]);
+
+  return useCallback((node: Element | null) => {
+    sentinel.current = node;
+    observe();
+  }, [observe]);
+};
+
+export default useInfiniteScroll;
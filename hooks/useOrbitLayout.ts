@@ -0,0 +1,84 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Domain } from '../types';
+import { sphereRadius } from '../components/DomainSphere';
+import { extentOf, OrbitLayoutRequest, OrbitPositions, relaxLayout, seedPosition } from '../lib/orbitLayout';
+
+/**
+ * Lays `domains` out around the centre sphere `centerName` (see
+ * lib/orbitLayout), solving in a worker. Newcomers show at their seed
+ * position straight away and move into place when the solver answers;
+ * children already on screen keep their place unless pushed. `centerKey`
+ * names the centre: each centre's layout is kept, so going back to a domain
+ * shows it as it was left.
+ *
+ * `weights` scale spheres by id (see activityWeight); when they change, the
+ * children on screen make room for each other without being laid out afresh.
+ */
+const useOrbitLayout = (centerKey: string, centerName: string, domains: Domain[] | null, weights?: Record<string, number>): Domain[] => {
+  const worker = useRef<Worker | null>(null);
+  const seq = useRef(0);
+  // Solved positions by centre, and the radii they were solved for
+  const solved = useRef(new Map<string, OrbitPositions>());
+  const solvedRadii = useRef(new Map<string, Record<string, number>>());
+  const radiusOf = (d: Domain) => sphereRadius(d.name, weights?.[d.id]);
+  const [positions, setPositions] = useState<{ key: string; positions: OrbitPositions } | null>(null);
+
+  useEffect(() => {
+    if (typeof Worker === 'undefined') return;
+    const layoutWorker = new Worker(new URL('../lib/orbitLayout.worker.ts', import.meta.url));
+    worker.current = layoutWorker;
+    return () => {
+      layoutWorker.terminate();
+      worker.current = null;
+    };
+  }, []);
+
+  // Where each child starts: where it was, or a seed for a newcomer
+  const start = useMemo(() => {
+    const placed = solved.current.get(centerKey) ?? {};
+    const all = domains ?? [];
+    const settled = all.filter(d => placed[d.id]);
+    const radii = solvedRadii.current.get(centerKey) ?? {};
+    const extent = extentOf(settled.map(d => ({ web: d.source === 'web', radius: radiusOf(d), ...placed[d.id] })));
+    const result: OrbitPositions = {};
+    all.forEach(d => {
+      result[d.id] = placed[d.id] ?? seedPosition(d.source === 'web', extent && extent + radiusOf(d));
+    });
+    const resized = settled.some(d => radii[d.id] !== radiusOf(d));
+    return { result, placed, solve: settled.length < all.length || resized };
+  }, [centerKey, domains, weights]);
+
+  useEffect(() => {
+    if (!domains || !start.solve) return;
+    const radii = Object.fromEntries(domains.map(d => [d.id, radiusOf(d)]));
+    const request: OrbitLayoutRequest = {
+      nodes: domains.map(d => ({ id: d.id, radius: radii[d.id], web: d.source === 'web', settled: !!start.placed[d.id], ...start.result[d.id] })),
+      centerRadius: sphereRadius(centerName),
+    };
+    const done = (result: OrbitPositions) => {
+      solved.current.set(centerKey, { ...solved.current.get(centerKey), ...result });
+      solvedRadii.current.set(centerKey, { ...solvedRadii.current.get(centerKey), ...radii });
+      setPositions({ key: centerKey, positions: result });
+    };
+
+    const layoutWorker = worker.current;
+    if (!layoutWorker) {
+      done(relaxLayout(request));
+      return;
+    }
+    const id = ++seq.current;
+    const onMessage = (event: MessageEvent<{ seq: number; positions: OrbitPositions }>) => {
+      if (event.data.seq === id) done(event.data.positions);
+    };
+    layoutWorker.addEventListener('message', onMessage);
+    layoutWorker.postMessage({ seq: id, request });
+    return () => layoutWorker.removeEventListener('message', onMessage);
+  }, [start, centerName]);
+
+  return useMemo(() => {
+    const current = positions?.key === centerKey ? positions.positions : {};
+    return (domains ?? []).map(d => ({ ...d, position: current[d.id] ?? start.result[d.id] }));
+  }, [domains, positions, centerKey, start]);
+};
+
+export default useOrbitLayout;
@@ -0,0 +1,64 @@
+import { RefObject, useState } from 'react';
+
+export type FocusDirection = 'left' | 'right' | 'up' | 'down';
+
+// Something to focus, where it is on screen (any units, y down)
+export interface FocusSpot {
+  id: string;
+  x: number;
+  y: number;
+}
+
+export const ARROW_DIRECTIONS: Record<string, FocusDirection> = {
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+};
+
+// Straying sideways costs this much more than going the right way
+const SIDEWAYS_COST = 2;
+
+// The spot nearest `from` going `direction`, if there is any that way
+const nearestTowards = (from: FocusSpot, spots: FocusSpot[], direction: FocusDirection) => {
+  let best: FocusSpot | undefined;
+  let bestScore = Infinity;
+  spots.forEach(spot => {
+    const dx = spot.x - from.x;
+    const dy = spot.y - from.y;
+    const [ahead, sideways] = direction === 'left' ? [-dx, dy] : direction === 'right' ? [dx, dy] : direction === 'up' ? [-dy, dx] : [dy, dx];
+    if (spot === from || ahead <= 0) return;
+    const score = ahead + Math.abs(sideways) * SIDEWAYS_COST;
+    if (score < bestScore) {
+      best = spot;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/**
+ * Roving focus over `spots` laid out in 2D: one of them is in the tab order
+ * (`activeId`), and the arrow keys move focus to the nearest one that way.
+ * Elements are found in `container` by `data-focus-id`.
+ */
+const useRovingFocus = (spots: FocusSpot[], container: RefObject<HTMLElement | null>) => {
+  const [chosen, setChosen] = useState<string | null>(null);
+  // What was chosen may have gone (another level, a search); then the first
+  const activeId = spots.some(s => s.id === chosen) ? chosen : spots[0]?.id ?? null;
+
+  const focus = (id: string) => {
+    setChosen(id);
+    container.current?.querySelector<HTMLElement>(`[data-focus-id="${CSS.escape(id)}"]`)?.focus();
+  };
+
+  const move = (direction: FocusDirection) => {
+    const from = spots.find(s => s.id === activeId);
+    const to = from && nearestTowards(from, spots, direction);
+    if (to) focus(to.id);
+  };
+
+  return { activeId, focus, move, choose: setChosen };
+};
+
+export default useRovingFocus;
@@ -0,0 +1,56 @@
+import { object, string, array, number, Infer, Schema } from './rpc/schema';
+import { DomainProfile } from '../types';
+
+// -----------------------------------------------------------------------------
+// AI TASKS
+// -----------------------------------------------------------------------------
+// What may be asked of the AI gateway (lib/server/ai): by operations that
+// store what it generates (through ContentSources), or over one route per
+// task:
+//
+//   POST /api/ai/<task>  { input: {...} }  ->  { data: <output>, generator }
+//
+// Callers send only the task's inputs; prompts are built on the server, so
+// the gateway can't be used as a general-purpose model proxy. `generator`
+// names the provider and model that produced (or first produced, if cached)
+// the answer, e.g. "pollinations/openai".
+//
+// Shared by the operations, which also run in the browser, and the API route.
+// -----------------------------------------------------------------------------
+
+const term = () => string({ min: 1, max: 200 });
+const contextPath = () => array(string({ max: 200 }), { max: 32 });
+
+const inputSchemas = {
+    // Subtopics of `topic`; each `variant` asks for a different batch
+    domains: object({ topic: term(), path: contextPath(), variant: number({ integer: true, min: 0, max: 1000 }) }),
+    // A structured profile of `term` for its info card; each `revision`
+    // (a user's refresh) asks for a new one
+    profile: object({ term: term(), path: contextPath(), revision: number({ integer: true, min: 0, max: 1000 }) }),
+};
+
+export interface AiTaskOutputs {
+    domains: string[];
+    profile: DomainProfile;
+}
+
+// Bump when the profile prompt or shape changes; stored profiles in an older
+// version are generated again on next view
+export const PROFILE_VERSION = 1;
+
+// Longest text and list in a profile; replies are trimmed to fit
+export const PROFILE_LIMITS = { summary: 2000, text: 200, items: 8 };
+
+export type AiTask = keyof typeof inputSchemas;
+export type AiTaskInput<T extends AiTask> = Infer<typeof inputSchemas[T]>;
+
+// Typed per task, so the schema of a task only known as `T` still parses
+// to that task's input
+export const aiTaskInputs: { [T in AiTask]: Schema<AiTaskInput<T>> } = inputSchemas;
+
+export interface AiResult<T extends AiTask> {
+    data: AiTaskOutputs[T];
+    generator: string;
+}
+
+export const isAiTask = (value: string): value is AiTask => Object.prototype.hasOwnProperty.call(aiTaskInputs, value);
@@ -0,0 +1,87 @@
+import type { Executor } from './rpc/operation';
+
+// -----------------------------------------------------------------------------
+// DENORMALIZED COUNTERS
+// -----------------------------------------------------------------------------
+// Hot counts are stored on the rows they describe instead of being computed
+// with COUNT(*) on every read:
+// - posts:    like_count, comment_count
+// - profiles: follower_count, following_count, post_count, likes_received
+//
+// Each write operation adjusts the counters it affects with `bump*`, inside
+// the same transaction as the write itself, so a count and its source rows
+// commit together.
+//
+// Counters can still drift (two concurrent likes racing past the "already
+// liked?" check, rows edited by hand, a bug). `repairCounters` recomputes
+// every counter from its source table and fixes the rows that disagree; run
+// it with `npm run repair-counters`.
+// -----------------------------------------------------------------------------
+
+export type PostCounter = 'like_count' | 'comment_count';
+export type ProfileCounter = 'follower_count' | 'following_count' | 'post_count' | 'likes_received';
+
+export const bumpPostCounter = (db: Executor, postId: string, counter: PostCounter, delta: number) =>
+    db(`UPDATE posts SET ${counter} = ${counter} + ? WHERE id = ?`, [delta, postId]);
+
+export const bumpProfileCounter = (db: Executor, userId: string, counter: ProfileCounter, delta: number) =>
+    db(`UPDATE profiles SET ${counter} = ${counter} + ? WHERE id = ?`, [delta, userId]);
+
+interface CounterDefinition {
+    table: 'posts' | 'profiles';
+    column: PostCounter | ProfileCounter;
+    // Correlated subquery computing the true value for the outer row
+    actual: string;
+}
+
+// The source of truth for every counter. Must agree with what the write
+// operations bump.
+const COUNTERS: CounterDefinition[] = [
+    { table: 'posts', column: 'like_count', actual: 'SELECT COUNT(*) FROM likes l WHERE l.post_id = posts.id' },
+    { table: 'posts', column: 'comment_count', actual: 'SELECT COUNT(*) FROM comments c WHERE c.post_id = posts.id' },
+    { table: 'profiles', column: 'follower_count', actual: 'SELECT COUNT(*) FROM follows f WHERE f.following_id = profiles.id' },
+    { table: 'profiles', column: 'following_count', actual: 'SELECT COUNT(*) FROM follows f WHERE f.follower_id = profiles.id' },
+    { table: 'profiles', column: 'post_count', actual: 'SELECT COUNT(*) FROM posts p WHERE p.user_id = profiles.id' },
+    {
+        table: 'profiles',
+        column: 'likes_received',
+        actual: 'SELECT COUNT(*) FROM likes l JOIN posts p ON l.post_id = p.id WHERE p.user_id = profiles.id'
+    },
+];
+
+export interface CounterDrift {
+    counter: string;
+    // Rows whose stored value disagreed with the source tables
+    drifted: number;
+}
+
+export interface RepairOptions {
+    // Report drift without fixing it
+    dryRun?: boolean;
+    log?: (message: string) => void;
+}
+
+/**
+ * Recomputes every counter from its source table and rewrites the rows that
+ * drifted. Each counter is fixed by a single UPDATE, so it is safe to run
+ * while the app is serving writes.
+ */
+export const repairCounters = async (execute: Executor, { dryRun = false, log = () => { } }: RepairOptions = {}): Promise<CounterDrift[]> => {
+    const report: CounterDrift[] = [];
+
+    for (const { table, column, actual } of COUNTERS) {
+        const counter = `${table}.${column}`;
+        const drifted = await execute(`SELECT id, ${column} AS stored, (${actual}) AS actual FROM ${table} WHERE ${column} != (${actual})`);
+        report.push({ counter, drifted: drifted.length });
+
+        if (drifted.length === 0) continue;
+        log(`${counter}: ${drifted.length} row(s) drifted${dryRun ? '' : ', repairing'}`);
+        drifted.slice(0, 10).forEach((row: any) => log(`  ${row.id}: stored ${row.stored}, actual ${row.actual}`));
+
+        if (!dryRun) {
+            await execute(`UPDATE ${table} SET ${column} = (${actual}) WHERE ${column} != (${actual})`);
+        }
+    }
+
+    return report;
+};
@@ -1,6 +1,6 @@
 
 import { initializeApp } from "firebase/app";
-import { getAuth } from "firebase/auth";
+import { getAuth, connectAuthEmulator } from "firebase/auth";
 import { getFirestore } from "firebase/firestore";
 
 const firebaseConfig = {
@@ -18,4 +18,10 @@ const app = initializeApp(firebaseConfig);
 
 // Export the necessary Firebase services
 export const auth = getAuth(app);
+
+// Local development against the Firebase Auth emulator (e.g. "127.0.0.1:9099").
+// The API must run with FIREBASE_AUTH_EMULATOR_HOST set to accept its tokens.
+if (process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST) {
+  connectAuthEmulator(auth, `http://${process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST}`, { disableWarnings: true });
+}
 export const db = getFirestore(app);
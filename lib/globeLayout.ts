@@ -0,0 +1,96 @@
+import { Domain } from '../types';
+
+// -----------------------------------------------------------------------------
+// GLOBE LAYOUT
+// -----------------------------------------------------------------------------
+// Where domains sit on the explore globe (components/DomainGlobe), as unit
+// vectors from its centre:
+// - the top level is spread evenly over the whole globe
+// - a domain's children cluster inside its region, a cap around it, spiralling
+//   out from it; their own regions are smaller caps inside that one
+//
+// Positions follow from the tree alone (order and count of siblings), so a
+// domain is in the same place every visit, on every device.
+// -----------------------------------------------------------------------------
+
+export type Direction = [number, number, number];
+
+export interface GlobePlace {
+    domain: Domain;
+    // Names from the top of the tree down to it
+    path: string[];
+    direction: Direction;
+    // Angular radius of its region, in radians: its children land inside it
+    region: number;
+    // 0 for the top level
+    depth: number;
+}
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+// Children use this much of their parent's region, leaving a margin to the next one
+const CLUSTER = 0.8;
+
+const normalize = ([x, y, z]: Direction): Direction => {
+    const length = Math.hypot(x, y, z) || 1;
+    return [x / length, y / length, z / length];
+};
+
+const cross = (a: Direction, b: Direction): Direction => [
+    a[1] * b[2] - a[2] * b[1],
+    a[2] * b[0] - a[0] * b[2],
+    a[0] * b[1] - a[1] * b[0],
+];
+
+// `count` directions spread evenly over the globe (a Fibonacci sphere)
+const spreadOverGlobe = (count: number): Direction[] =>
+    Array.from({ length: count }, (_, i) => {
+        const y = 1 - (2 * (i + 0.5)) / count;
+        const r = Math.sqrt(1 - y * y);
+        return [Math.cos(GOLDEN_ANGLE * i) * r, y, Math.sin(GOLDEN_ANGLE * i) * r];
+    });
+
+// `count` directions spiralling out from `center` to `cap` radians away, the
+// centre itself left free for the parent
+const spreadInCap = (center: Direction, cap: number, count: number): Direction[] => {
+    // Two axes perpendicular to the centre
+    const helper: Direction = Math.abs(center[1]) < 0.9 ? [0, 1, 0] : [1, 0, 0];
+    const u = normalize(cross(center, helper));
+    const v = cross(center, u);
+    return Array.from({ length: count }, (_, i) => {
+        const theta = cap * Math.sqrt((i + 1) / count);
+        const phi = GOLDEN_ANGLE * i;
+        const [s, c] = [Math.sin(theta), Math.cos(theta)];
+        return normalize([
+            center[0] * c + (u[0] * Math.cos(phi) + v[0] * Math.sin(phi)) * s,
+            center[1] * c + (u[1] * Math.cos(phi) + v[1] * Math.sin(phi)) * s,
+            center[2] * c + (u[2] * Math.cos(phi) + v[2] * Math.sin(phi)) * s,
+        ]);
+    });
+};
+
+/**
+ * The places of everything on the way to `path` in `tree`: the top level,
+ * the children of each domain on the path, and the children of the last one.
+ * Levels that aren't loaded yet are left out.
+ */
+export const placeOnGlobe = (tree: Domain, path: string[]): GlobePlace[] => {
+    const places: GlobePlace[] = [];
+    const top = tree.children ?? [];
+    const topRegion = Math.sqrt(Math.PI / Math.max(top.length, 1));
+    let level = spreadOverGlobe(top.length).map((direction, i): GlobePlace => ({
+        domain: top[i], path: [top[i].name], direction, region: topRegion, depth: 0,
+    }));
+
+    for (let depth = 0; ; depth++) {
+        places.push(...level);
+        const parent = level.find(place => place.domain.name === path[depth]);
+        const children = parent?.domain.children;
+        if (!parent || !children?.length) return places;
+
+        const cap = parent.region * CLUSTER;
+        const region = cap / Math.sqrt(children.length + 1);
+        level = spreadInCap(parent.direction, cap, children.length).map((direction, i) => ({
+            domain: children[i], path: [...parent.path, children[i].name], direction, region, depth: depth + 1,
+        }));
+    }
+};
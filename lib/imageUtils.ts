@@ -1,28 +1,26 @@
 
 import imageCompression from 'browser-image-compression';
+import { uploadMedia } from './rpc/client';
 
-export const compressImage = async (file: File): Promise<string> => {
+export const compressImage = async (file: File): Promise<Blob> => {
     const options = {
-        maxSizeMB: 0.1, // constrained to 100KB per user request
-        maxWidthOrHeight: 800,
+        // Only trims the upload; the server makes the smaller sizes and
+        // strips metadata (lib/server/media)
+        maxSizeMB: 2,
+        maxWidthOrHeight: 2048,
         useWebWorker: true,
         fileType: 'image/jpeg',
     };
 
     try {
-        const compressedFile = await imageCompression(file, options);
-        return await convertToBase64(compressedFile);
+        return await imageCompression(file, options);
     } catch (error) {
         console.error("Compression error:", error);
         throw error;
     }
 };
 
-const convertToBase64 = (file: Blob): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = (error) => reject(error);
-    });
+// Compresses and uploads an image; resolves to its media id (see lib/media)
+export const uploadImage = async (file: File): Promise<string> => {
+    return uploadMedia(await compressImage(file));
 };
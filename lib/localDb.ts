@@ -0,0 +1,201 @@
+import type { Database as SqlJsDatabase } from 'sql.js';
+import { Database, Executor, toDatabase, joinedTransaction } from './rpc/operation';
+import { migrate } from './migrations';
+import { toSqlite, toSqliteParams } from './mysqlDialect';
+
+// -----------------------------------------------------------------------------
+// LOCAL DATABASE (OFFLINE MODE)
+// -----------------------------------------------------------------------------
+// A real SQLite engine (sql.js, compiled to WASM) running in the browser, so
+// operations behave the same offline as they do against TiDB:
+// - Schema: the same lib/migrations list the server runs.
+// - Dialect: MySQL-only syntax is rewritten by lib/mysqlDialect.
+// - Persistence: the whole database file is snapshotted to IndexedDB shortly
+//   after every write, and restored on the next visit.
+// - Transactions: emulated with BEGIN/COMMIT on the single connection; other
+//   callers wait until the open transaction ends.
+//
+// The engine (~650KB of WASM, served from /public) is only fetched the first
+// time the app actually falls back to local mode. When upgrading sql.js, copy
+// node_modules/sql.js/dist/sql-wasm-browser.wasm over public/ to match.
+// -----------------------------------------------------------------------------
+
+const IDB_NAME = 'hyle_local_db';
+const IDB_STORE = 'snapshots';
+const SNAPSHOT_KEY = 'main';
+
+// Tables the old LocalStorage mock kept as `spark_db_<table>` JSON arrays
+const LEGACY_PREFIX = 'spark_db_';
+
+const SAVE_DELAY_MS = 500;
+
+let dbPromise: Promise<SqlJsDatabase> | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+// --- IndexedDB persistence ---
+
+const openStore = () => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(IDB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const loadSnapshot = async (): Promise<Uint8Array | null> => {
+    if (typeof indexedDB === 'undefined') return null;
+    const store = await openStore();
+    return new Promise((resolve, reject) => {
+        const request = store.transaction(IDB_STORE, 'readonly').objectStore(IDB_STORE).get(SNAPSHOT_KEY);
+        request.onsuccess = () => resolve(request.result ?? null);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const writeSnapshot = async (data: Uint8Array) => {
+    if (typeof indexedDB === 'undefined') return;
+    const store = await openStore();
+    await new Promise<void>((resolve, reject) => {
+        const tx = store.transaction(IDB_STORE, 'readwrite');
+        tx.objectStore(IDB_STORE).put(data, SNAPSHOT_KEY);
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+    });
+};
+
+const flush = async () => {
+    if (saveTimer) {
+        clearTimeout(saveTimer);
+        saveTimer = null;
+    }
+    if (!dbPromise) return;
+    try {
+        // export() reopens the database, which would end an open transaction
+        await waitForTransactions();
+        await writeSnapshot((await dbPromise).export());
+    } catch (e) {
+        console.error('[LocalDB] Failed to persist', e);
+    }
+};
+
+// Writes come in bursts (e.g. an outbox replay), so coalesce them
+const scheduleSave = () => {
+    if (saveTimer) clearTimeout(saveTimer);
+    saveTimer = setTimeout(flush, SAVE_DELAY_MS);
+};
+
+// --- Engine ---
+
+const run = (db: SqlJsDatabase, sql: string, args: any[] = []): any[] => {
+    const statement = db.prepare(toSqlite(sql));
+    try {
+        statement.bind(toSqliteParams(args));
+        const rows: any[] = [];
+        while (statement.step()) rows.push(statement.getAsObject());
+        return rows;
+    } finally {
+        statement.free();
+    }
+};
+
+// One-time import of data written by the old LocalStorage mock
+const importLegacyTables = (db: SqlJsDatabase) => {
+    if (typeof localStorage === 'undefined') return;
+    const tables = run(db, "SELECT name FROM sqlite_master WHERE type = 'table'").map(r => r.name as string);
+
+    for (const table of tables) {
+        const raw = localStorage.getItem(`${LEGACY_PREFIX}${table}`);
+        if (!raw) continue;
+        try {
+            const columns = new Set(run(db, `SELECT name FROM pragma_table_info('${table}')`).map(r => r.name as string));
+            for (const row of JSON.parse(raw)) {
+                const keys = Object.keys(row).filter(k => columns.has(k));
+                if (keys.length === 0) continue;
+                run(db, `INSERT OR IGNORE INTO ${table} (${keys.join(', ')}) VALUES (${keys.map(() => '?').join(', ')})`, keys.map(k => row[k]));
+            }
+            localStorage.removeItem(`${LEGACY_PREFIX}${table}`);
+        } catch (e) {
+            console.warn(`[LocalDB] Could not import legacy ${table}`, e);
+        }
+    }
+};
+
+const openDatabase = async (): Promise<SqlJsDatabase> => {
+    const initSqlJs = (await import('sql.js')).default;
+    const SQL = await initSqlJs({ locateFile: file => `/${file}` });
+
+    const snapshot = await loadSnapshot().catch(e => {
+        console.warn('[LocalDB] No snapshot restored', e);
+        return null;
+    });
+    const db = new SQL.Database(snapshot ?? undefined);
+    const execute: Executor = async (sql, args) => run(db, sql, args);
+
+    await migrate(execute);
+    if (!snapshot) importLegacyTables(db);
+    await writeSnapshot(db.export()).catch(e => console.error('[LocalDB] Failed to persist', e));
+
+    // Don't lose the last few writes when the tab goes away
+    if (typeof document !== 'undefined') {
+        document.addEventListener('visibilitychange', () => {
+            if (document.visibilityState === 'hidden' && saveTimer) flush();
+        });
+    }
+
+    return db;
+};
+
+const getDatabase = () => {
+    if (!dbPromise) {
+        dbPromise = openDatabase().catch(err => {
+            dbPromise = null;
+            throw err;
+        });
+    }
+    return dbPromise;
+};
+
+// --- Transactions ---
+
+// sql.js is synchronous but transaction bodies are async, so a statement from
+// another caller could otherwise land inside someone else's open transaction.
+// Each transaction replaces `transactionDone` with a promise that settles when
+// it ends; everyone else waits for it first. (So inside `work`, use `tx`:
+// calling localExecute there would wait on itself.)
+let transactionDone: Promise<void> = Promise.resolve();
+
+const waitForTransactions = async () => {
+    let pending: Promise<void>;
+    do {
+        pending = transactionDone;
+        await pending;
+    } while (pending !== transactionDone);
+};
+
+const transaction = async <T>(work: (tx: Database) => Promise<T>): Promise<T> => {
+    const db = await getDatabase();
+    const previous = transactionDone;
+    let release = () => { };
+    transactionDone = new Promise(resolve => { release = resolve; });
+    await previous;
+
+    run(db, 'BEGIN');
+    try {
+        const result = await work(joinedTransaction(async (sql, args = []) => run(db, sql, args)));
+        run(db, 'COMMIT');
+        scheduleSave();
+        return result;
+    } catch (err) {
+        run(db, 'ROLLBACK');
+        throw err;
+    } finally {
+        release();
+    }
+};
+
+export const localExecute: Database = toDatabase(async (sql, args = []) => {
+    const db = await getDatabase();
+    await waitForTransactions();
+    const rows = run(db, sql, args);
+    if (!/^\s*(SELECT|SHOW)\b/i.test(sql)) scheduleSave();
+    return rows;
+}, transaction);
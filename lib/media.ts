@@ -0,0 +1,82 @@
+// -----------------------------------------------------------------------------
+// MEDIA IDS
+// -----------------------------------------------------------------------------
+// Uploaded images live in a content-addressed store (lib/server/media), not
+// in the database. Rows keep only the media id:
+//
+//   <sha256 of the bytes>.<extension>   e.g. "9f86d0...0f00a08.jpg"
+//
+// The same bytes always get the same id, so an image uploaded twice is
+// stored once, and the bytes behind an id never change: they can be cached
+// forever. Images are served from /api/media/<id>.
+//
+// The upload itself is not kept. The server re-encodes it into one WebP per
+// MEDIA_VARIANTS size, stripped of all metadata, and serves them as
+// /api/media/<id>?variant=<name> (`full` when no variant is given).
+//
+// Shared by the browser and the API routes.
+// -----------------------------------------------------------------------------
+
+export const MEDIA_TYPES = {
+    jpg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp',
+} as const;
+
+export type MediaExtension = keyof typeof MEDIA_TYPES;
+
+// Uploads are compressed to ~2MB in the browser; this only bounds abuse
+export const MAX_MEDIA_BYTES = 8 * 1024 * 1024;
+
+// Images one post may carry
+export const MAX_ATTACHMENTS = 10;
+
+// Width in pixels of each generated size (never upscaled)
+export const MEDIA_VARIANTS = {
+    thumb: 400,
+    feed: 1080,
+    full: 2048,
+} as const;
+
+export type MediaVariant = keyof typeof MEDIA_VARIANTS;
+
+export const isMediaVariant = (value: string): value is MediaVariant =>
+    Object.prototype.hasOwnProperty.call(MEDIA_VARIANTS, value);
+
+// Where the store keeps one variant of an image
+export const variantKey = (id: string, variant: MediaVariant) => `${id}.${variant}.webp`;
+
+export const MEDIA_ID = /^[0-9a-f]{64}\.(jpg|png|gif|webp)$/;
+
+const MEDIA_PATH = '/api/media/';
+
+export const isMediaId = (value: string) => MEDIA_ID.test(value);
+
+export const mediaType = (id: string) => MEDIA_TYPES[id.split('.').pop() as MediaExtension];
+
+export const mediaUrl = (id: string | null | undefined, variant?: MediaVariant) =>
+    (id ? `${MEDIA_PATH}${id}${variant ? `?variant=${variant}` : ''}` : undefined);
+
+// The id behind a URL from `mediaUrl`; undefined for anything else (e.g. a
+// not-yet-extracted data URL)
+export const mediaIdFromUrl = (url: string | null | undefined) => {
+    if (!url?.startsWith(MEDIA_PATH)) return undefined;
+    const id = url.slice(MEDIA_PATH.length).split('?')[0];
+    return isMediaId(id) ? id : undefined;
+};
+
+// `url` at another size; URLs that aren't ours are returned unchanged
+export const variantUrl = <T extends string | undefined>(url: T, variant: MediaVariant): T => {
+    const id = mediaIdFromUrl(url);
+    return (id ? mediaUrl(id, variant) : url) as T;
+};
+
+// An <img srcSet> offering every size; undefined for URLs that aren't ours
+export const mediaSrcSet = (url: string | undefined) => {
+    const id = mediaIdFromUrl(url);
+    if (!id) return undefined;
+    return (Object.keys(MEDIA_VARIANTS) as MediaVariant[])
+        .map(variant => `${mediaUrl(id, variant)} ${MEDIA_VARIANTS[variant]}w`)
+        .join(', ');
+};
@@ -0,0 +1,480 @@
+import type { Executor } from './rpc/operation';
+
+// -----------------------------------------------------------------------------
+// SCHEMA MIGRATIONS
+// -----------------------------------------------------------------------------
+// One ordered list of schema changes, applied once per database and recorded
+// in `schema_migrations`. Nothing here runs on page load:
+// - TiDB: `npm run migrate` (see scripts/migrate.ts) against the primary.
+// - Local mode: lib/localDb brings the browser's own SQLite file up to date.
+//
+// Rules for adding a migration:
+// - Append only. Never edit or reorder one that has shipped.
+// - Write MySQL/TiDB DDL; it must also translate via lib/mysqlDialect.
+// - Provide `down` statements that undo `up`, in reverse order.
+// -----------------------------------------------------------------------------
+
+export interface Migration {
+    id: string;
+    description: string;
+    up: string[];
+    down: string[];
+}
+
+export const migrations: Migration[] = [
+    {
+        // Matches what the old initializeSchema probing converged on, so
+        // existing databases take this as a no-op.
+        id: '001_baseline',
+        description: 'Core tables',
+        up: [
+            `CREATE TABLE IF NOT EXISTS profiles (
+                id VARCHAR(255) PRIMARY KEY,
+                username VARCHAR(255),
+                email VARCHAR(255),
+                photoURL LONGTEXT,
+                bio TEXT,
+                theme VARCHAR(20) DEFAULT 'nebula',
+                is_private BOOLEAN DEFAULT FALSE,
+                tags TEXT,
+                interests TEXT
+            )`,
+            `CREATE TABLE IF NOT EXISTS posts (
+                id VARCHAR(255) PRIMARY KEY,
+                user_id VARCHAR(255),
+                domain_id VARCHAR(255),
+                content TEXT,
+                imageURL LONGTEXT,
+                created_at DATETIME
+            )`,
+            `CREATE TABLE IF NOT EXISTS likes (
+                id VARCHAR(255) PRIMARY KEY,
+                post_id VARCHAR(255),
+                user_id VARCHAR(255),
+                created_at DATETIME
+            )`,
+            `CREATE TABLE IF NOT EXISTS comments (
+                id VARCHAR(255) PRIMARY KEY,
+                post_id VARCHAR(255),
+                user_id VARCHAR(255),
+                content TEXT,
+                created_at DATETIME,
+                parent_id VARCHAR(255) DEFAULT NULL
+            )`,
+            `CREATE TABLE IF NOT EXISTS saved_domains (
+                id VARCHAR(255) PRIMARY KEY,
+                user_id VARCHAR(255),
+                domain_id VARCHAR(255),
+                domain_name VARCHAR(255),
+                saved_at DATETIME
+            )`,
+            `CREATE TABLE IF NOT EXISTS follows (
+                follower_id VARCHAR(255) NOT NULL,
+                following_id VARCHAR(255) NOT NULL,
+                status VARCHAR(20) DEFAULT 'accepted',
+                created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+                PRIMARY KEY (follower_id, following_id)
+            )`,
+            `CREATE TABLE IF NOT EXISTS chats (
+                id VARCHAR(255) PRIMARY KEY,
+                lastMessage TEXT,
+                updatedAt DATETIME
+            )`,
+            `CREATE TABLE IF NOT EXISTS chat_participants (
+                chat_id VARCHAR(255),
+                user_id VARCHAR(255),
+                status VARCHAR(20) DEFAULT 'pending',
+                PRIMARY KEY (chat_id, user_id)
+            )`,
+            `CREATE TABLE IF NOT EXISTS messages (
+                id VARCHAR(255) PRIMARY KEY,
+                chat_id VARCHAR(255),
+                sender_id VARCHAR(255),
+                text TEXT,
+                created_at DATETIME
+            )`,
+            `CREATE TABLE IF NOT EXISTS notifications (
+                id VARCHAR(255) PRIMARY KEY,
+                user_id VARCHAR(255),
+                actor_id VARCHAR(255),
+                type VARCHAR(50),
+                entity_id VARCHAR(255),
+                read_status BOOLEAN DEFAULT FALSE,
+                created_at DATETIME
+            )`
+        ],
+        down: [
+            'DROP TABLE IF EXISTS notifications',
+            'DROP TABLE IF EXISTS messages',
+            'DROP TABLE IF EXISTS chat_participants',
+            'DROP TABLE IF EXISTS chats',
+            'DROP TABLE IF EXISTS follows',
+            'DROP TABLE IF EXISTS saved_domains',
+            'DROP TABLE IF EXISTS comments',
+            'DROP TABLE IF EXISTS likes',
+            'DROP TABLE IF EXISTS posts',
+            'DROP TABLE IF EXISTS profiles'
+        ]
+    },
+    {
+        id: '002_lookup_indexes',
+        description: 'Indexes for the foreign-key lookups every list query does',
+        up: [
+            'CREATE INDEX IF NOT EXISTS idx_posts_domain ON posts (domain_id)',
+            'CREATE INDEX IF NOT EXISTS idx_posts_user ON posts (user_id)',
+            'CREATE INDEX IF NOT EXISTS idx_likes_post ON likes (post_id)',
+            'CREATE INDEX IF NOT EXISTS idx_comments_post ON comments (post_id)',
+            'CREATE INDEX IF NOT EXISTS idx_messages_chat ON messages (chat_id)',
+            'CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications (user_id)',
+            'CREATE INDEX IF NOT EXISTS idx_saved_domains_user ON saved_domains (user_id)'
+        ],
+        down: [
+            'DROP INDEX idx_saved_domains_user ON saved_domains',
+            'DROP INDEX idx_notifications_user ON notifications',
+            'DROP INDEX idx_messages_chat ON messages',
+            'DROP INDEX idx_comments_post ON comments',
+            'DROP INDEX idx_likes_post ON likes',
+            'DROP INDEX idx_posts_user ON posts',
+            'DROP INDEX idx_posts_domain ON posts'
+        ]
+    },
+    {
+        id: '003_idempotency_keys',
+        description: 'Results of replayed offline writes, keyed by the client-chosen idempotency key',
+        up: [
+            `CREATE TABLE IF NOT EXISTS idempotency_keys (
+                idempotency_key VARCHAR(255) PRIMARY KEY,
+                uid VARCHAR(255) NOT NULL,
+                operation VARCHAR(64) NOT NULL,
+                response LONGTEXT,
+                created_at DATETIME
+            )`
+        ],
+        down: ['DROP TABLE IF EXISTS idempotency_keys']
+    },
+    {
+        id: '004_keyset_indexes',
+        description: 'Composite (parent, created_at, id) indexes backing keyset pagination',
+        up: [
+            'CREATE INDEX IF NOT EXISTS idx_posts_created ON posts (created_at, id)',
+            'CREATE INDEX IF NOT EXISTS idx_comments_post_created ON comments (post_id, created_at, id)',
+            'CREATE INDEX IF NOT EXISTS idx_messages_chat_created ON messages (chat_id, created_at, id)',
+            'CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications (user_id, created_at, id)'
+        ],
+        down: [
+            'DROP INDEX idx_notifications_user_created ON notifications',
+            'DROP INDEX idx_messages_chat_created ON messages',
+            'DROP INDEX idx_comments_post_created ON comments',
+            'DROP INDEX idx_posts_created ON posts'
+        ]
+    },
+    {
+        // Backfilled here; lib/counters keeps them current from then on
+        id: '005_counters',
+        description: 'Denormalized like/comment counts on posts and follower/post/like counts on profiles',
+        up: [
+            'ALTER TABLE posts ADD COLUMN like_count INT NOT NULL DEFAULT 0',
+            'ALTER TABLE posts ADD COLUMN comment_count INT NOT NULL DEFAULT 0',
+            'ALTER TABLE profiles ADD COLUMN follower_count INT NOT NULL DEFAULT 0',
+            'ALTER TABLE profiles ADD COLUMN following_count INT NOT NULL DEFAULT 0',
+            'ALTER TABLE profiles ADD COLUMN post_count INT NOT NULL DEFAULT 0',
+            'ALTER TABLE profiles ADD COLUMN likes_received INT NOT NULL DEFAULT 0',
+            'UPDATE posts SET like_count = (SELECT COUNT(*) FROM likes l WHERE l.post_id = posts.id)',
+            'UPDATE posts SET comment_count = (SELECT COUNT(*) FROM comments c WHERE c.post_id = posts.id)',
+            `UPDATE profiles SET
+                follower_count = (SELECT COUNT(*) FROM follows f WHERE f.following_id = profiles.id),
+                following_count = (SELECT COUNT(*) FROM follows f WHERE f.follower_id = profiles.id),
+                post_count = (SELECT COUNT(*) FROM posts p WHERE p.user_id = profiles.id),
+                likes_received = (SELECT COUNT(*) FROM likes l JOIN posts p ON l.post_id = p.id WHERE p.user_id = profiles.id)`
+        ],
+        down: [
+            'ALTER TABLE profiles DROP COLUMN likes_received',
+            'ALTER TABLE profiles DROP COLUMN post_count',
+            'ALTER TABLE profiles DROP COLUMN following_count',
+            'ALTER TABLE profiles DROP COLUMN follower_count',
+            'ALTER TABLE posts DROP COLUMN comment_count',
+            'ALTER TABLE posts DROP COLUMN like_count'
+        ]
+    },
+    {
+        // `npm run extract-media` then moves the existing base64 images into
+        // the media store and empties imageURL / photoURL
+        id: '006_media_ids',
+        description: 'Media store ids for post images and profile photos',
+        up: [
+            'ALTER TABLE posts ADD COLUMN image_id VARCHAR(80)',
+            'ALTER TABLE profiles ADD COLUMN photo_id VARCHAR(80)'
+        ],
+        down: [
+            'ALTER TABLE profiles DROP COLUMN photo_id',
+            'ALTER TABLE posts DROP COLUMN image_id'
+        ]
+    },
+    {
+        // Filled by the upload pipeline in lib/server/media
+        id: '007_media',
+        description: 'Dimensions and blur placeholders of stored images',
+        up: [
+            `CREATE TABLE IF NOT EXISTS media (
+                id VARCHAR(80) PRIMARY KEY,
+                width INT NOT NULL,
+                height INT NOT NULL,
+                placeholder TEXT,
+                created_at DATETIME
+            )`
+        ],
+        down: [
+            'DROP TABLE IF EXISTS media'
+        ]
+    },
+    {
+        // posts.image_id stays as the cover: the first attachment
+        id: '008_post_attachments',
+        description: 'Ordered image attachments with alt text on posts',
+        up: [
+            `CREATE TABLE IF NOT EXISTS post_attachments (
+                post_id VARCHAR(255) NOT NULL,
+                position INT NOT NULL,
+                media_id VARCHAR(80) NOT NULL,
+                alt_text TEXT,
+                PRIMARY KEY (post_id, position)
+            )`,
+            'INSERT INTO post_attachments (post_id, position, media_id) SELECT id, 0, image_id FROM posts WHERE image_id IS NOT NULL'
+        ],
+        down: [
+            'DROP TABLE IF EXISTS post_attachments'
+        ]
+    },
+    {
+        id: '009_domains',
+        description: 'Shared domain taxonomy: one row per node, keyed by path',
+        up: [
+            `CREATE TABLE IF NOT EXISTS domains (
+                id VARCHAR(255) PRIMARY KEY,
+                parent_id VARCHAR(255),
+                name VARCHAR(255) NOT NULL,
+                position INT NOT NULL DEFAULT 0,
+                source VARCHAR(10) NOT NULL,
+                generator VARCHAR(100),
+                variant INT NOT NULL DEFAULT 0,
+                created_by VARCHAR(255),
+                created_at DATETIME
+            )`,
+            'CREATE INDEX IF NOT EXISTS idx_domains_parent ON domains (parent_id)'
+        ],
+        down: [
+            'DROP INDEX idx_domains_parent ON domains',
+            'DROP TABLE IF EXISTS domains'
+        ]
+    },
+    {
+        // Written and read only by the AI gateway (lib/server/ai)
+        id: '010_ai_cache',
+        description: 'Model answers shared across users and server instances',
+        up: [
+            `CREATE TABLE IF NOT EXISTS ai_cache (
+                cache_key VARCHAR(64) PRIMARY KEY,
+                generator VARCHAR(255) NOT NULL,
+                response TEXT NOT NULL,
+                expires_at BIGINT NOT NULL
+            )`
+        ],
+        down: [
+            'DROP TABLE IF EXISTS ai_cache'
+        ]
+    },
+    {
+        id: '011_domain_sources',
+        description: 'Summary and source page for domains found by web search',
+        up: [
+            'ALTER TABLE domains ADD COLUMN summary TEXT',
+            'ALTER TABLE domains ADD COLUMN source_url VARCHAR(1024)'
+        ],
+        down: [
+            'ALTER TABLE domains DROP COLUMN source_url',
+            'ALTER TABLE domains DROP COLUMN summary'
+        ]
+    },
+    {
+        id: '012_domain_profiles',
+        description: 'Generated profiles for domain info cards, one per domain path',
+        up: [
+            `CREATE TABLE IF NOT EXISTS domain_profiles (
+                domain_id VARCHAR(255) PRIMARY KEY,
+                profile TEXT NOT NULL,
+                version INT NOT NULL,
+                revision INT NOT NULL DEFAULT 0,
+                generator VARCHAR(100),
+                updated_by VARCHAR(255),
+                updated_at DATETIME
+            )`
+        ],
+        down: [
+            'DROP TABLE IF EXISTS domain_profiles'
+        ]
+    },
+    {
+        // See lib/taxonomy
+        id: '013_domain_aliases',
+        description: 'Domain name aliases and redirects for merged domains',
+        up: [
+            `CREATE TABLE IF NOT EXISTS domain_aliases (
+                alias VARCHAR(255) PRIMARY KEY,
+                name VARCHAR(255) NOT NULL,
+                created_at DATETIME
+            )`,
+            `CREATE TABLE IF NOT EXISTS domain_redirects (
+                from_id VARCHAR(255) PRIMARY KEY,
+                to_id VARCHAR(255) NOT NULL,
+                created_at DATETIME
+            )`,
+            `INSERT IGNORE INTO domain_aliases (alias, name) VALUES
+                ('ai', 'Artificial Intelligence'),
+                ('ml', 'Machine Learning'),
+                ('cs', 'Computer Science'),
+                ('math', 'Mathematics'),
+                ('maths', 'Mathematics'),
+                ('econ', 'Economics'),
+                ('psych', 'Psychology'),
+                ('ux', 'User Experience'),
+                ('vr', 'Virtual Reality')`
+        ],
+        down: [
+            'DROP TABLE IF EXISTS domain_redirects',
+            'DROP TABLE IF EXISTS domain_aliases'
+        ]
+    },
+    {
+        // A domain's first parent stays in domains.parent_id
+        id: '014_domain_links',
+        description: 'Further parents of domains that belong in more than one place',
+        up: [
+            `CREATE TABLE IF NOT EXISTS domain_links (
+                parent_id VARCHAR(255) NOT NULL,
+                child_id VARCHAR(255) NOT NULL,
+                position INT NOT NULL DEFAULT 0,
+                created_by VARCHAR(255),
+                created_at DATETIME,
+                PRIMARY KEY (parent_id, child_id)
+            )`,
+            'CREATE INDEX IF NOT EXISTS idx_domain_links_child ON domain_links (child_id)'
+        ],
+        down: [
+            'DROP INDEX idx_domain_links_child ON domain_links',
+            'DROP TABLE IF EXISTS domain_links'
+        ]
+    },
+    {
+        // Users in sorted order (user_a < user_b); where two chats already
+        // exist for a pair, the more recently active one is kept
+        id: '015_chat_pairs',
+        description: 'One chat per pair of users',
+        up: [
+            `CREATE TABLE IF NOT EXISTS chat_pairs (
+                user_a VARCHAR(255) NOT NULL,
+                user_b VARCHAR(255) NOT NULL,
+                chat_id VARCHAR(255) NOT NULL,
+                PRIMARY KEY (user_a, user_b)
+            )`,
+            `INSERT IGNORE INTO chat_pairs (user_a, user_b, chat_id)
+                SELECT c1.user_id, c2.user_id, c1.chat_id
+                FROM chat_participants c1
+                JOIN chat_participants c2 ON c1.chat_id = c2.chat_id AND c1.user_id < c2.user_id
+                JOIN chats c ON c.id = c1.chat_id
+                ORDER BY c.updatedAt DESC`
+        ],
+        down: [
+            'DROP TABLE IF EXISTS chat_pairs'
+        ]
+    },
+    {
+        id: '016_profile_keyset_indexes',
+        description: 'Keyset indexes for the post lists on profiles (own posts, liked posts)',
+        up: [
+            'CREATE INDEX IF NOT EXISTS idx_posts_user_created ON posts (user_id, created_at, id)',
+            'CREATE INDEX IF NOT EXISTS idx_likes_user_created ON likes (user_id, created_at, id)'
+        ],
+        down: [
+            'DROP INDEX idx_likes_user_created ON likes',
+            'DROP INDEX idx_posts_user_created ON posts'
+        ]
+    }
+];
+
+const LEDGER_DDL = 'CREATE TABLE IF NOT EXISTS schema_migrations (id VARCHAR(255) PRIMARY KEY, applied_at DATETIME)';
+
+export interface MigrationStep {
+    id: string;
+    direction: 'up' | 'down';
+    statements: string[];
+}
+
+export interface MigrateOptions {
+    direction?: 'up' | 'down';
+    // How many migrations to apply (up: all pending by default) or roll back (down: 1 by default)
+    steps?: number;
+    // Plan only: report the DDL that would run without touching the schema
+    dryRun?: boolean;
+    log?: (message: string) => void;
+}
+
+// Ids recorded in `schema_migrations`; empty if the ledger doesn't exist yet
+export const appliedMigrations = async (execute: Executor): Promise<string[]> => {
+    try {
+        const rows = await execute('SELECT id FROM schema_migrations ORDER BY id');
+        return rows.map((r: any) => r.id);
+    } catch {
+        return [];
+    }
+};
+
+export const planMigrations = async (execute: Executor, { direction = 'up', steps }: MigrateOptions = {}): Promise<MigrationStep[]> => {
+    const applied = new Set(await appliedMigrations(execute));
+
+    if (direction === 'up') {
+        const pending = migrations.filter(m => !applied.has(m.id));
+        return pending.slice(0, steps ?? pending.length).map(m => ({ id: m.id, direction, statements: m.up }));
+    }
+
+    const rollback = migrations.filter(m => applied.has(m.id)).reverse();
+    return rollback.slice(0, steps ?? 1).map(m => ({ id: m.id, direction, statements: m.down }));
+};
+
+/**
+ * Applies (or rolls back) migrations in order and records each one in
+ * `schema_migrations` once all of its statements succeed. DDL is not
+ * transactional in TiDB, so a failure stops the run at that migration with
+ * the ledger still pointing at the last one that completed.
+ */
+export const migrate = async (execute: Executor, options: MigrateOptions = {}): Promise<MigrationStep[]> => {
+    const { dryRun = false, log = () => { } } = options;
+    const plan = await planMigrations(execute, options);
+
+    if (dryRun) {
+        plan.forEach(step => {
+            log(`-- ${step.direction} ${step.id}`);
+            step.statements.forEach(sql => log(`${sql.replace(/\s+/g, ' ').trim()};`));
+        });
+        return plan;
+    }
+
+    if (plan.length > 0) await execute(LEDGER_DDL);
+
+    for (const step of plan) {
+        log(`${step.direction === 'up' ? 'Applying' : 'Reverting'} ${step.id}`);
+        for (const sql of step.statements) {
+            try {
+                await execute(sql);
+            } catch (err) {
+                throw new Error(`Migration ${step.id} (${step.direction}) failed: ${(err as Error).message}`);
+            }
+        }
+        if (step.direction === 'up') {
+            await execute('INSERT INTO schema_migrations (id, applied_at) VALUES (?, ?)', [step.id, new Date().toISOString()]);
+        } else {
+            await execute('DELETE FROM schema_migrations WHERE id = ?', [step.id]);
+        }
+    }
+
+    return plan;
+};
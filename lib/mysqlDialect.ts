@@ -0,0 +1,85 @@
+// -----------------------------------------------------------------------------
+// MYSQL -> SQLITE DIALECT SHIM
+// -----------------------------------------------------------------------------
+// Operations are written once in TiDB's (MySQL) dialect. In local mode they run
+// against SQLite, so the handful of MySQL-only constructs the app uses are
+// rewritten here. Everything else (LIKE, LOWER, EXISTS, COUNT, GROUP BY,
+// LIMIT, ...) already means the same thing in both.
+// -----------------------------------------------------------------------------
+
+// Splits `a, f(b, c), 'x,y'` on top-level commas only
+const splitArgs = (body: string): string[] => {
+    const args: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let start = 0;
+    for (let i = 0; i < body.length; i++) {
+        const ch = body[i];
+        if (quote) {
+            if (ch === quote) quote = null;
+        } else if (ch === "'" || ch === '"') {
+            quote = ch;
+        } else if (ch === '(') {
+            depth++;
+        } else if (ch === ')') {
+            depth--;
+        } else if (ch === ',' && depth === 0) {
+            args.push(body.slice(start, i).trim());
+            start = i + 1;
+        }
+    }
+    args.push(body.slice(start).trim());
+    return args;
+};
+
+// CONCAT(a, b, ...) -> (a || b || ...), innermost calls first
+const rewriteConcat = (sql: string): string => {
+    const pattern = /\bCONCAT\s*\(/i;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(sql))) {
+        const open = match.index + match[0].length;
+        let depth = 1;
+        let quote: string | null = null;
+        let close = open;
+        for (; close < sql.length && depth > 0; close++) {
+            const ch = sql[close];
+            if (quote) {
+                if (ch === quote) quote = null;
+            } else if (ch === "'" || ch === '"') {
+                quote = ch;
+            } else if (ch === '(') {
+                depth++;
+            } else if (ch === ')') {
+                depth--;
+            }
+        }
+        if (depth !== 0) break; // Unbalanced; let SQLite report it
+        const body = sql.slice(open, close - 1);
+        sql = `${sql.slice(0, match.index)}(${splitArgs(rewriteConcat(body)).join(' || ')})${sql.slice(close)}`;
+    }
+    return sql;
+};
+
+export const toSqlite = (sql: string): string => {
+    let s = sql;
+
+    // Index names are global in SQLite, per-table in MySQL
+    s = s.replace(/^\s*DROP INDEX (\w+) ON \w+\s*$/i, 'DROP INDEX $1');
+
+    s = s.replace(/\bINSERT\s+IGNORE\s+INTO\b/i, 'INSERT OR IGNORE INTO');
+
+    // Upserts: MySQL's VALUES(col) is SQLite's excluded.col
+    const upsert = /\bON\s+DUPLICATE\s+KEY\s+UPDATE\b/i.exec(s);
+    if (upsert) {
+        const updates = s.slice(upsert.index + upsert[0].length).replace(/\bVALUES\s*\(\s*(\w+)\s*\)/gi, 'excluded.$1');
+        s = `${s.slice(0, upsert.index)}ON CONFLICT DO UPDATE SET${updates}`;
+    }
+
+    s = s.replace(/\bNOW\(\)/gi, 'CURRENT_TIMESTAMP');
+
+    return rewriteConcat(s);
+};
+
+// sql.js binds booleans as 0/1 but rejects undefined
+export const toSqliteParams = (args: any[] = []): any[] =>
+    args.map(arg => (arg === undefined ? null : arg instanceof Date ? arg.toISOString() : arg));
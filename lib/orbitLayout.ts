@@ -0,0 +1,218 @@
+// -----------------------------------------------------------------------------
+// ORBIT LAYOUT
+// -----------------------------------------------------------------------------
+// Where the children of the explored domain sit around it. Coordinates are
+// percentages of the (square) explore area, the centre at 50,50:
+// - children push each other apart until they don't overlap
+// - AI and user children are pulled towards the centre, `web` ones held on
+//   an outer ring (WEB_RING_RADIUS)
+// - nothing overlaps the centre sphere
+//
+// Overlaps are found through a quadtree rebuilt every iteration, so an
+// iteration is O(n log n) rather than comparing every pair.
+//
+// Relaxation is incremental: children that already have a position are
+// `settled`. They are no longer pulled and give way only a little to
+// newcomers, which find room around them, so "load more" doesn't reshuffle
+// what is on screen. It runs in a worker (orbitLayout.worker.ts,
+// see hooks/useOrbitLayout) and needs nothing from the DOM.
+// -----------------------------------------------------------------------------
+
+export interface OrbitNode {
+    id: string;
+    radius: number;
+    web: boolean;
+    // Where it starts: where it is now, or seedPosition for a newcomer
+    x: number;
+    y: number;
+    // Already in place: no longer pulled, only pushed aside by newcomers
+    settled?: boolean;
+}
+
+export interface OrbitLayoutRequest {
+    nodes: OrbitNode[];
+    centerRadius: number;
+}
+
+export type OrbitPositions = Record<string, { x: number; y: number }>;
+
+// Distance from the centre of the ring that 'web' domains settle on, outside
+// the AI-generated core
+export const WEB_RING_RADIUS = 40;
+
+// A fresh layout settles in FULL_ITERATIONS; adding to a settled one needs fewer
+const FULL_ITERATIONS = 300;
+const INCREMENTAL_ITERATIONS = 120;
+const GAP = 2;
+const CENTER_GAP = 4;
+const PULL = 0.015;
+const RING_PULL = 0.05;
+// How much of an overlap between a settled node and a newcomer the settled one gives
+const SETTLED_SHARE = 0.1;
+
+/**
+ * Where a newcomer starts: web results on their ring, the rest near the
+ * centre, or when others are already in place, just outside them (`outside`
+ * is how far out they reach), so they drift in rather than scatter them.
+ */
+export const seedPosition = (web: boolean, outside = 0) => {
+    const angle = Math.random() * 2 * Math.PI;
+    if (web) return { x: 50 + WEB_RING_RADIUS * Math.cos(angle), y: 50 + WEB_RING_RADIUS * Math.sin(angle) };
+    if (outside > 0) return { x: 50 + outside * Math.cos(angle), y: 50 + outside * Math.sin(angle) };
+    return { x: 50 + (Math.random() - 0.5) * 30, y: 50 + (Math.random() - 0.5) * 30 };
+};
+
+// How far from the centre the non-web `nodes` reach
+export const extentOf = (nodes: { web: boolean; x: number; y: number; radius: number }[]) =>
+    Math.max(0, ...nodes.filter(n => !n.web).map(n => Math.hypot(n.x - 50, n.y - 50) + n.radius));
+
+// -----------------------------------------------------------------------------
+// QUADTREE
+// -----------------------------------------------------------------------------
+
+interface Body {
+    index: number;
+    radius: number;
+    web: boolean;
+    settled: boolean;
+    x: number;
+    y: number;
+}
+
+// Bodies are stored with the position they had when the tree was built
+interface Entry {
+    body: Body;
+    x: number;
+    y: number;
+}
+
+interface Quad {
+    x0: number;
+    y0: number;
+    x1: number;
+    y1: number;
+    entries: Entry[];
+    children: Quad[] | null;
+}
+
+const QUAD_CAPACITY = 8;
+const QUAD_MAX_DEPTH = 12;
+
+const quad = (x0: number, y0: number, x1: number, y1: number): Quad => ({ x0, y0, x1, y1, entries: [], children: null });
+
+const childFor = (node: Quad, entry: Entry) => {
+    const midX = (node.x0 + node.x1) / 2;
+    const midY = (node.y0 + node.y1) / 2;
+    return node.children![(entry.x < midX ? 0 : 1) + (entry.y < midY ? 0 : 2)];
+};
+
+const insert = (node: Quad, entry: Entry, depth: number) => {
+    if (node.children) {
+        insert(childFor(node, entry), entry, depth + 1);
+        return;
+    }
+    node.entries.push(entry);
+    if (node.entries.length <= QUAD_CAPACITY || depth >= QUAD_MAX_DEPTH) return;
+
+    const midX = (node.x0 + node.x1) / 2;
+    const midY = (node.y0 + node.y1) / 2;
+    node.children = [
+        quad(node.x0, node.y0, midX, midY), quad(midX, node.y0, node.x1, midY),
+        quad(node.x0, midY, midX, node.y1), quad(midX, midY, node.x1, node.y1),
+    ];
+    const entries = node.entries;
+    node.entries = [];
+    entries.forEach(e => insert(childFor(node, e), e, depth + 1));
+};
+
+const buildQuadtree = (bodies: Body[]): Quad => {
+    let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+    for (const b of bodies) {
+        x0 = Math.min(x0, b.x); y0 = Math.min(y0, b.y);
+        x1 = Math.max(x1, b.x); y1 = Math.max(y1, b.y);
+    }
+    // Square, so cells stay square as they split
+    const size = Math.max(x1 - x0, y1 - y0, 1);
+    const root = quad(x0, y0, x0 + size, y0 + size);
+    bodies.forEach(body => insert(root, { body, x: body.x, y: body.y }, 0));
+    return root;
+};
+
+// Calls `visit` for every body stored inside the box
+const query = (node: Quad, x0: number, y0: number, x1: number, y1: number, visit: (body: Body) => void) => {
+    if (node.x0 > x1 || node.x1 < x0 || node.y0 > y1 || node.y1 < y0) return;
+    for (const e of node.entries) {
+        if (e.x >= x0 && e.x <= x1 && e.y >= y0 && e.y <= y1) visit(e.body);
+    }
+    node.children?.forEach(child => query(child, x0, y0, x1, y1, visit));
+};
+
+// -----------------------------------------------------------------------------
+// SOLVER
+// -----------------------------------------------------------------------------
+
+const separate = (a: Body, b: Body) => {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    const minDistance = a.radius + b.radius + GAP;
+    if (distance >= minDistance || distance === 0) return;
+
+    // Shared equally, unless one is settled: then the newcomer does most of the moving
+    const share = a.settled === b.settled ? 0.5 : a.settled ? SETTLED_SHARE : 1 - SETTLED_SHARE;
+    const push = (minDistance - distance) / distance;
+    a.x -= dx * push * share;
+    a.y -= dy * push * share;
+    b.x += dx * push * (1 - share);
+    b.y += dy * push * (1 - share);
+};
+
+const attract = (body: Body, centerRadius: number) => {
+    const dx = 50 - body.x;
+    const dy = 50 - body.y;
+    if (body.settled) {
+        // Stays where it is
+    } else if (body.web) {
+        // Held on the ring: pulled in when outside it, pushed out when inside
+        const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+        const force = ((distance - WEB_RING_RADIUS) / distance) * RING_PULL;
+        body.x += dx * force;
+        body.y += dy * force;
+    } else {
+        body.x += dx * PULL;
+        body.y += dy * PULL;
+    }
+
+    const distance = Math.sqrt(dx * dx + dy * dy);
+    const minDistance = centerRadius + body.radius + CENTER_GAP;
+    if (distance < minDistance && distance > 0) {
+        const push = (minDistance - distance) / distance;
+        body.x -= dx * push;
+        body.y -= dy * push;
+    }
+};
+
+// Relaxes `nodes` around the centre sphere; where each one ends up, by id
+export const relaxLayout = ({ nodes, centerRadius }: OrbitLayoutRequest): OrbitPositions => {
+    const bodies: Body[] = nodes.map(({ radius, web, x, y, settled = false }, index) => ({ index, radius, web, settled, x, y }));
+    const iterations = bodies.some(b => b.settled) ? INCREMENTAL_ITERATIONS : FULL_ITERATIONS;
+    const maxRadius = Math.max(0, ...bodies.map(b => b.radius));
+
+    for (let i = 0; i < iterations; i++) {
+        const tree = buildQuadtree(bodies);
+        for (const body of bodies) {
+            const reach = body.radius + maxRadius + GAP;
+            query(tree, body.x - reach, body.y - reach, body.x + reach, body.y + reach, other => {
+                // Each pair once, in the same order every time
+                if (other.index > body.index) separate(body, other);
+            });
+        }
+        bodies.forEach(body => attract(body, centerRadius));
+    }
+
+    const positions: OrbitPositions = {};
+    bodies.forEach(body => {
+        positions[nodes[body.index].id] = { x: body.x, y: body.y };
+    });
+    return positions;
+};
@@ -0,0 +1,14 @@
+import { relaxLayout, OrbitLayoutRequest } from './orbitLayout';
+
+// Runs relaxLayout off the main thread. Each request carries a sequence
+// number, echoed back so the caller can drop answers it no longer needs.
+
+export interface OrbitLayoutMessage {
+    seq: number;
+    request: OrbitLayoutRequest;
+}
+
+self.onmessage = (event: MessageEvent<OrbitLayoutMessage>) => {
+    const { seq, request } = event.data;
+    self.postMessage({ seq, positions: relaxLayout(request) });
+};
@@ -0,0 +1,169 @@
+import { call } from './rpc/client';
+import { nameOf } from './taxonomy';
+import { ProfileTab, SearchMode, ViewState, ViewType } from '../types';
+
+// -----------------------------------------------------------------------------
+// ROUTES
+// -----------------------------------------------------------------------------
+// Every ViewState has a URL, so any view can be bookmarked, shared and
+// reached with the back button:
+//
+//   /  or  /explore                  Explore, top level
+//   /explore/Science/Physics         Explore, at that route
+//   /d/Science/Physics               a domain's posts, by domain id
+//   /d/Science/Physics/p/<postId>    ... scrolled to one post
+//   /u/<username>                    a profile (?tab=likes|saved|comments)
+//   /chat/<chatId>
+//   /inbox, /notifications, /feed, /settings, /auth
+//   /search?q=&mode=
+//
+// A domain reached by a route other than its id (a linked domain, see
+// lib/taxonomy) keeps that route in ?via=. The profile overlay is
+// ?profile=<username> on any of them.
+//
+// Views name users by id, URLs by username. A user without a username yet
+// is /u?id=<userId> (?profileId=<userId> for the overlay).
+// -----------------------------------------------------------------------------
+
+const PAGES: Record<string, ViewType> = {
+    inbox: ViewType.Inbox,
+    notifications: ViewType.Notifications,
+    feed: ViewType.Feed,
+    settings: ViewType.Settings,
+    auth: ViewType.Auth,
+};
+
+const TABS: ProfileTab[] = ['posts', 'likes', 'saved', 'comments'];
+const MODES: SearchMode[] = ['frequency', 'signal', 'people'];
+
+// Usernames by user id. Only found ones are kept: a new user picks one later.
+const usernames = new Map<string, string>();
+
+const usernameOf = async (userId: string): Promise<string | undefined> => {
+    if (!usernames.has(userId)) {
+        const profile = await call('profiles.get', { id: userId });
+        if (profile?.username) usernames.set(userId, profile.username);
+    }
+    return usernames.get(userId);
+};
+
+const userIdOf = async (username: string): Promise<string | undefined> => {
+    const profile = await call('profiles.byUsername', { username });
+    if (profile?.username) usernames.set(profile.id, profile.username);
+    return profile?.id;
+};
+
+const pathOf = (segments: string[]) => `/${segments.map(encodeURIComponent).join('/')}`;
+
+const withQuery = (path: string, params: Record<string, string | undefined>) => {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+        if (value) query.set(key, value);
+    });
+    const search = query.toString();
+    return search ? `${path}?${search}` : path;
+};
+
+const viewPath = async (view: ViewState, uid?: string): Promise<[string, Record<string, string | undefined>]> => {
+    switch (view.type) {
+        case ViewType.Explore:
+            return [view.initialPath?.length ? pathOf(['explore', ...view.initialPath]) : '/', {}];
+        case ViewType.Post: {
+            const route = view.route?.join('/');
+            const path = pathOf(['d', ...view.domainId.split('/'), ...(view.focusedPostId ? ['p', view.focusedPostId] : [])]);
+            return [path, { via: route !== view.domainId ? route : undefined }];
+        }
+        case ViewType.Profile: {
+            const userId = view.userId ?? uid;
+            const username = userId && await usernameOf(userId);
+            const tab = view.initialTab !== 'posts' ? view.initialTab : undefined;
+            if (username) return [pathOf(['u', username]), { tab }];
+            return ['/u', { id: view.userId, tab }];
+        }
+        case ViewType.Chat:
+            return [view.chatId ? pathOf(['chat', view.chatId]) : '/inbox', {}];
+        case ViewType.Search:
+            return ['/search', { q: view.query, mode: view.mode !== 'frequency' ? view.mode : undefined }];
+        default:
+            return [`/${Object.keys(PAGES).find(page => PAGES[page] === view.type)}`, {}];
+    }
+};
+
+/**
+ * The URL of `view`. `uid` is the signed-in user, whose own profile is
+ * `/u/<their username>` too.
+ */
+export const viewToUrl = async (view: ViewState, uid?: string): Promise<string> => {
+    const [path, params] = await viewPath(view, uid);
+    if (view.overlayProfileId) {
+        const username = await usernameOf(view.overlayProfileId);
+        params[username ? 'profile' : 'profileId'] = username ?? view.overlayProfileId;
+    }
+    return withQuery(path, params);
+};
+
+const pathView = async (segments: string[], query: URLSearchParams): Promise<ViewState> => {
+    const [page, ...rest] = segments;
+    switch (page) {
+        case undefined:
+        case 'explore':
+            return { type: ViewType.Explore, initialPath: rest.length ? rest : undefined };
+        case 'd': {
+            // A trailing "p/<postId>" is the post, so the id "X/p/Y" (a
+            // child of a domain called "p") reads as post Y of X
+            const post = rest.length > 2 && rest[rest.length - 2] === 'p' ? rest[rest.length - 1] : undefined;
+            const domainId = (post ? rest.slice(0, -2) : rest).join('/');
+            if (!domainId) break;
+            return {
+                type: ViewType.Post,
+                domainId,
+                domainName: nameOf(domainId),
+                focusedPostId: post,
+                route: query.get('via')?.split('/') ?? undefined,
+            };
+        }
+        case 'u': {
+            const tab = TABS.find(t => t === query.get('tab'));
+            const userId = rest[0] ? await userIdOf(rest[0]) : query.get('id') ?? undefined;
+            if (rest[0] && !userId) break;
+            return { type: ViewType.Profile, userId, initialTab: tab };
+        }
+        case 'chat': {
+            // Chat needs both ends; the other one is whoever isn't the caller
+            const partner = rest[0] ? await call('chats.partner', { chatId: rest[0] }) : undefined;
+            if (!partner) return { type: ViewType.Inbox };
+            return { type: ViewType.Chat, chatId: rest[0], otherUserId: partner.id };
+        }
+        case 'search':
+            return { type: ViewType.Search, query: query.get('q') ?? undefined, mode: MODES.find(m => m === query.get('mode')) };
+        default:
+            if (PAGES[page]) return { type: PAGES[page] } as ViewState;
+    }
+    // Anything unknown (or no longer there) lands on Explore
+    return { type: ViewType.Explore };
+};
+
+/**
+ * The view at `url` (a path with an optional query, as in `router.asPath`).
+ * Users and chats named in it are looked up, so this can fail like any RPC.
+ */
+export const urlToView = async (url: string): Promise<ViewState> => {
+    const [path, search = ''] = url.split('#')[0].split('?');
+    const segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+    const query = new URLSearchParams(search);
+    const view = await pathView(segments, query);
+
+    const overlay = query.get('profile');
+    const overlayProfileId = overlay ? await userIdOf(overlay) : query.get('profileId') ?? undefined;
+    return overlayProfileId ? { ...view, overlayProfileId } : view;
+};
+
+/**
+ * Whether going from `from` to `to` refines the same history entry rather
+ * than adding one: typing a search, switching a profile's tab.
+ */
+export const replacesEntry = (from: ViewState, to: ViewState) => {
+    if (from.overlayProfileId !== to.overlayProfileId) return false;
+    if (from.type === ViewType.Search && to.type === ViewType.Search) return true;
+    return from.type === ViewType.Profile && to.type === ViewType.Profile && from.userId === to.userId;
+};
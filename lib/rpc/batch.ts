@@ -0,0 +1,25 @@
+// -----------------------------------------------------------------------------
+// RPC BATCHES
+// -----------------------------------------------------------------------------
+// POST /api/rpc/batch  { calls: [{ op, input }, ...] }
+//   ->  { results: [{ data } | { error: { status, message } }, ...] }
+//
+// Many reads in one HTTP round trip. Results come back in call order and
+// each one succeeds or fails on its own. The client builds these itself by
+// coalescing reads made in the same tick (see lib/rpc/client), so components
+// never deal with batches directly.
+//
+// Writes are refused: they go one at a time so the outbox and
+// Idempotency-Key handling stay per write.
+// -----------------------------------------------------------------------------
+
+export const MAX_BATCH_SIZE = 100;
+
+export interface BatchCall {
+    op: string;
+    input: unknown;
+}
+
+export type BatchResult =
+    | { data: unknown }
+    | { error: { status: number; message: string } };
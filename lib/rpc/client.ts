@@ -0,0 +1,250 @@
+import { operations, OperationName, InputOf, OutputOf } from './operations';
+import { runOperation, OperationContext } from './operation';
+import { setConnectionMode, subscribeToConnectionMode } from '../tidbClient';
+import { localExecute } from '../localDb';
+import { enqueue, flushOutbox, hasPendingWrites, retryFailed } from './outbox';
+import { MAX_BATCH_SIZE, BatchCall, BatchResult } from './batch';
+
+// -----------------------------------------------------------------------------
+// RPC CLIENT
+// -----------------------------------------------------------------------------
+// Components call named operations instead of sending SQL:
+//
+//   const posts = await call('posts.listByDomain', { domainId });
+//
+// Strategy:
+// 1. POST to /api/rpc/<name> (Real TiDB via Next.js).
+// 2. If the API is unreachable (Network Error / 404 / 5xx), run the same
+//    operation in the browser against the local SQLite database.
+// A 4xx other than a bare 404 means the request itself was rejected, so it
+// is surfaced as an RpcError instead of silently falling back.
+// 3. Writes that ran locally are queued in the outbox and replayed, in order,
+//    once the API answers again.
+// Operations that generate on the server (`needsServer`) have no local mode:
+// they fail while the API is unreachable, and are never queued.
+//
+// Reads made in the same tick are coalesced into one POST to /api/rpc/batch
+// (identical ones are sent once), so a feed that asks for comments on 50
+// posts costs one round trip rather than 50. Each read still settles, or
+// falls back to local mode, on its own.
+//
+// Every request carries the signed-in user's Firebase ID token; the server
+// derives the caller from it, so inputs never name "who I am".
+// -----------------------------------------------------------------------------
+
+export class RpcError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'RpcError';
+    }
+}
+
+// The subset of firebase/auth's User we need
+interface Credentials {
+    uid: string;
+    email: string | null;
+    getIdToken: () => Promise<string>;
+}
+
+let credentials: Credentials | null = null;
+
+// Called by AuthContext whenever the Firebase auth state changes
+export const setCredentials = (user: Credentials | null) => {
+    credentials = user;
+    // The outbox only replays a user's writes with that user's token
+    if (user) syncOutbox();
+};
+
+const localContext = (): OperationContext => ({
+    uid: credentials?.uid ?? null,
+    email: credentials?.email ?? undefined
+});
+
+const requestHeaders = async (): Promise<Record<string, string>> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Firebase caches the token and refreshes it shortly before expiry
+    if (credentials) headers.Authorization = `Bearer ${await credentials.getIdToken()}`;
+    return headers;
+};
+
+// Why a request failed: RpcError when the server rejected it, a plain
+// Error when it couldn't be reached
+const failure = async (response: Response): Promise<Error> => {
+    // A JSON 404 comes from an operation ("no such post"); anything else
+    // means the API route itself isn't deployed
+    const isJson = (response.headers.get('content-type') || '').includes('application/json');
+    if (response.status >= 400 && response.status < 500 && (response.status !== 404 || isJson)) {
+        const json = await response.json().catch(() => ({}));
+        return new RpcError(response.status, json.message || `API Error: ${response.status}`);
+    }
+
+    // Recieved an error from the server (e.g. 500 or 404)
+    return new Error(`API Error: ${response.status}`);
+};
+
+// Sends one operation to the API. Throws RpcError when the server rejected
+// the request, a plain Error when it couldn't be reached.
+async function remote<K extends OperationName>(name: K, input: InputOf<K>, idempotencyKey?: string): Promise<OutputOf<K>> {
+    const headers = await requestHeaders();
+    if (idempotencyKey) headers['Idempotency-Key'] = idempotencyKey;
+
+    const response = await fetch(`/api/rpc/${name}`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ input })
+    });
+    if (!response.ok) throw await failure(response);
+
+    const json = await response.json();
+    return json.data as OutputOf<K>;
+}
+
+// Same contract as `remote`, for many reads in one request: one result per
+// call, in order, each of which may be an error of its own
+async function remoteBatch(calls: BatchCall[]): Promise<BatchResult[]> {
+    const response = await fetch('/api/rpc/batch', {
+        method: 'POST',
+        headers: await requestHeaders(),
+        body: JSON.stringify({ calls })
+    });
+    if (!response.ok) throw await failure(response);
+
+    const json = await response.json();
+    return json.results as BatchResult[];
+}
+
+// --- Read coalescing ---
+
+interface PendingRead {
+    call: BatchCall;
+    waiters: { resolve: (data: any) => void; reject: (err: any) => void }[];
+}
+
+let pendingReads = new Map<string, PendingRead>();
+let flushScheduled = false;
+
+// A 5xx in a batch slot means the server couldn't run that read: treat it
+// as unreachable (local fallback), like a failed single request
+const settle = (read: PendingRead, result: BatchResult) => {
+    if ('data' in result) {
+        read.waiters.forEach(w => w.resolve(result.data));
+        return;
+    }
+    const { status, message } = result.error;
+    const error = status < 500 ? new RpcError(status, message) : new Error(`API Error: ${status}`);
+    read.waiters.forEach(w => w.reject(error));
+};
+
+const sendReads = async (reads: PendingRead[]) => {
+    try {
+        // Not worth the batch envelope for a lone read
+        const results = reads.length === 1
+            ? [{ data: await remote(reads[0].call.op as OperationName, reads[0].call.input as any) }]
+            : await remoteBatch(reads.map(r => r.call));
+        reads.forEach((read, i) => settle(read, results[i] ?? { error: { status: 502, message: 'Missing batch result' } }));
+    } catch (err) {
+        reads.forEach(read => read.waiters.forEach(w => w.reject(err)));
+    }
+};
+
+const flushReads = () => {
+    const reads = Array.from(pendingReads.values());
+    pendingReads = new Map();
+    flushScheduled = false;
+    for (let i = 0; i < reads.length; i += MAX_BATCH_SIZE) {
+        sendReads(reads.slice(i, i + MAX_BATCH_SIZE));
+    }
+};
+
+// Queues a read for the next batch; resolves like `remote` would
+const remoteRead = <K extends OperationName>(name: K, input: InputOf<K>): Promise<OutputOf<K>> =>
+    new Promise((resolve, reject) => {
+        const key = `${name}:${JSON.stringify(input)}`;
+        let read = pendingReads.get(key);
+        if (!read) {
+            read = { call: { op: name, input }, waiters: [] };
+            pendingReads.set(key, read);
+        }
+        read.waiters.push({ resolve, reject });
+
+        if (!flushScheduled) {
+            flushScheduled = true;
+            setTimeout(flushReads, 0);
+        }
+    });
+
+// Replays writes made in local mode (see lib/rpc/outbox)
+const syncOutbox = () => {
+    if (!credentials) return Promise.resolve();
+    return flushOutbox(credentials.uid, async item => {
+        const data = await remote(item.name, item.input, item.key);
+        setConnectionMode('cloud');
+        return data;
+    });
+};
+
+// Re-queues a write the server rejected and tries it again right away
+export const retryWrite = (key: string) => {
+    retryFailed(key);
+    return syncOutbox();
+};
+
+export async function call<K extends OperationName>(name: K, input: InputOf<K>): Promise<OutputOf<K>> {
+    const operation = operations[name];
+    // One key for every attempt at a write, queued ones included: if the
+    // connection drops after the server committed it, the replay is a no-op
+    const idempotencyKey = operation.kind === 'write' ? crypto.randomUUID() : undefined;
+
+    try {
+        // Queued offline writes go first, so the server sees them in order;
+        // if some are still queued after that, this one queues behind them
+        let queued = false;
+        if (operation.kind === 'write' && !operation.needsServer && credentials && hasPendingWrites(credentials.uid)) {
+            await syncOutbox();
+            queued = hasPendingWrites(credentials.uid);
+        }
+        if (!queued) {
+            const data = operation.kind === 'read' ? await remoteRead(name, input) : await remote(name, input, idempotencyKey);
+            // Success! We are connected to the cloud.
+            setConnectionMode('cloud');
+            return data;
+        }
+    } catch (err) {
+        if (err instanceof RpcError) throw err;
+        if (operation.needsServer) {
+            setConnectionMode('local');
+            throw err;
+        }
+    }
+
+    // Fallback to the local database (for Preview/Offline/Error)
+    setConnectionMode('local');
+    const result = await runOperation(operation, localExecute, input, localContext());
+    if (operation.kind === 'write' && credentials) enqueue(name, input, credentials.uid, idempotencyKey);
+    return result as OutputOf<K>;
+}
+
+/**
+ * Uploads image bytes to the media store and returns the media id to pass
+ * to operations (e.g. posts.create's attachments). Needs the API: there is no
+ * local-mode fallback, so this throws when offline.
+ */
+export async function uploadMedia(image: Blob): Promise<string> {
+    const headers = await requestHeaders();
+    headers['Content-Type'] = image.type || 'application/octet-stream';
+
+    const response = await fetch('/api/media', { method: 'POST', headers, body: image });
+    if (!response.ok) throw await failure(response);
+
+    setConnectionMode('cloud');
+    const json = await response.json();
+    return json.id as string;
+}
+
+// Back online (or signed in with writes left over from last session): replay
+if (typeof window !== 'undefined') {
+    subscribeToConnectionMode(mode => {
+        if (mode === 'cloud') syncOutbox();
+    });
+    window.addEventListener('online', () => syncOutbox());
+}
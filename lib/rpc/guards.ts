@@ -0,0 +1,18 @@
+import { Executor, OperationContext, forbidden, notFound } from './operation';
+
+// Ownership rules shared by operations. These are the authority: the UI's
+// `isOwner` checks only decide which buttons to show.
+
+// Only the author may edit or delete a post or comment
+export const assertAuthor = async (db: Executor, table: 'posts' | 'comments', id: string, ctx: OperationContext) => {
+    const rows = await db(`SELECT user_id FROM ${table} WHERE id = ?`, [id]);
+    if (rows.length === 0) throw notFound(`No such ${table === 'posts' ? 'post' : 'comment'}`);
+    if (rows[0].user_id !== ctx.uid) throw forbidden('Only the author can change this');
+};
+
+// Only participants may read or write a chat
+export const assertParticipant = async (db: Executor, chatId: string, ctx: OperationContext) => {
+    const rows = await db('SELECT status FROM chat_participants WHERE chat_id = ? AND user_id = ?', [chatId, ctx.uid]);
+    if (rows.length === 0) throw forbidden('Not a participant in this chat');
+    return rows[0].status as string;
+};
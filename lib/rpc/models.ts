@@ -0,0 +1,245 @@
+import { Schema, object, string, id, optional, array, number, boolean, timestamp, oneOf } from './schema';
+import { Attachment, Profile, Comment, PostSummary, UserPost, SavedDomain, DomainNode, DomainProfile, StoredDomainProfile, DomainDigest, DomainActivity, ChatSummary, AppNotification, ChatMessage, ProfileStats } from '../../types';
+import { MEDIA_ID, MAX_ATTACHMENTS, mediaUrl } from '../media';
+import { PROFILE_LIMITS } from '../ai';
+
+// Shared output shapes. Row mappers live next to the schemas so every
+// operation that returns a post (or profile, ...) serialises it identically.
+
+// Images are sent as /api/media URLs. Rows not yet moved by
+// `npm run extract-media` (and old local-mode rows) still hold a data URL.
+// Avatars are never shown large, so photos point at the thumbnail.
+export const imageOf = (row: any): string | undefined => mediaUrl(row.image_id) ?? row.imageURL ?? undefined;
+export const photoOf = (row: any): string | undefined => mediaUrl(row.photo_id, 'thumb') ?? row.photoURL ?? undefined;
+
+// Inputs reference images by the id /api/media returned for the upload
+export const mediaId = () => string({ pattern: MEDIA_ID });
+
+const author: Schema<PostSummary['profiles']> = object({
+    username: string(),
+    photoURL: optional(string({ max: 2_000_000 })),
+});
+
+// What anyone may see about a user. Email is intentionally absent.
+export const publicProfile: Schema<Profile> = object({
+    id: id(),
+    username: string(),
+    photoURL: optional(string({ max: 2_000_000 })),
+    bio: optional(string()),
+    is_private: optional(boolean()),
+    tags: optional(string()),
+});
+
+export const toProfile = (row: any): Profile => ({ ...row, username: row.username ?? '', photoURL: photoOf(row) });
+
+// What a user may see about themselves.
+export const ownProfile: Schema<Profile> = object({
+    id: id(),
+    username: string(),
+    email: optional(string()),
+    photoURL: optional(string({ max: 2_000_000 })),
+    bio: optional(string()),
+    is_private: optional(boolean()),
+    tags: optional(string()),
+    interests: optional(string()),
+    theme: optional(string()),
+});
+
+export const attachment: Schema<Attachment> = object({
+    url: string({ max: 2_000_000 }),
+    alt: optional(string()),
+    width: optional(number()),
+    height: optional(number()),
+    placeholder: optional(string({ max: 4096 })),
+});
+
+// A post_attachments row joined with its `media` record
+export const toAttachment = (row: any): Attachment => ({
+    url: mediaUrl(row.media_id)!,
+    alt: row.alt_text,
+    width: row.width,
+    height: row.height,
+    placeholder: row.placeholder,
+});
+
+// Posts from before attachments (or not yet extracted) only have a cover
+const coverAttachments = (row: any): Attachment[] => {
+    const url = imageOf(row);
+    return url ? [{ url, width: row.image_width, height: row.image_height, placeholder: row.image_placeholder }] : [];
+};
+
+export const post: Schema<PostSummary> = object({
+    id: id(),
+    content: string(),
+    imageURL: optional(string({ max: 2_000_000 })),
+    created_at: timestamp(),
+    user_id: id(),
+    domain_id: id(),
+    profiles: author,
+    attachments: array(attachment, { max: MAX_ATTACHMENTS }),
+    like_count: number(),
+    is_liked_by_user: boolean(),
+    comment_count: number(),
+});
+
+export const toPost = (row: any): PostSummary => ({
+    id: row.id,
+    content: row.content ?? '',
+    imageURL: imageOf(row),
+    // Loaded separately by the list operations (see posts.withAttachments)
+    attachments: row.attachments ?? coverAttachments(row),
+    created_at: row.created_at,
+    user_id: row.user_id,
+    domain_id: row.domain_id,
+    profiles: {
+        username: row.username || 'Unknown',
+        photoURL: photoOf(row)
+    },
+    like_count: row.like_count ?? 0,
+    is_liked_by_user: row.is_liked_by_user ?? false,
+    comment_count: row.comment_count ?? 0,
+});
+
+export const userPost: Schema<UserPost> = object({
+    id: id(),
+    content: string(),
+    imageURL: optional(string({ max: 2_000_000 })),
+    created_at: timestamp(),
+    user_id: id(),
+    domain_id: id(),
+    like_count: number(),
+});
+
+export const toUserPost = (row: any): UserPost => ({ ...row, imageURL: imageOf(row) });
+
+export const comment: Schema<Comment> = object({
+    id: id(),
+    user_id: id(),
+    parent_id: optional(id()),
+    content: string(),
+    created_at: timestamp(),
+    profiles: author,
+});
+
+export const toComment = (row: any): Comment => ({
+    id: row.id,
+    user_id: row.user_id,
+    parent_id: row.parent_id,
+    content: row.content ?? '',
+    created_at: row.created_at,
+    profiles: {
+        username: row.username || 'Unknown',
+        photoURL: photoOf(row)
+    }
+});
+
+export const savedDomain: Schema<SavedDomain> = object({
+    id: id(),
+    user_id: id(),
+    domain_id: id(),
+    domain_name: string(),
+    saved_at: timestamp(),
+});
+
+export const domainSource = oneOf('ai', 'web', 'user');
+
+export const domainNode: Schema<DomainNode> = object({
+    id: id(),
+    parent_id: optional(id()),
+    name: string(),
+    source: domainSource,
+    generator: optional(string()),
+    summary: optional(string()),
+    source_url: optional(string()),
+    variant: number({ integer: true }),
+    created_by: optional(id()),
+    created_at: timestamp(),
+});
+
+const profileText = () => string({ min: 1, max: PROFILE_LIMITS.text });
+const profileList = <T>(item: Schema<T>) => array(item, { max: PROFILE_LIMITS.items });
+
+export const domainProfile: Schema<DomainProfile> = object({
+    summary: string({ min: 1, max: PROFILE_LIMITS.summary }),
+    keyConcepts: profileList(profileText()),
+    notablePeople: profileList(object({ name: profileText(), note: optional(profileText()) })),
+    prerequisites: profileList(string({ min: 1, max: 100 })),
+    related: profileList(string({ min: 1, max: 100 })),
+    reading: profileList(object({ title: profileText(), author: optional(profileText()) })),
+});
+
+export const storedDomainProfile: Schema<StoredDomainProfile> = object({
+    domain_id: id(),
+    profile: domainProfile,
+    version: number({ integer: true }),
+    revision: number({ integer: true }),
+    generator: optional(string()),
+    updated_at: timestamp(),
+});
+
+// `profile` is stored as JSON text
+export const toStoredDomainProfile = (row: any): StoredDomainProfile => ({
+    domain_id: row.domain_id,
+    profile: JSON.parse(row.profile),
+    version: row.version,
+    revision: row.revision,
+    generator: row.generator,
+    updated_at: row.updated_at,
+});
+
+export const domainDigest: Schema<DomainDigest> = object({
+    domainId: id(),
+    count: number({ integer: true }),
+    latest: optional(object({
+        id: id(),
+        headline: string(),
+        created_at: timestamp(),
+        username: optional(string()),
+    })),
+});
+
+export const domainActivity: Schema<DomainActivity> = object({
+    domainId: id(),
+    posts: number({ integer: true }),
+    recent: number({ integer: true }),
+    lastPostAt: timestamp(),
+});
+
+export const followStatus = oneOf('pending', 'accepted');
+
+export const profileStats: Schema<ProfileStats> = object({
+    posts: number(),
+    followers: number(),
+    following: number(),
+    totalLikes: number(),
+});
+
+export const notification: Schema<AppNotification> = object({
+    id: id(),
+    type: oneOf('follow', 'like', 'comment'),
+    actor_id: id(),
+    entity_id: optional(id()),
+    created_at: timestamp(),
+    read_status: boolean(),
+    actorProfile: object({
+        id: id(),
+        username: string(),
+        photoURL: optional(string({ max: 2_000_000 })),
+    }),
+});
+
+export const chatStatus = oneOf('accepted', 'pending', 'blocked');
+
+export const chatSummary: Schema<ChatSummary> = object({
+    id: id(),
+    lastMessage: optional(string()),
+    updatedAt: optional(timestamp()),
+    status: chatStatus,
+});
+
+export const chatMessage: Schema<ChatMessage> = object({
+    id: id(),
+    senderId: id(),
+    text: string(),
+    createdAt: timestamp(),
+});
@@ -0,0 +1,93 @@
+import { Schema } from './schema';
+import type { AiResult, AiTask, AiTaskInput } from '../ai';
+import type { WebTopic } from '../../services/webSearchService';
+
+// Anything that can run a parameterised statement and hand back rows:
+// the server's TiDB stack, or the browser's local engine in offline mode.
+export type Executor = (sql: string, args?: any[]) => Promise<any[]>;
+
+// An executor that can also group statements atomically:
+//
+//   await db.transaction(async tx => { await tx(...); await tx(...); });
+//
+// Either every statement issued through `tx` commits or none does; a throw
+// inside `work` rolls the whole group back and is rethrown. Calling
+// `tx.transaction` joins the open transaction rather than nesting one.
+export interface Database extends Executor {
+    transaction: <T>(work: (tx: Database) => Promise<T>) => Promise<T>;
+}
+
+// Attaches a transaction implementation to a plain executor
+export const toDatabase = (execute: Executor, transaction: Database['transaction']): Database =>
+    Object.assign(execute, { transaction });
+
+// The executor handed to `work` inside an open transaction
+export const joinedTransaction = (execute: Executor): Database => {
+    const tx: Database = toDatabase(execute, work => work(tx));
+    return tx;
+};
+
+export type OperationKind = 'read' | 'write';
+
+// Who is calling. On the server this comes from a verified Firebase ID token,
+// never from the request body.
+export interface OperationContext {
+    uid: string | null;
+    email?: string;
+    // Set on the server only; see ContentSources
+    sources?: ContentSources;
+}
+
+// Where operations that store generated content for everyone (domain
+// children, profiles) get it from: the AI gateway and web search, reached
+// from the server so callers can't hand in content of their own. Operations
+// that use them are `needsServer`; run without them, they store nothing.
+export interface ContentSources {
+    ai: <T extends AiTask>(task: T, input: AiTaskInput<T>) => Promise<AiResult<T>>;
+    relatedTopics: (topic: string) => Promise<WebTopic[]>;
+}
+
+export interface Operation<I, O> {
+    kind: OperationKind;
+    // 'required' (default) rejects anonymous callers before `run` is reached
+    auth?: 'required' | 'optional';
+    // Generates with ContentSources, which only the server has: such an
+    // operation never runs in the local fallback nor waits in the outbox,
+    // it just fails while the API is unreachable
+    needsServer?: boolean;
+    input: Schema<I>;
+    output: Schema<O>;
+    run: (db: Database, input: I, ctx: OperationContext) => Promise<O>;
+}
+
+export const defineOperation = <I, O>(operation: Operation<I, O>): Operation<I, O> => operation;
+
+// An expected failure with an HTTP status (401, 403, 404, ...)
+export class OperationError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'OperationError';
+    }
+}
+
+export const unauthorized = (message = 'Sign in required') => new OperationError(401, message);
+export const forbidden = (message = 'Not allowed') => new OperationError(403, message);
+export const notFound = (message = 'Not found') => new OperationError(404, message);
+export const conflict = (message = 'Conflict') => new OperationError(409, message);
+
+/**
+ * Validates input, runs the operation and validates its result.
+ * Used verbatim by the API route and by the client's local fallback so both
+ * paths enforce the same contract.
+ */
+export const runOperation = async <I, O>(operation: Operation<I, O>, db: Database, rawInput: unknown, ctx: OperationContext): Promise<O> => {
+    if (operation.auth !== 'optional' && !ctx.uid) throw unauthorized();
+    const input = operation.input.parse(rawInput ?? {});
+    const result = await operation.run(db, input, ctx);
+    try {
+        return operation.output.parse(result);
+    } catch (err) {
+        // A bad result is the server's fault, not the caller's
+        throw new Error(`Invalid operation output: ${(err as Error).message}`);
+    }
+};
@@ -0,0 +1,136 @@
+import { defineOperation } from '../operation';
+import { object, string, id, optional, array, oneOf, nothing, ValidationError, MAX_ARRAY_LENGTH } from '../schema';
+import { chatSummary, chatStatus, chatMessage, publicProfile, toProfile } from '../models';
+import { assertParticipant } from '../guards';
+import { keyset, page, pageParams } from '../pagination';
+
+// The caller's chats, most recently active first
+export const listChats = defineOperation({
+    kind: 'read',
+    input: object({}),
+    output: array(chatSummary),
+    run: (db, _input, { uid }) => db(`
+        SELECT c.id, c.lastMessage, c.updatedAt, cp.status
+        FROM chats c
+        JOIN chat_participants cp ON c.id = cp.chat_id
+        WHERE cp.user_id = ?
+        ORDER BY c.updatedAt DESC
+        LIMIT ${MAX_ARRAY_LENGTH}
+    `, [uid])
+});
+
+// The participant of a chat who isn't the caller
+export const getChatPartner = defineOperation({
+    kind: 'read',
+    input: object({ chatId: id() }),
+    output: optional(publicProfile),
+    run: async (db, { chatId }, ctx) => {
+        await assertParticipant(db, chatId, ctx);
+        const rows = await db(`
+            SELECT p.id, p.username, p.photoURL, p.photo_id
+            FROM profiles p
+            JOIN chat_participants cp ON p.id = cp.user_id
+            WHERE cp.chat_id = ? AND p.id != ?
+        `, [chatId, ctx.uid]);
+        return rows.length > 0 ? toProfile(rows[0]) : undefined;
+    }
+});
+
+/**
+ * Gets an existing chat ID between the caller and another user or creates a new one.
+ *
+ * Strategy, in one transaction:
+ * 1. Claim the pair in `chat_pairs` for a new chat id (the caller's `id` if
+ *    given, so a chat started offline keeps its id when replayed). The
+ *    pair's key is unique: of two concurrent calls, one claims it and the
+ *    other waits for it and finds that chat.
+ * 2. If the pair already had a chat, return that `chat_id`.
+ * 3. If not:
+ *    - Insert into `chats`.
+ *    - Insert `chat_participants` for the initiator (status='accepted').
+ *    - Insert `chat_participants` for the other user (status='pending'),
+ *      which makes it show up in their "Requests" tab.
+ */
+export const getOrCreateChat = defineOperation({
+    kind: 'write',
+    input: object({ otherUserId: id(), id: optional(id()) }),
+    output: id(),
+    run: async (db, { otherUserId, id }, { uid }) => {
+        if (otherUserId === uid) throw new ValidationError('otherUserId', 'must be another user');
+        const [userA, userB] = [uid!, otherUserId].sort();
+        const chatId = id || crypto.randomUUID();
+
+        // A chat without both participant rows would be invisible to one side
+        return db.transaction(async tx => {
+            await tx('INSERT IGNORE INTO chat_pairs (user_a, user_b, chat_id) VALUES (?, ?, ?)', [userA, userB, chatId]);
+            const [pair] = await tx('SELECT chat_id FROM chat_pairs WHERE user_a = ? AND user_b = ?', [userA, userB]);
+            if (pair.chat_id !== chatId) return pair.chat_id as string;
+
+            const now = new Date().toISOString();
+            await tx('INSERT INTO chats (id, lastMessage, updatedAt) VALUES (?, ?, ?)', [chatId, '', now]);
+            await tx('INSERT INTO chat_participants (chat_id, user_id, status) VALUES (?, ?, ?)', [chatId, uid, 'accepted']);
+            await tx('INSERT INTO chat_participants (chat_id, user_id, status) VALUES (?, ?, ?)', [chatId, otherUserId, 'pending']);
+            return chatId;
+        });
+    }
+});
+
+export const getChatStatus = defineOperation({
+    kind: 'read',
+    input: object({ chatId: id() }),
+    output: optional(chatStatus),
+    run: async (db, { chatId }, ctx) => {
+        const rows = await db('SELECT status FROM chat_participants WHERE chat_id = ? AND user_id = ?', [chatId, ctx.uid]);
+        return rows[0]?.status;
+    }
+});
+
+export const setChatStatus = defineOperation({
+    kind: 'write',
+    input: object({ chatId: id(), status: oneOf('accepted', 'blocked') }),
+    output: nothing(),
+    run: async (db, { chatId, status }, ctx) => {
+        // Only ever touches the caller's own participant row
+        await db('UPDATE chat_participants SET status = ? WHERE chat_id = ? AND user_id = ?', [status, chatId, ctx.uid]);
+    }
+});
+
+// Newest first: the first page is the end of the conversation, and each
+// cursor reaches further back into its history
+export const listMessages = defineOperation({
+    kind: 'read',
+    input: object({ chatId: id(), ...pageParams }),
+    output: page(chatMessage),
+    run: async (db, { chatId, ...position }, ctx) => {
+        await assertParticipant(db, chatId, ctx);
+        const seek = keyset(position, 'DESC', 'created_at', 'id', 30);
+        const rows = await db(
+            `SELECT * FROM messages WHERE chat_id = ? AND ${seek.where} ORDER BY ${seek.orderBy} LIMIT ${seek.fetch}`,
+            [chatId, ...seek.params]
+        );
+        // Older rows were written with camelCase columns
+        return seek.toPage(rows, (m: any) => ({
+            id: m.id,
+            text: m.text ?? '',
+            createdAt: m.created_at || m.createdAt,
+            senderId: m.sender_id || m.senderId
+        }));
+    }
+});
+
+export const sendMessage = defineOperation({
+    kind: 'write',
+    input: object({ id: id(), chatId: id(), text: string({ min: 1, max: 5000 }) }),
+    output: nothing(),
+    run: async (db, { id, chatId, text }, ctx) => {
+        await assertParticipant(db, chatId, ctx);
+        const now = new Date().toISOString();
+        await db.transaction(async tx => {
+            await tx(
+                'INSERT INTO messages (id, chat_id, sender_id, text, created_at) VALUES (?, ?, ?, ?, ?)',
+                [id, chatId, ctx.uid, text, now]
+            );
+            await tx('UPDATE chats SET lastMessage = ?, updatedAt = ? WHERE id = ?', [text, now, chatId]);
+        });
+    }
+});
@@ -0,0 +1,55 @@
+import { defineOperation, notFound } from '../operation';
+import { object, string, id, optional, nothing } from '../schema';
+import { comment, toComment } from '../models';
+import { assertAuthor } from '../guards';
+import { keyset, page, pageParams } from '../pagination';
+import { bumpPostCounter } from '../../counters';
+
+// Oldest first, so a thread reads top to bottom and later pages continue it
+export const listComments = defineOperation({
+    kind: 'read',
+    input: object({ postId: id(), ...pageParams }),
+    output: page(comment),
+    run: async (db, { postId, ...position }) => {
+        const seek = keyset(position, 'ASC', 'c.created_at', 'c.id');
+        const rows = await db(`
+            SELECT c.*, u.username, u.photoURL, u.photo_id
+            FROM comments c
+            LEFT JOIN profiles u ON c.user_id = u.id
+            WHERE c.post_id = ? AND ${seek.where}
+            ORDER BY ${seek.orderBy}
+            LIMIT ${seek.fetch}
+        `, [postId, ...seek.params]);
+        return seek.toPage(rows, toComment);
+    }
+});
+
+export const createComment = defineOperation({
+    kind: 'write',
+    input: object({ id: id(), postId: id(), content: string({ min: 1, max: 2000 }), parentId: optional(id()) }),
+    output: nothing(),
+    run: (db, { id, postId, content, parentId }, ctx) => db.transaction(async tx => {
+        const target = await tx('SELECT id FROM posts WHERE id = ?', [postId]);
+        if (target.length === 0) throw notFound('This post no longer exists');
+        await tx(
+            'INSERT INTO comments (id, post_id, user_id, content, created_at, parent_id) VALUES (?, ?, ?, ?, ?, ?)',
+            [id, postId, ctx.uid, content, new Date().toISOString(), parentId || null]
+        );
+        await bumpPostCounter(tx, postId, 'comment_count', 1);
+    })
+});
+
+export const deleteComment = defineOperation({
+    kind: 'write',
+    input: object({ id: id() }),
+    output: nothing(),
+    run: async (db, { id }, ctx) => {
+        await assertAuthor(db, 'comments', id, ctx);
+        await db.transaction(async tx => {
+            const rows = await tx('SELECT post_id FROM comments WHERE id = ?', [id]);
+            if (rows.length === 0) return;
+            await tx('DELETE FROM comments WHERE id = ?', [id]);
+            await bumpPostCounter(tx, rows[0].post_id, 'comment_count', -1);
+        });
+    }
+});
@@ -0,0 +1,280 @@
+import { defineOperation, Executor, conflict, notFound } from '../operation';
+import { object, string, id, optional, array, number } from '../schema';
+import { domainNode, storedDomainProfile, toStoredDomainProfile } from '../models';
+import { PROFILE_VERSION } from '../../ai';
+import { canonicalName, childId, nameKey, nameOf, resolveDomainId } from '../../taxonomy';
+import { DomainSource } from '../../../types';
+import type { WebTopic } from '../../../services/webSearchService';
+
+// -----------------------------------------------------------------------------
+// SHARED TAXONOMY
+// -----------------------------------------------------------------------------
+// The domain graph everyone explores. A node's id is the path it was first
+// created at ("Science/Physics"), the same string posts use as `domain_id`,
+// and that first parent is its `parent_id`. A node can be linked under more
+// parents (`domain_links`, e.g. Bioinformatics under Biology and Computer
+// Science) and keeps its one id there. Top-level nodes have no parent;
+// the fixed list the client starts from (ROOT_DOMAINS) is not stored, only
+// what is added next to it. Names are canonical and merged domains redirect
+// (see lib/taxonomy); every operation here takes ids from before a merge.
+//
+// Children are generated once, on the server, when someone first opens a
+// node, and stored; everyone after reads the stored ones. A node counts as
+// expanded once it has any AI-generated child. Children found by web search
+// (`web`) also keep a summary and the page they came from; `generator` then
+// names the site. Users can only add children of their own (`user`).
+//
+// Info card profiles work the same way: generated on the server for the
+// first viewer, stored, and read by everyone after, until a user asks for a
+// fresh one.
+// -----------------------------------------------------------------------------
+
+const NODE_COLUMNS = 'd.id, d.parent_id, d.name, d.source, d.generator, d.summary, d.source_url, d.variant, d.created_by, d.created_at';
+
+// Children created under the node and linked to it. `parentId` undefined
+// reads the top level, which has no links.
+const listChildren = (db: Executor, parentId?: string) => (parentId
+    ? db(`
+        SELECT ${NODE_COLUMNS}, d.position FROM domains d WHERE d.parent_id = ?
+        UNION ALL
+        SELECT ${NODE_COLUMNS}, l.position FROM domain_links l JOIN domains d ON d.id = l.child_id WHERE l.parent_id = ?
+        ORDER BY position, id
+    `, [parentId, parentId])
+    : db('SELECT * FROM domains WHERE parent_id IS NULL ORDER BY position, id'));
+
+// A node's first parent, then the ones it is linked under. Nodes without a
+// row (the fixed top level, fallback children) only have the one in their id.
+const parentsOf = async (db: Executor, id: string): Promise<string[]> => {
+    const [row] = await db('SELECT parent_id FROM domains WHERE id = ?', [id]);
+    const first = row ? row.parent_id : id.includes('/') ? id.slice(0, id.lastIndexOf('/')) : null;
+    const links = await db('SELECT parent_id FROM domain_links WHERE child_id = ? ORDER BY created_at', [id]);
+    return [...(first ? [first] : []), ...links.map((l: any) => l.parent_id)];
+};
+
+const ancestorsOf = async (db: Executor, id: string) => {
+    const seen = new Set<string>();
+    for (let frontier = [id]; frontier.length > 0;) {
+        const next: string[] = [];
+        for (const nodeId of frontier) {
+            for (const parent of await parentsOf(db, nodeId)) {
+                if (!seen.has(parent)) {
+                    seen.add(parent);
+                    next.push(parent);
+                }
+            }
+        }
+        frontier = next;
+    }
+    return seen;
+};
+
+export const listDomainChildren = defineOperation({
+    kind: 'read',
+    input: object({ parentId: optional(id()) }),
+    output: array(domainNode),
+    run: async (db, { parentId }) => listChildren(db, parentId && await resolveDomainId(db, parentId))
+});
+
+interface NewChild {
+    name: string;
+    source: DomainSource;
+    generator?: string;
+    summary?: string;
+    url?: string;
+}
+
+// Appends children after the node's existing ones. Each name is made
+// canonical first, and names the node already has are skipped.
+const appendChildren = async (tx: Executor, parentId: string | undefined, children: NewChild[], variant: number, uid: string | null) => {
+    const existing = await listChildren(tx, parentId);
+    const taken = new Set(existing.map((row: any) => nameKey(row.name)));
+    // A node's own name isn't one of its children
+    if (parentId) taken.add(nameKey(nameOf(parentId)));
+    let position = existing.length;
+    const now = new Date().toISOString();
+    for (const child of children) {
+        const name = await canonicalName(tx, child.name);
+        if (!name || name.length > 100 || taken.has(nameKey(name))) continue;
+        taken.add(nameKey(name));
+        await tx(
+            `INSERT IGNORE INTO domains (id, parent_id, name, position, source, generator, summary, source_url, variant, created_by, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+                childId(parentId, name), parentId ?? null, name, position++, child.source,
+                child.generator ?? null, child.summary ?? null, child.url ?? null, variant, uid, now
+            ]
+        );
+    }
+};
+
+// What the model is asked for the children of the top level ("load more"
+// there; the fixed list is never generated again)
+const TOP_LEVEL_TOPIC = 'Fields of knowledge';
+
+// Related topics that fit a domain row: a short title and a web page
+const storableTopic = (topic: WebTopic) => topic.title.length <= 100 && /^https?:\/\//.test(topic.url) && topic.url.length <= 1024;
+
+/**
+ * Generates children for a node and returns all of its children: subtopics
+ * from the AI gateway and, the first time (`variant` 0), related topics from
+ * a web search, stored for everyone. A node already expanded is returned as
+ * it is; each later `variant` ("load more") asks the model for a new batch.
+ * Whatever the sources can't provide (the model is down) is not stored, and
+ * the caller shows a canned list instead.
+ */
+export const expandDomain = defineOperation({
+    kind: 'write',
+    needsServer: true,
+    input: object({
+        parentId: optional(id()),
+        variant: optional(number({ integer: true, min: 0, max: 1000 })),
+    }),
+    output: array(domainNode),
+    run: async (db, { parentId: requested, variant = 0 }, ctx) => {
+        const parentId = requested && await resolveDomainId(db, requested);
+        const expanded = (rows: any[]) => variant === 0 && (!parentId || rows.some(row => row.source === 'ai'));
+        const existing = await listChildren(db, parentId);
+        if (expanded(existing) || !ctx.sources) return existing;
+
+        // Asked before the transaction opens, so it isn't held for the model
+        const topic = parentId ? nameOf(parentId) : TOP_LEVEL_TOPIC;
+        const [generated, topics] = await Promise.all([
+            ctx.sources.ai('domains', { topic, path: parentId ? parentId.split('/') : [topic], variant }).catch(error => {
+                console.warn(`[Domains] Could not generate children of ${topic}:`, error.message);
+                return null;
+            }),
+            variant === 0 ? ctx.sources.relatedTopics(topic) : [],
+        ]);
+
+        return db.transaction(async tx => {
+            // Another user's first expansion got in meanwhile: theirs stays
+            if (expanded(await listChildren(tx, parentId))) return listChildren(tx, parentId);
+            await appendChildren(tx, parentId, [
+                ...(generated ? generated.data.map(name => ({ name, source: 'ai' as const, generator: generated.generator })) : []),
+                ...topics.filter(storableTopic).map(t => ({
+                    name: t.title, source: 'web' as const, generator: t.source, summary: t.summary?.slice(0, 1000), url: t.url
+                })),
+            ], variant, ctx.uid);
+            return listChildren(tx, parentId);
+        });
+    }
+});
+
+// Appends children typed in by the user and returns all of the node's children
+export const addDomainChildren = defineOperation({
+    kind: 'write',
+    input: object({
+        parentId: optional(id()),
+        names: array(string({ min: 1, max: 100 }), { max: 50 }),
+    }),
+    output: array(domainNode),
+    run: (db, { parentId: requested, names }, ctx) => db.transaction(async tx => {
+        const parentId = requested && await resolveDomainId(tx, requested);
+        await appendChildren(tx, parentId, names.map(name => ({ name, source: 'user' as const })), 0, ctx.uid);
+        return listChildren(tx, parentId);
+    })
+});
+
+// Stored domains of that name (once made canonical), oldest first
+export const findDomainsByName = defineOperation({
+    kind: 'read',
+    input: object({ name: string({ min: 1, max: 100 }) }),
+    output: array(domainNode),
+    run: async (db, { name }) => db(
+        'SELECT * FROM domains WHERE LOWER(name) = LOWER(?) ORDER BY created_at, id LIMIT 10',
+        [await canonicalName(db, name)]
+    )
+});
+
+// Every parent of a domain, first the one it was created under
+export const listDomainParents = defineOperation({
+    kind: 'read',
+    input: object({ id: id() }),
+    output: array(object({ id: id(), name: string() })),
+    run: async (db, { id }) => (await parentsOf(db, await resolveDomainId(db, id))).map(parent => ({ id: parent, name: nameOf(parent) }))
+});
+
+/**
+ * Places an existing domain under one more parent, keeping its id (and so
+ * its posts), and returns all of the parent's children. A parent can't have
+ * two children of the same name, and a domain can't end up inside itself.
+ */
+export const linkDomain = defineOperation({
+    kind: 'write',
+    input: object({ parentId: id(), childId: id() }),
+    output: array(domainNode),
+    run: (db, input, ctx) => db.transaction(async tx => {
+        const parentId = await resolveDomainId(tx, input.parentId);
+        const [child] = await tx('SELECT id, name FROM domains WHERE id = ?', [await resolveDomainId(tx, input.childId)]);
+        if (!child) throw notFound('No such domain');
+
+        const existing = await listChildren(tx, parentId);
+        if (existing.some((row: any) => row.id === child.id)) return existing;
+        if (existing.some((row: any) => nameKey(row.name) === nameKey(child.name))) {
+            throw conflict(`${nameOf(parentId)} already has a domain called ${child.name}`);
+        }
+        if (parentId === child.id || (await ancestorsOf(tx, parentId)).has(child.id)) {
+            throw conflict(`${nameOf(parentId)} is inside ${child.name}`);
+        }
+
+        await tx(
+            'INSERT INTO domain_links (parent_id, child_id, position, created_by, created_at) VALUES (?, ?, ?, ?, ?)',
+            [parentId, child.id, existing.length, ctx.uid, new Date().toISOString()]
+        );
+        return listChildren(tx, parentId);
+    })
+});
+
+const findProfile = async (db: Executor, domainId: string) => {
+    const [row] = await db('SELECT * FROM domain_profiles WHERE domain_id = ?', [domainId]);
+    return row && row.version === PROFILE_VERSION ? toStoredDomainProfile(row) : undefined;
+};
+
+// A domain's stored profile; none if it has none yet or only an outdated one
+export const getDomainProfile = defineOperation({
+    kind: 'read',
+    input: object({ domainId: id() }),
+    output: optional(storedDomainProfile),
+    run: async (db, { domainId }) => findProfile(db, await resolveDomainId(db, domainId))
+});
+
+/**
+ * Generates a domain's profile, stores it and returns it: revision 0 for
+ * the first viewer, and for a refresh of the revision the user is looking at
+ * (`replaces`), the one after it. Whoever got there first keeps theirs and
+ * it is returned instead, as is the stored one when the model can't answer
+ * (none if there is none yet).
+ */
+export const generateDomainProfile = defineOperation({
+    kind: 'write',
+    needsServer: true,
+    input: object({
+        domainId: id(),
+        replaces: optional(number({ integer: true, min: 0 })),
+    }),
+    output: optional(storedDomainProfile),
+    run: async (db, { domainId: requested, replaces }, ctx) => {
+        const domainId = await resolveDomainId(db, requested);
+        const existing = await findProfile(db, domainId);
+        if ((existing && existing.revision !== replaces) || !ctx.sources) return existing;
+
+        // Asked before the transaction opens, so it isn't held for the model
+        const revision = existing ? existing.revision + 1 : 0;
+        const generated = await ctx.sources.ai('profile', { term: nameOf(domainId), path: domainId.split('/'), revision }).catch(error => {
+            console.warn(`[Domains] Could not generate a profile of ${domainId}:`, error.message);
+            return null;
+        });
+        if (!generated) return existing;
+
+        return db.transaction(async tx => {
+            const latest = await findProfile(tx, domainId);
+            if (latest && latest.revision >= revision) return latest;
+            await tx(
+                `REPLACE INTO domain_profiles (domain_id, profile, version, revision, generator, updated_by, updated_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?)`,
+                [domainId, JSON.stringify(generated.data), PROFILE_VERSION, revision, generated.generator, ctx.uid, new Date().toISOString()]
+            );
+            return findProfile(tx, domainId);
+        });
+    }
+});
@@ -0,0 +1,57 @@
+import { defineOperation, notFound } from '../operation';
+import { object, id, optional, nothing } from '../schema';
+import { followStatus } from '../models';
+import { bumpProfileCounter } from '../../counters';
+
+// Whether the caller follows `followingId`
+export const getFollowStatus = defineOperation({
+    kind: 'read',
+    input: object({ followingId: id() }),
+    output: optional(followStatus),
+    run: async (db, { followingId }, ctx) => {
+        const rows = await db('SELECT status FROM follows WHERE follower_id = ? AND following_id = ?', [ctx.uid, followingId]);
+        return rows.length > 0 ? rows[0].status : undefined;
+    }
+});
+
+/**
+ * Follows a user on the caller's behalf and notifies them. Private profiles
+ * get a pending request instead of an immediate follow. Following someone
+ * already followed (or asked) changes nothing and notifies nobody.
+ */
+export const follow = defineOperation({
+    kind: 'write',
+    input: object({ followingId: id() }),
+    output: followStatus,
+    run: (db, { followingId }, ctx) => db.transaction(async tx => {
+        const [target] = await tx('SELECT is_private FROM profiles WHERE id = ?', [followingId]);
+        if (!target) throw notFound('No such user');
+
+        const [existing] = await tx('SELECT status FROM follows WHERE follower_id = ? AND following_id = ?', [ctx.uid, followingId]);
+        if (existing) return existing.status;
+
+        const status = target.is_private ? 'pending' : 'accepted';
+        await tx('INSERT INTO follows (follower_id, following_id, status) VALUES (?, ?, ?)', [ctx.uid, followingId, status]);
+        // Requests count too, matching what lib/counters recomputes
+        await bumpProfileCounter(tx, ctx.uid!, 'following_count', 1);
+        await bumpProfileCounter(tx, followingId, 'follower_count', 1);
+        await tx(
+            'INSERT INTO notifications (id, user_id, actor_id, type, created_at, read_status) VALUES (?, ?, ?, ?, ?, ?)',
+            [crypto.randomUUID(), followingId, ctx.uid, 'follow', new Date().toISOString(), false]
+        );
+        return status;
+    })
+});
+
+export const unfollow = defineOperation({
+    kind: 'write',
+    input: object({ followingId: id() }),
+    output: nothing(),
+    run: (db, { followingId }, ctx) => db.transaction(async tx => {
+        const existing = await tx('SELECT status FROM follows WHERE follower_id = ? AND following_id = ?', [ctx.uid, followingId]);
+        if (existing.length === 0) return;
+        await tx('DELETE FROM follows WHERE follower_id = ? AND following_id = ?', [ctx.uid, followingId]);
+        await bumpProfileCounter(tx, ctx.uid!, 'following_count', -1);
+        await bumpProfileCounter(tx, followingId, 'follower_count', -1);
+    })
+});
@@ -0,0 +1,83 @@
+import * as profiles from './profiles';
+import * as posts from './posts';
+import * as comments from './comments';
+import * as follows from './follows';
+import * as notifications from './notifications';
+import * as chats from './chats';
+import * as savedDomains from './savedDomains';
+import * as domains from './domains';
+import { Operation } from '../operation';
+
+// Registry of every named operation the client may call. The key is the
+// public name (the `/api/rpc/[op]` path segment), so renaming one is a
+// breaking change for deployed clients.
+export const operations = {
+    'profiles.get': profiles.getProfile,
+    'profiles.byUsername': profiles.getProfileByUsername,
+    'profiles.getOwn': profiles.getOwnProfile,
+    'profiles.create': profiles.createProfile,
+    'profiles.isUsernameTaken': profiles.isUsernameTaken,
+    'profiles.update': profiles.updateProfile,
+    'profiles.setInterests': profiles.setInterests,
+    'profiles.setTheme': profiles.setTheme,
+    'profiles.search': profiles.searchProfiles,
+    'profiles.stats': profiles.getProfileStats,
+    'profiles.followers': profiles.listFollowers,
+    'profiles.following': profiles.listFollowing,
+    'profiles.connections': profiles.listConnections,
+
+    'posts.listByDomain': posts.listDomainPosts,
+    'posts.listFeed': posts.listFeedPosts,
+    'posts.listByUser': posts.listUserPosts,
+    'posts.listLikedBy': posts.listLikedPosts,
+    'posts.search': posts.searchPosts,
+    'posts.countByDomain': posts.countPostsByDomain,
+    'posts.domainImages': posts.listDomainImages,
+    'posts.domainDigests': posts.digestDomains,
+    'posts.domainActivity': posts.measureDomainActivity,
+    'posts.create': posts.createPost,
+    'posts.update': posts.updatePost,
+    'posts.delete': posts.deletePost,
+    'posts.like': posts.likePost,
+    'posts.unlike': posts.unlikePost,
+
+    'comments.list': comments.listComments,
+    'comments.create': comments.createComment,
+    'comments.delete': comments.deleteComment,
+
+    'follows.status': follows.getFollowStatus,
+    'follows.follow': follows.follow,
+    'follows.unfollow': follows.unfollow,
+
+    'notifications.list': notifications.listNotifications,
+
+    'chats.list': chats.listChats,
+    'chats.partner': chats.getChatPartner,
+    'chats.getOrCreate': chats.getOrCreateChat,
+    'chats.status': chats.getChatStatus,
+    'chats.setStatus': chats.setChatStatus,
+    'messages.list': chats.listMessages,
+    'messages.send': chats.sendMessage,
+
+    'savedDomains.list': savedDomains.listSavedDomains,
+    'savedDomains.find': savedDomains.findSavedDomain,
+    'savedDomains.save': savedDomains.saveDomain,
+    'savedDomains.remove': savedDomains.unsaveDomain,
+
+    'domains.children': domains.listDomainChildren,
+    'domains.expand': domains.expandDomain,
+    'domains.addChildren': domains.addDomainChildren,
+    'domains.findByName': domains.findDomainsByName,
+    'domains.parents': domains.listDomainParents,
+    'domains.link': domains.linkDomain,
+    'domains.profile': domains.getDomainProfile,
+    'domains.generateProfile': domains.generateDomainProfile,
+};
+
+export type Operations = typeof operations;
+export type OperationName = keyof Operations;
+export type InputOf<K extends OperationName> = Operations[K] extends Operation<infer I, any> ? I : never;
+export type OutputOf<K extends OperationName> = Operations[K] extends Operation<any, infer O> ? O : never;
+
+export const getOperation = (name: string): Operation<unknown, unknown> | undefined =>
+    Object.prototype.hasOwnProperty.call(operations, name) ? (operations as any)[name] : undefined;
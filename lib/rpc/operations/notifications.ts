@@ -0,0 +1,35 @@
+import { defineOperation } from '../operation';
+import { object } from '../schema';
+import { notification, photoOf } from '../models';
+import { keyset, page, pageParams } from '../pagination';
+
+export const listNotifications = defineOperation({
+    kind: 'read',
+    input: object({ ...pageParams }),
+    output: page(notification),
+    run: async (db, position, { uid }) => {
+        const seek = keyset(position, 'DESC', 'n.created_at', 'n.id');
+        const rows = await db(`
+            SELECT n.*, p.username, p.photoURL, p.photo_id
+            FROM notifications n
+            LEFT JOIN profiles p ON n.actor_id = p.id
+            WHERE n.user_id = ? AND ${seek.where}
+            ORDER BY ${seek.orderBy}
+            LIMIT ${seek.fetch}
+        `, [uid, ...seek.params]);
+
+        return seek.toPage(rows, (n: any) => ({
+            id: n.id,
+            type: n.type,
+            actor_id: n.actor_id,
+            entity_id: n.entity_id,
+            created_at: n.created_at,
+            read_status: n.read_status ?? false,
+            actorProfile: {
+                id: n.actor_id,
+                username: n.username || 'Unknown',
+                photoURL: photoOf(n)
+            }
+        }));
+    }
+});
@@ -0,0 +1,377 @@
+import { defineOperation, notFound, Executor } from '../operation';
+import { object, string, id, optional, array, number, nothing, Infer, ValidationError } from '../schema';
+import { post, toPost, userPost, toUserPost, attachment, toAttachment, imageOf, mediaId, domainDigest, domainActivity } from '../models';
+import { assertAuthor } from '../guards';
+import { keyset, page, pageParams } from '../pagination';
+import { bumpPostCounter, bumpProfileCounter } from '../../counters';
+import { MAX_ATTACHMENTS, mediaUrl } from '../../media';
+import { resolveDomainId, SUBTREE, subtreeParams } from '../../taxonomy';
+
+const content = () => string({ max: 5000 });
+
+const attachmentInput = object({ mediaId: mediaId(), alt: optional(string({ max: 1000 })) });
+const attachments = () => optional(array(attachmentInput, { max: MAX_ATTACHMENTS }));
+
+// Shared projection for post lists: author, cover image + engagement for a
+// viewer (like_count and comment_count are columns of `p`, see lib/counters)
+const POST_COLUMNS = `
+    p.*,
+    u.username,
+    u.photoURL,
+    u.photo_id,
+    m.width as image_width,
+    m.height as image_height,
+    m.placeholder as image_placeholder,
+    EXISTS(SELECT 1 FROM likes l WHERE l.post_id = p.id AND l.user_id = ?) as is_liked_by_user
+`;
+
+const POST_JOINS = `
+    LEFT JOIN profiles u ON p.user_id = u.id
+    LEFT JOIN media m ON p.image_id = m.id
+`;
+
+// Sets `attachments` on each post row that has any, in one query for the page
+const withAttachments = async (db: Executor, rows: any[]) => {
+    if (rows.length === 0) return rows;
+    const found = await db(`
+        SELECT a.post_id, a.media_id, a.alt_text, m.width, m.height, m.placeholder
+        FROM post_attachments a
+        LEFT JOIN media m ON a.media_id = m.id
+        WHERE a.post_id IN (${rows.map(() => '?').join(', ')})
+        ORDER BY a.post_id, a.position
+    `, rows.map(r => r.id));
+
+    const byPost = new Map<string, any[]>();
+    found.forEach((a: any) => byPost.set(a.post_id, [...(byPost.get(a.post_id) ?? []), toAttachment(a)]));
+    return rows.map(row => (byPost.has(row.id) ? { ...row, attachments: byPost.get(row.id) } : row));
+};
+
+// Replaces a post's attachments, keeping posts.image_id on the first. Each
+// must be an image uploaded through /api/media.
+const saveAttachments = async (tx: Executor, postId: string, list: Infer<typeof attachmentInput>[]) => {
+    for (const [i, { mediaId }] of list.entries()) {
+        const [known] = await tx('SELECT id FROM media WHERE id = ?', [mediaId]);
+        if (!known) throw new ValidationError(`attachments[${i}].mediaId`, 'is not an uploaded image');
+    }
+    await tx('DELETE FROM post_attachments WHERE post_id = ?', [postId]);
+    for (const [position, { mediaId, alt }] of list.entries()) {
+        await tx(
+            'INSERT INTO post_attachments (post_id, position, media_id, alt_text) VALUES (?, ?, ?, ?)',
+            [postId, position, mediaId, alt || null]
+        );
+    }
+    await tx('UPDATE posts SET image_id = ? WHERE id = ?', [list[0]?.mediaId ?? null, postId]);
+};
+
+/**
+ * Posts in a domain, newest first. Only that exact domain: "Physics" under
+ * Science and under Education are different ones.
+ */
+export const listDomainPosts = defineOperation({
+    kind: 'read',
+    auth: 'optional',
+    input: object({ domainId: id(), ...pageParams }),
+    output: page(post),
+    run: async (db, { domainId, ...position }, ctx) => {
+        const seek = keyset(position, 'DESC', 'p.created_at', 'p.id');
+        const rows = await db(`
+            SELECT ${POST_COLUMNS}
+            FROM posts p
+            ${POST_JOINS}
+            WHERE p.domain_id = ?
+            AND ${seek.where}
+            ORDER BY ${seek.orderBy}
+            LIMIT ${seek.fetch}
+        `, [ctx.uid || 'NO_USER', await resolveDomainId(db, domainId), ...seek.params]);
+        return seek.toPage(await withAttachments(db, rows), toPost);
+    }
+});
+
+// Recent posts whose domain path mentions any of the interests, newest first.
+// (Ranking by likes can't be paged stably: counts change between pages.)
+export const listFeedPosts = defineOperation({
+    kind: 'read',
+    input: object({ interests: array(string({ min: 1, max: 100 }), { max: 50 }), ...pageParams }),
+    output: page(post),
+    run: async (db, { interests, ...position }, ctx) => {
+        if (interests.length === 0) return { items: [] };
+        const seek = keyset(position, 'DESC', 'p.created_at', 'p.id');
+        const likeClauses = interests.map(() => 'LOWER(p.domain_id) LIKE ?').join(' OR ');
+        const rows = await db(`
+            SELECT ${POST_COLUMNS}
+            FROM posts p
+            ${POST_JOINS}
+            WHERE (${likeClauses})
+            AND ${seek.where}
+            ORDER BY ${seek.orderBy}
+            LIMIT ${seek.fetch}
+        `, [ctx.uid || 'NO_USER', ...interests.map(i => `%${i.toLowerCase()}%`), ...seek.params]);
+        return seek.toPage(await withAttachments(db, rows), toPost);
+    }
+});
+
+export const listUserPosts = defineOperation({
+    kind: 'read',
+    input: object({ userId: id(), ...pageParams }),
+    output: page(userPost),
+    run: async (db, { userId, ...position }) => {
+        const seek = keyset(position, 'DESC', 'p.created_at', 'p.id');
+        const rows = await db(
+            `SELECT p.* FROM posts p WHERE p.user_id = ? AND ${seek.where} ORDER BY ${seek.orderBy} LIMIT ${seek.fetch}`,
+            [userId, ...seek.params]
+        );
+        return seek.toPage(rows, toUserPost);
+    }
+});
+
+// Likes are private: callers only ever see their own. Newest like first, so
+// the page position is the like's (created_at, id), the post's renamed.
+export const listLikedPosts = defineOperation({
+    kind: 'read',
+    input: object({ ...pageParams }),
+    output: page(userPost),
+    run: async (db, position, { uid }) => {
+        const seek = keyset(position, 'DESC', 'l.created_at', 'l.id');
+        const rows = await db(`
+            SELECT l.id, l.created_at, p.id AS post_id, p.created_at AS posted_at,
+                p.user_id, p.domain_id, p.content, p.imageURL, p.image_id, p.like_count
+            FROM posts p
+            JOIN likes l ON p.id = l.post_id
+            WHERE l.user_id = ? AND ${seek.where}
+            ORDER BY ${seek.orderBy}
+            LIMIT ${seek.fetch}
+        `, [uid, ...seek.params]);
+        return seek.toPage(rows, ({ post_id, posted_at, ...row }) => toUserPost({ ...row, id: post_id, created_at: posted_at }));
+    }
+});
+
+export const searchPosts = defineOperation({
+    kind: 'read',
+    input: object({ term: string({ min: 1, max: 100 }) }),
+    output: array(post),
+    run: async (db, { term }) => {
+        const rows = await db(`
+            SELECT p.id, p.content, p.created_at, p.user_id, p.domain_id, u.username, u.photoURL, u.photo_id
+            FROM posts p
+            LEFT JOIN profiles u ON p.user_id = u.id
+            WHERE LOWER(p.content) LIKE LOWER(?)
+            ORDER BY p.created_at DESC
+            LIMIT 20
+        `, [`%${term}%`]);
+        return rows.map(toPost);
+    }
+});
+
+// Post count per domain path, for "active frequencies"
+export const countPostsByDomain = defineOperation({
+    kind: 'read',
+    input: object({}),
+    output: array(object({ domainId: id(), count: number() })),
+    run: async (db) => {
+        const rows = await db('SELECT domain_id, COUNT(*) AS count FROM posts WHERE domain_id IS NOT NULL GROUP BY domain_id');
+        return rows.map((row: any) => ({ domainId: row.domain_id, count: Number(row.count) }));
+    }
+});
+
+// The domains the caller asked for by their current ids, mapped back to the
+// ids asked for (which may have been merged away since)
+const resolveRequested = async (db: Executor, domainIds: string[]) => {
+    const resolved = new Map<string, string>();
+    for (const domainId of domainIds) resolved.set(await resolveDomainId(db, domainId), domainId);
+    return resolved;
+};
+
+// A post's first non-empty line, cut to fit one line of a card
+const HEADLINE_LENGTH = 120;
+const headlineOf = (content: string) => {
+    const line = (content ?? '').split('\n').map(l => l.trim()).find(Boolean) ?? '';
+    return line.length > HEADLINE_LENGTH ? `${line.slice(0, HEADLINE_LENGTH - 1)}…` : line;
+};
+
+/**
+ * Post count and newest post of each of `domainIds` (exact ids, as in
+ * listByDomain), for Explore's close zoom. Domains without posts are left out.
+ */
+export const digestDomains = defineOperation({
+    kind: 'read',
+    input: object({ domainIds: array(id(), { max: 50 }) }),
+    output: array(domainDigest),
+    run: async (db, { domainIds }) => {
+        if (domainIds.length === 0) return [];
+        const resolved = await resolveRequested(db, domainIds);
+        const ids = [...resolved.keys()];
+        const marks = ids.map(() => '?').join(', ');
+
+        const counts = await db(`SELECT domain_id, COUNT(*) AS n FROM posts WHERE domain_id IN (${marks}) GROUP BY domain_id`, ids);
+        const latest = await db(`
+            SELECT p.id, p.domain_id, p.content, p.created_at, u.username
+            FROM posts p
+            LEFT JOIN profiles u ON p.user_id = u.id
+            WHERE p.domain_id IN (${marks})
+            AND NOT EXISTS (
+                SELECT 1 FROM posts q
+                WHERE q.domain_id = p.domain_id
+                AND (q.created_at > p.created_at OR (q.created_at = p.created_at AND q.id > p.id))
+            )
+        `, ids);
+
+        const latestByDomain = new Map(latest.map((row: any) => [row.domain_id, row]));
+        return counts.map((row: any) => {
+            const newest: any = latestByDomain.get(row.domain_id);
+            return {
+                domainId: resolved.get(row.domain_id)!,
+                count: Number(row.n),
+                latest: newest && {
+                    id: newest.id,
+                    headline: headlineOf(newest.content),
+                    created_at: newest.created_at,
+                    username: newest.username || undefined,
+                },
+            };
+        });
+    }
+});
+
+// What counts as recent activity
+const RECENT_DAYS = 7;
+
+/**
+ * How active each of `domainIds` is: its posts and those of every domain
+ * below it, how many of them are from the last RECENT_DAYS, and when the
+ * newest was posted. "Below" goes by id, so a domain linked in from elsewhere
+ * counts under the parent it was created under. Domains without posts are
+ * left out.
+ */
+export const measureDomainActivity = defineOperation({
+    kind: 'read',
+    input: object({ domainIds: array(id(), { max: 50 }) }),
+    output: array(domainActivity),
+    run: async (db, { domainIds }) => {
+        if (domainIds.length === 0) return [];
+        const resolved = await resolveRequested(db, domainIds);
+        const ids = [...resolved.keys()];
+        const since = new Date(Date.now() - RECENT_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+        // Per domain that has posts, then added up under each one asked for
+        const rows = await db(`
+            SELECT domain_id, COUNT(*) AS n, SUM(CASE WHEN created_at >= ? THEN 1 ELSE 0 END) AS recent, MAX(created_at) AS latest
+            FROM posts
+            WHERE ${ids.map(() => SUBTREE).join(' OR ')}
+            GROUP BY domain_id
+        `, [since, ...ids.flatMap(subtreeParams)]);
+
+        return ids.flatMap(id => {
+            const below = rows.filter((row: any) => row.domain_id === id || String(row.domain_id).startsWith(`${id}/`));
+            if (below.length === 0) return [];
+            const latest = below.map((row: any) => new Date(row.latest).getTime());
+            return [{
+                domainId: resolved.get(id)!,
+                posts: below.reduce((sum: number, row: any) => sum + Number(row.n), 0),
+                recent: below.reduce((sum: number, row: any) => sum + Number(row.recent || 0), 0),
+                lastPostAt: new Date(Math.max(...latest)).toISOString(),
+            }];
+        });
+    }
+});
+
+// The newest images posted to a domain, across all attachments
+export const listDomainImages = defineOperation({
+    kind: 'read',
+    input: object({ domainId: id() }),
+    output: array(attachment),
+    run: async (db, { domainId }) => {
+        const rows = await db(`
+            SELECT a.media_id, a.alt_text, p.image_id, p.imageURL
+            FROM posts p
+            LEFT JOIN post_attachments a ON a.post_id = p.id
+            WHERE p.domain_id = ?
+            AND (a.media_id IS NOT NULL OR p.image_id IS NOT NULL OR (p.imageURL IS NOT NULL AND p.imageURL != ''))
+            ORDER BY p.created_at DESC, a.position ASC
+            LIMIT 10
+        `, [await resolveDomainId(db, domainId)]);
+        return rows.map((r: any) => ({ url: r.media_id ? mediaUrl(r.media_id)! : imageOf(r)!, alt: r.alt_text }));
+    }
+});
+
+export const createPost = defineOperation({
+    kind: 'write',
+    input: object({ id: id(), domainId: id(), content: content(), attachments: attachments() }),
+    output: nothing(),
+    run: async (db, { id, domainId, content, attachments = [] }, ctx) => {
+        await db.transaction(async tx => {
+            await tx(
+                'INSERT INTO posts (id, user_id, domain_id, content, created_at) VALUES (?, ?, ?, ?, ?)',
+                [id, ctx.uid, await resolveDomainId(tx, domainId), content, new Date().toISOString()]
+            );
+            await saveAttachments(tx, id, attachments);
+            await bumpProfileCounter(tx, ctx.uid!, 'post_count', 1);
+        });
+    }
+});
+
+export const updatePost = defineOperation({
+    kind: 'write',
+    input: object({ id: id(), domainId: id(), content: content(), attachments: attachments() }),
+    output: nothing(),
+    run: async (db, { id, domainId, content, attachments }, ctx) => {
+        await assertAuthor(db, 'posts', id, ctx);
+        // Omitted attachments are left as they are. As with profile photos,
+        // an image still inline in imageURL is kept either way.
+        await db.transaction(async tx => {
+            await tx('UPDATE posts SET content = ?, domain_id = ? WHERE id = ?', [content, await resolveDomainId(tx, domainId), id]);
+            if (attachments) await saveAttachments(tx, id, attachments);
+        });
+    }
+});
+
+export const deletePost = defineOperation({
+    kind: 'write',
+    input: object({ id: id() }),
+    output: nothing(),
+    run: async (db, { id }, ctx) => {
+        await assertAuthor(db, 'posts', id, ctx);
+        // No FK cascade in TiDB, so clean up dependents by hand
+        await db.transaction(async tx => {
+            const likes = await tx('SELECT COUNT(*) as c FROM likes WHERE post_id = ?', [id]);
+            await bumpProfileCounter(tx, ctx.uid!, 'post_count', -1);
+            await bumpProfileCounter(tx, ctx.uid!, 'likes_received', -Number(likes[0]?.c ?? 0));
+            await tx('DELETE FROM posts WHERE id = ?', [id]);
+            await tx('DELETE FROM likes WHERE post_id = ?', [id]);
+            await tx('DELETE FROM comments WHERE post_id = ?', [id]);
+            await tx('DELETE FROM post_attachments WHERE post_id = ?', [id]);
+        });
+    }
+});
+
+// Liking twice (e.g. an offline like replayed after liking elsewhere) is a no-op
+export const likePost = defineOperation({
+    kind: 'write',
+    input: object({ postId: id() }),
+    output: nothing(),
+    run: (db, { postId }, ctx) => db.transaction(async tx => {
+        const target = await tx('SELECT user_id FROM posts WHERE id = ?', [postId]);
+        if (target.length === 0) throw notFound('This post no longer exists');
+        const existing = await tx('SELECT id FROM likes WHERE post_id = ? AND user_id = ?', [postId, ctx.uid]);
+        if (existing.length > 0) return;
+        await tx(
+            'INSERT INTO likes (id, post_id, user_id, created_at) VALUES (?, ?, ?, ?)',
+            [crypto.randomUUID(), postId, ctx.uid, new Date().toISOString()]
+        );
+        await bumpPostCounter(tx, postId, 'like_count', 1);
+        await bumpProfileCounter(tx, target[0].user_id, 'likes_received', 1);
+    })
+});
+
+export const unlikePost = defineOperation({
+    kind: 'write',
+    input: object({ postId: id() }),
+    output: nothing(),
+    run: (db, { postId }, ctx) => db.transaction(async tx => {
+        const existing = await tx('SELECT id FROM likes WHERE post_id = ? AND user_id = ?', [postId, ctx.uid]);
+        if (existing.length === 0) return;
+        await tx('DELETE FROM likes WHERE post_id = ? AND user_id = ?', [postId, ctx.uid]);
+        await bumpPostCounter(tx, postId, 'like_count', -existing.length);
+        const target = await tx('SELECT user_id FROM posts WHERE id = ?', [postId]);
+        if (target.length > 0) await bumpProfileCounter(tx, target[0].user_id, 'likes_received', -existing.length);
+    })
+});
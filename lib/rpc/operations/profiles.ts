@@ -0,0 +1,184 @@
+import { defineOperation } from '../operation';
+import { object, string, id, optional, array, boolean, nothing, MAX_ARRAY_LENGTH } from '../schema';
+import { publicProfile, ownProfile, profileStats, toProfile, mediaId } from '../models';
+
+const username = () => string({ max: 64 });
+
+export const getProfile = defineOperation({
+    kind: 'read',
+    input: object({ id: id() }),
+    output: optional(publicProfile),
+    run: async (db, { id }) => {
+        const rows = await db('SELECT * FROM profiles WHERE id = ?', [id]);
+        return rows.length > 0 ? toProfile(rows[0]) : undefined;
+    }
+});
+
+// The profile a username belongs to, for /u/<username> links
+export const getProfileByUsername = defineOperation({
+    kind: 'read',
+    input: object({ username: username() }),
+    output: optional(publicProfile),
+    run: async (db, { username }) => {
+        const rows = username ? await db('SELECT * FROM profiles WHERE username = ?', [username]) : [];
+        return rows.length > 0 ? toProfile(rows[0]) : undefined;
+    }
+});
+
+export const getOwnProfile = defineOperation({
+    kind: 'read',
+    input: object({}),
+    output: optional(ownProfile),
+    run: async (db, _input, ctx) => {
+        const rows = await db('SELECT * FROM profiles WHERE id = ?', [ctx.uid]);
+        return rows.length > 0 ? toProfile(rows[0]) : undefined;
+    }
+});
+
+/**
+ * Creates the profile row for the caller's freshly signed-in account.
+ * No-op if the row already exists; a requested username that is already
+ * taken is dropped so the user is prompted to pick one. The email comes from
+ * the verified token, not from the client.
+ */
+export const createProfile = defineOperation({
+    kind: 'write',
+    input: object({ username: optional(username()) }),
+    output: object({ created: boolean() }),
+    run: async (db, { username }, ctx) => {
+        const existing = await db('SELECT id FROM profiles WHERE id = ?', [ctx.uid]);
+        if (existing.length > 0) return { created: false };
+
+        let finalUsername = username || '';
+        if (finalUsername) {
+            const taken = await db('SELECT id FROM profiles WHERE username = ?', [finalUsername]);
+            if (taken.length > 0) finalUsername = '';
+        }
+
+        await db('INSERT IGNORE INTO profiles (id, email, username) VALUES (?, ?, ?)', [ctx.uid, ctx.email || '', finalUsername]);
+        return { created: true };
+    }
+});
+
+export const isUsernameTaken = defineOperation({
+    kind: 'read',
+    input: object({ username: username() }),
+    output: boolean(),
+    run: async (db, { username }, ctx) => {
+        // The caller's own current username doesn't count as taken
+        const rows = await db('SELECT id FROM profiles WHERE username = ? AND id != ?', [username, ctx.uid || '']);
+        return rows.length > 0;
+    }
+});
+
+export const updateProfile = defineOperation({
+    kind: 'write',
+    input: object({
+        username: username(),
+        bio: optional(string({ max: 2000 })),
+        tags: optional(string({ max: 500 })),
+        photoId: optional(mediaId()),
+    }),
+    output: nothing(),
+    run: async (db, { username, bio, tags, photoId }, { uid, email }) => {
+        // A photo not yet moved out of photoURL is left alone, so saving
+        // without picking a new one keeps it
+        await db(`
+            INSERT INTO profiles (id, username, email, bio, tags, photo_id) VALUES (?, ?, ?, ?, ?, ?)
+            ON DUPLICATE KEY UPDATE username = ?, bio = ?, tags = ?, photo_id = ?
+        `, [uid, username, email || '', bio ?? null, tags ?? null, photoId ?? null, username, bio ?? null, tags ?? null, photoId ?? null]);
+    }
+});
+
+export const setInterests = defineOperation({
+    kind: 'write',
+    input: object({ interests: array(string({ min: 1, max: 100 }), { max: 50 }) }),
+    output: nothing(),
+    run: async (db, { interests }, ctx) => {
+        await db('UPDATE profiles SET interests = ? WHERE id = ?', [interests.join(','), ctx.uid]);
+    }
+});
+
+export const setTheme = defineOperation({
+    kind: 'write',
+    input: object({ theme: string({ max: 20 }) }),
+    output: nothing(),
+    run: async (db, { theme }, ctx) => {
+        await db('UPDATE profiles SET theme = ? WHERE id = ?', [theme, ctx.uid]);
+    }
+});
+
+export const searchProfiles = defineOperation({
+    kind: 'read',
+    input: object({ term: string({ min: 1, max: 100 }) }),
+    output: array(publicProfile),
+    run: async (db, { term }) => {
+        const rows = await db(`
+            SELECT id, username, photoURL, photo_id, bio
+            FROM profiles
+            WHERE LOWER(username) LIKE LOWER(?)
+            ORDER BY username ASC
+            LIMIT 20
+        `, [`%${term}%`]);
+        return rows.map(toProfile);
+    }
+});
+
+export const getProfileStats = defineOperation({
+    kind: 'read',
+    input: object({ id: id() }),
+    output: profileStats,
+    run: async (db, { id }) => {
+        // Kept current by every write (see lib/counters)
+        const rows = await db('SELECT post_count, follower_count, following_count, likes_received FROM profiles WHERE id = ?', [id]);
+        const row = rows[0];
+
+        return {
+            posts: row?.post_count ?? 0,
+            followers: row?.follower_count ?? 0,
+            following: row?.following_count ?? 0,
+            totalLikes: row?.likes_received ?? 0
+        };
+    }
+});
+
+// A user's followers, the newest first
+export const listFollowers = defineOperation({
+    kind: 'read',
+    input: object({ id: id() }),
+    output: array(publicProfile),
+    run: async (db, { id }) => {
+        const rows = await db(`SELECT p.* FROM profiles p JOIN follows f ON f.follower_id = p.id WHERE f.following_id = ? ORDER BY f.created_at DESC LIMIT ${MAX_ARRAY_LENGTH}`, [id]);
+        return rows.map(toProfile);
+    }
+});
+
+// The users a user follows, the latest followed first
+export const listFollowing = defineOperation({
+    kind: 'read',
+    input: object({ id: id() }),
+    output: array(publicProfile),
+    run: async (db, { id }) => {
+        const rows = await db(`SELECT p.* FROM profiles p JOIN follows f ON f.following_id = p.id WHERE f.follower_id = ? ORDER BY f.created_at DESC LIMIT ${MAX_ARRAY_LENGTH}`, [id]);
+        return rows.map(toProfile);
+    }
+});
+
+// Everyone the caller follows or is followed by (candidates for a new
+// chat), most recently connected first
+export const listConnections = defineOperation({
+    kind: 'read',
+    input: object({}),
+    output: array(publicProfile),
+    run: async (db, _input, { uid }) => {
+        const rows = await db(`
+            SELECT p.* FROM profiles p
+            JOIN follows f ON (f.following_id = p.id AND f.follower_id = ?)
+                OR (f.follower_id = p.id AND f.following_id = ?)
+            GROUP BY p.id
+            ORDER BY MAX(f.created_at) DESC
+            LIMIT ${MAX_ARRAY_LENGTH}
+        `, [uid, uid]);
+        return rows.map(toProfile);
+    }
+});
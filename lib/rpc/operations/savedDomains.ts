@@ -0,0 +1,44 @@
+import { defineOperation } from '../operation';
+import { object, string, id, optional, array, nothing, MAX_ARRAY_LENGTH } from '../schema';
+import { savedDomain } from '../models';
+import { resolveDomainId } from '../../taxonomy';
+
+// The caller's saved domains, newest first
+export const listSavedDomains = defineOperation({
+    kind: 'read',
+    input: object({}),
+    output: array(savedDomain),
+    run: (db, _input, { uid }) => db(`SELECT * FROM saved_domains WHERE user_id = ? ORDER BY saved_at DESC LIMIT ${MAX_ARRAY_LENGTH}`, [uid])
+});
+
+// Returns the saved_domains row id if the caller has saved this domain
+export const findSavedDomain = defineOperation({
+    kind: 'read',
+    input: object({ domainId: id() }),
+    output: optional(id()),
+    run: async (db, { domainId }, ctx) => {
+        const rows = await db('SELECT id FROM saved_domains WHERE user_id = ? AND domain_id = ?', [ctx.uid, await resolveDomainId(db, domainId)]);
+        return rows[0]?.id;
+    }
+});
+
+export const saveDomain = defineOperation({
+    kind: 'write',
+    input: object({ id: id(), domainId: id(), domainName: string({ min: 1, max: 255 }) }),
+    output: nothing(),
+    run: async (db, { id, domainId, domainName }, ctx) => {
+        await db(
+            'INSERT INTO saved_domains (id, user_id, domain_id, domain_name, saved_at) VALUES (?, ?, ?, ?, ?)',
+            [id, ctx.uid, await resolveDomainId(db, domainId), domainName, new Date().toISOString()]
+        );
+    }
+});
+
+export const unsaveDomain = defineOperation({
+    kind: 'write',
+    input: object({ id: id() }),
+    output: nothing(),
+    run: async (db, { id }, ctx) => {
+        await db('DELETE FROM saved_domains WHERE id = ? AND user_id = ?', [id, ctx.uid]);
+    }
+});
@@ -0,0 +1,205 @@
+import type { OperationName } from './operations';
+
+// -----------------------------------------------------------------------------
+// OFFLINE OUTBOX
+// -----------------------------------------------------------------------------
+// Writes made while the API is unreachable run against the local database
+// (so the UI updates) and are also recorded here, in LocalStorage, in order.
+// When the connection comes back they are replayed against the API, each with
+// the idempotency key it was first sent with, so a write that was applied but
+// whose response was lost (then or on replay) is not applied twice.
+//
+// Conflict rules:
+// - While still queued, opposite writes cancel out (like then unlike, follow
+//   then unfollow, save then remove, create then delete) and later edits fold
+//   into the queued one.
+// - On replay, a delete/unlike/unfollow whose target is already gone counts as
+//   done. Anything else the server rejects (the post was deleted remotely, the
+//   chat blocked us, ...) is marked failed and kept until the user dismisses it.
+// - Network errors, 5xx and expired sessions stop the replay and keep the rest
+//   of the queue pending, so order is never broken.
+// -----------------------------------------------------------------------------
+
+export interface OutboxItem {
+    // Doubles as the idempotency key
+    key: string;
+    name: OperationName;
+    input: any;
+    // Replayed only with this user's token
+    uid: string;
+    createdAt: string;
+    attempts: number;
+    status: 'pending' | 'failed';
+    error?: string;
+}
+
+type OutboxListener = (items: OutboxItem[]) => void;
+
+const STORAGE_KEY = 'hyle_outbox';
+
+const listeners: Set<OutboxListener> = new Set();
+
+const load = (): OutboxItem[] => {
+    if (typeof localStorage === 'undefined') return [];
+    try {
+        return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    } catch { return []; }
+};
+
+const save = (items: OutboxItem[]) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+    } catch (e) { console.error('[Outbox] Failed to persist', e); }
+    listeners.forEach(l => l(items));
+};
+
+export const subscribeToOutbox = (listener: OutboxListener) => {
+    listeners.add(listener);
+    listener(load()); // Immediate callback with current state
+    return () => listeners.delete(listener);
+};
+
+export const hasPendingWrites = (uid: string) => load().some(i => i.uid === uid && i.status === 'pending');
+
+// --- Coalescing (while still queued) ---
+
+// [write, its inverse, the field identifying the target]
+const INVERSES: [OperationName, OperationName, string][] = [
+    ['posts.like', 'posts.unlike', 'postId'],
+    ['follows.follow', 'follows.unfollow', 'followingId'],
+];
+
+// [create, delete]: deleting something that never reached the server
+const LIFECYCLES: [OperationName, OperationName][] = [
+    ['posts.create', 'posts.delete'],
+    ['comments.create', 'comments.delete'],
+    ['savedDomains.save', 'savedDomains.remove'],
+];
+
+// Last write wins: a newer one replaces the queued one with the same target
+const SUPERSEDES: [OperationName, string | null][] = [
+    ['profiles.update', null],
+    ['profiles.setTheme', null],
+    ['profiles.setInterests', null],
+    ['posts.update', 'id'],
+    ['chats.setStatus', 'chatId'],
+];
+
+const coalesce = (queue: OutboxItem[], incoming: OutboxItem): OutboxItem[] => {
+    const mine = (i: OutboxItem) => i.uid === incoming.uid && i.status === 'pending';
+    const drop = (doomed: OutboxItem[]) => queue.filter(i => !doomed.includes(i));
+
+    for (const [forward, inverse, field] of INVERSES) {
+        if (incoming.name !== forward && incoming.name !== inverse) continue;
+        const opposite = incoming.name === forward ? inverse : forward;
+        const previous = [...queue].reverse().find(i => mine(i) && (i.name === forward || i.name === inverse) && i.input[field] === incoming.input[field]);
+        if (previous?.name === opposite) return drop([previous]);
+    }
+
+    for (const [create, remove] of LIFECYCLES) {
+        if (incoming.name !== remove) continue;
+        const created = queue.find(i => mine(i) && i.name === create && i.input.id === incoming.input.id);
+        if (!created) continue;
+        // Everything else queued against the never-synced post goes with it
+        const dependents = create === 'posts.create'
+            ? queue.filter(i => mine(i) && (i.input.postId === created.input.id || (i.name === 'posts.update' && i.input.id === created.input.id)))
+            : [];
+        return drop([created, ...dependents]);
+    }
+
+    if (incoming.name === 'posts.update') {
+        const created = queue.find(i => mine(i) && i.name === 'posts.create' && i.input.id === incoming.input.id);
+        if (created) {
+            created.input = { ...created.input, ...incoming.input };
+            return queue;
+        }
+    }
+
+    for (const [name, field] of SUPERSEDES) {
+        if (incoming.name !== name) continue;
+        const stale = queue.filter(i => mine(i) && i.name === name && (field === null || i.input[field] === incoming.input[field]));
+        return [...drop(stale), incoming];
+    }
+
+    return [...queue, incoming];
+};
+
+// `key` is the idempotency key the write was already tried with, if any
+export const enqueue = (name: OperationName, input: unknown, uid: string, key: string = crypto.randomUUID()) => {
+    const item: OutboxItem = {
+        key,
+        name,
+        input,
+        uid,
+        createdAt: new Date().toISOString(),
+        attempts: 0,
+        status: 'pending'
+    };
+    save(coalesce(load(), item));
+};
+
+// --- Replay ---
+
+// Removals whose target being gone already is the desired end state
+const ALREADY_DONE_ON_404: OperationName[] = ['posts.delete', 'comments.delete', 'posts.unlike', 'follows.unfollow', 'savedDomains.remove'];
+
+export type OutboxSender = (item: OutboxItem) => Promise<unknown>;
+
+let replaying: Promise<void> | null = null;
+
+// Applies `change` to the queue as it is now: writes may have been queued
+// while a request was in flight
+const update = (change: (queue: OutboxItem[]) => OutboxItem[]) => save(change(load()));
+
+const replay = async (uid: string, send: OutboxSender) => {
+    for (;;) {
+        const item = load().find(i => i.uid === uid && i.status === 'pending');
+        if (!item) return;
+
+        try {
+            const result = await send(item);
+            update(queue => {
+                const rest = queue.filter(i => i.key !== item.key);
+                // The server already had a chat with this user: point queued
+                // messages at its id instead of the one we made up offline
+                if (item.name === 'chats.getOrCreate' && typeof result === 'string' && result !== item.input.id) {
+                    return rest.map(i => (i.input?.chatId === item.input.id ? { ...i, input: { ...i.input, chatId: result } } : i));
+                }
+                return rest;
+            });
+        } catch (err: any) {
+            const status: number | undefined = err?.status;
+            const transient = status === undefined || status >= 500 || status === 401;
+
+            if (transient) {
+                // Try again next time we're back in the cloud; keep order
+                update(queue => queue.map(i => (i.key === item.key ? { ...i, attempts: i.attempts + 1, error: err?.message } : i)));
+                return;
+            }
+            if (status === 404 && ALREADY_DONE_ON_404.includes(item.name)) {
+                update(queue => queue.filter(i => i.key !== item.key));
+                continue;
+            }
+            update(queue => queue.map(i => (i.key === item.key ? { ...i, attempts: i.attempts + 1, status: 'failed', error: err?.message || 'Rejected by the server' } : i)));
+        }
+    }
+};
+
+// Replays the user's pending writes in order. Concurrent calls share one run.
+export const flushOutbox = (uid: string, send: OutboxSender): Promise<void> => {
+    if (!replaying) {
+        replaying = replay(uid, send)
+            .catch(e => console.error('[Outbox] Replay failed', e))
+            .finally(() => { replaying = null; });
+    }
+    return replaying;
+};
+
+// Puts a failed write back in the queue (at its original position)
+export const retryFailed = (key: string) => {
+    update(queue => queue.map(i => (i.key === key ? { ...i, status: 'pending', error: undefined } : i)));
+};
+
+export const discardFailed = (key: string) => {
+    update(queue => queue.filter(i => !(i.key === key && i.status === 'failed')));
+};
@@ -0,0 +1,96 @@
+import { Schema, ValidationError, object, array, string, number, optional } from './schema';
+import type { Page } from '../../types';
+
+// -----------------------------------------------------------------------------
+// KEYSET PAGINATION
+// -----------------------------------------------------------------------------
+// Every list is ordered by (created_at, id) and paged by position instead of
+// OFFSET: a page asks for the rows strictly past the last one it has seen.
+// - Rows inserted in the meantime don't shift later pages (no duplicates,
+//   no gaps).
+// - The database seeks straight to the cursor instead of counting past
+//   every skipped row, so page 40 costs the same as page 1.
+//
+// Cursors are opaque to the client: the position of a page's last row,
+// encoded. `nextCursor` is absent on the last page.
+//
+//   const page = keyset(input, 'DESC', 'p.created_at', 'p.id');
+//   const rows = await db(`... WHERE ... AND ${page.where} ORDER BY ${page.orderBy} LIMIT ${page.fetch}`, [..., ...page.params]);
+//   return page.toPage(rows, toPost);
+// -----------------------------------------------------------------------------
+
+export const MAX_PAGE_SIZE = 100;
+
+// Input fields shared by every paginated operation
+export const pageParams = {
+    cursor: optional(string({ min: 1, max: 1024 })),
+    limit: optional(number({ integer: true, min: 1, max: MAX_PAGE_SIZE })),
+};
+
+export const page = <T>(item: Schema<T>): Schema<Page<T>> => object({
+    items: array(item, { max: MAX_PAGE_SIZE }),
+    nextCursor: optional(string()),
+});
+
+interface Position {
+    createdAt: string;
+    id: string;
+}
+
+// DATETIME columns come back as strings from TiDB, Date objects from some drivers
+const positionOf = (row: any): Position => ({
+    createdAt: row.created_at instanceof Date ? row.created_at.toISOString() : String(row.created_at),
+    id: String(row.id),
+});
+
+const encodeCursor = ({ createdAt, id }: Position) => btoa(encodeURIComponent(JSON.stringify([createdAt, id])));
+
+const decodeCursor = (cursor: string): Position => {
+    try {
+        const [createdAt, id] = JSON.parse(decodeURIComponent(atob(cursor)));
+        if (typeof createdAt === 'string' && typeof id === 'string') return { createdAt, id };
+    } catch { /* Reported below */ }
+    throw new ValidationError('cursor', 'is not a valid cursor');
+};
+
+export interface Keyset {
+    // Condition selecting rows past the cursor ('1 = 1' on the first page)
+    where: string;
+    params: any[];
+    orderBy: string;
+    // Rows to fetch: one more than the page, to tell whether another follows
+    fetch: number;
+    toPage: <T>(rows: any[], map: (row: any) => T) => Page<T>;
+}
+
+/**
+ * Builds the seek condition for one page. `order` is the list's order
+ * ('DESC' = newest first); `createdAt` and `id` are the (qualified) column
+ * names, which must be backed by raw `created_at` and `id` fields in the
+ * returned rows.
+ */
+export const keyset = (
+    { cursor, limit }: { cursor?: string; limit?: number },
+    order: 'ASC' | 'DESC',
+    createdAt: string,
+    id: string,
+    defaultLimit = 20
+): Keyset => {
+    const size = limit ?? defaultLimit;
+    const after = cursor ? decodeCursor(cursor) : null;
+    const past = order === 'DESC' ? '<' : '>';
+
+    return {
+        where: after ? `(${createdAt} ${past} ? OR (${createdAt} = ? AND ${id} ${past} ?))` : '1 = 1',
+        params: after ? [after.createdAt, after.createdAt, after.id] : [],
+        orderBy: `${createdAt} ${order}, ${id} ${order}`,
+        fetch: size + 1,
+        toPage: (rows, map) => {
+            const items = rows.slice(0, size);
+            return {
+                items: items.map(map),
+                nextCursor: rows.length > size ? encodeCursor(positionOf(items[items.length - 1])) : undefined,
+            };
+        },
+    };
+};
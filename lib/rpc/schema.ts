@@ -0,0 +1,126 @@
+// -----------------------------------------------------------------------------
+// RPC SCHEMAS
+// -----------------------------------------------------------------------------
+// Tiny validation combinators shared by the client and the API routes.
+// Every operation declares an input schema (rejects anything malformed before
+// it reaches SQL) and an output schema (only declared fields leave the server,
+// so columns like `profiles.email` can't leak through a `SELECT *`).
+//
+// Coercion is deliberately lenient on the way OUT of the database: TiDB hands
+// back COUNT(*) as strings and booleans as 0/1, so numbers and flags normalise.
+// -----------------------------------------------------------------------------
+
+export interface Schema<T> {
+    parse: (value: unknown, path?: string) => T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export class ValidationError extends Error {
+    constructor(public path: string, message: string) {
+        super(`${path || 'input'}: ${message}`);
+        this.name = 'ValidationError';
+    }
+}
+
+interface StringOptions {
+    min?: number;
+    max?: number;
+    pattern?: RegExp;
+}
+
+export const string = ({ min = 0, max = 10000, pattern }: StringOptions = {}): Schema<string> => ({
+    parse: (value, path = '') => {
+        if (typeof value !== 'string') throw new ValidationError(path, 'expected a string');
+        if (value.length < min) throw new ValidationError(path, `must be at least ${min} characters`);
+        if (value.length > max) throw new ValidationError(path, `must be at most ${max} characters`);
+        if (pattern && !pattern.test(value)) throw new ValidationError(path, 'has an invalid format');
+        return value;
+    }
+});
+
+// Firebase UIDs, UUIDs and path-style domain ids all fit in a VARCHAR(255)
+export const id = () => string({ min: 1, max: 255 });
+
+export const number = ({ integer = false, min, max }: { integer?: boolean; min?: number; max?: number } = {}): Schema<number> => ({
+    parse: (value, path = '') => {
+        const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+        if (typeof n !== 'number' || Number.isNaN(n)) throw new ValidationError(path, 'expected a number');
+        if (integer && !Number.isInteger(n)) throw new ValidationError(path, 'expected an integer');
+        if (min !== undefined && n < min) throw new ValidationError(path, `must be >= ${min}`);
+        if (max !== undefined && n > max) throw new ValidationError(path, `must be <= ${max}`);
+        return n;
+    }
+});
+
+export const boolean = (): Schema<boolean> => ({
+    parse: (value, path = '') => {
+        if (typeof value === 'boolean') return value;
+        if (value === 0 || value === 1 || value === '0' || value === '1') return Number(value) === 1;
+        throw new ValidationError(path, 'expected a boolean');
+    }
+});
+
+// DATETIME columns come back as strings from TiDB, Date objects from some drivers
+export const timestamp = (): Schema<string> => ({
+    parse: (value, path = '') => {
+        if (value instanceof Date) return value.toISOString();
+        if (typeof value === 'string' && value.length <= 64) return value;
+        throw new ValidationError(path, 'expected a timestamp');
+    }
+});
+
+export const oneOf = <T extends string>(...values: T[]): Schema<T> => ({
+    parse: (value, path = '') => {
+        if (!values.includes(value as T)) throw new ValidationError(path, `expected one of ${values.join(', ')}`);
+        return value as T;
+    }
+});
+
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+    optional: true;
+}
+
+// null and undefined both collapse to undefined, so nullable columns serialise cleanly
+export const optional = <T>(schema: Schema<T>): OptionalSchema<T> => ({
+    optional: true,
+    parse: (value, path = '') => (value === undefined || value === null ? undefined : schema.parse(value, path))
+});
+
+// The longest array a schema accepts unless it says otherwise. Lists that
+// aren't paged return at most this many rows, so they never exceed it.
+export const MAX_ARRAY_LENGTH = 500;
+
+export const array = <T>(item: Schema<T>, { max = MAX_ARRAY_LENGTH }: { max?: number } = {}): Schema<T[]> => ({
+    parse: (value, path = '') => {
+        if (!Array.isArray(value)) throw new ValidationError(path, 'expected an array');
+        if (value.length > max) throw new ValidationError(path, `must contain at most ${max} items`);
+        return value.map((v, i) => item.parse(v, `${path}[${i}]`));
+    }
+});
+
+type Shape = Record<string, Schema<any>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalSchema<any> ? K : never }[keyof S];
+
+export type ObjectOf<S extends Shape> =
+    { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } &
+    { [K in OptionalKeys<S>]?: Infer<S[K]> };
+
+// Unknown keys are dropped rather than rejected
+export const object = <S extends Shape>(shape: S): Schema<ObjectOf<S>> => ({
+    parse: (value, path = '') => {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            throw new ValidationError(path, 'expected an object');
+        }
+        const result: any = {};
+        for (const key of Object.keys(shape)) {
+            const parsed = shape[key].parse((value as any)[key], path ? `${path}.${key}` : key);
+            if (parsed !== undefined) result[key] = parsed;
+        }
+        return result;
+    }
+});
+
+export const nothing = (): Schema<void> => ({
+    parse: () => undefined
+});
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AiProvider, createGateway, memoryCache } from './ai';
+
+const ticks = async (n: number) => {
+    for (let i = 0; i < n; i++) await Promise.resolve();
+};
+
+// A provider that records how many calls it has in flight at once. The
+// prompt "first" answers when `release` is called, any other after a few ms.
+const countingProvider = () => {
+    const stats = { running: 0, peak: 0 };
+    let release = () => { };
+    const released = new Promise<void>(resolve => { release = resolve; });
+    const provider: AiProvider = {
+        name: 'counting',
+        model: 'counting',
+        generate: async ({ prompt }) => {
+            stats.running++;
+            stats.peak = Math.max(stats.peak, stats.running);
+            await (prompt === 'first' ? released : new Promise(resolve => setTimeout(resolve, 5)));
+            stats.running--;
+            return prompt;
+        }
+    };
+    return { provider, stats, release: () => release() };
+};
+
+test('never runs more than `concurrency` provider calls at once', async () => {
+    // A newcomer may arrive at any point while a finished call hands its slot
+    // to one that waited; try each point in turn
+    for (let delay = 0; delay < 30; delay++) {
+        const { provider, stats, release } = countingProvider();
+        const gateway = createGateway({ provider, cache: memoryCache(), concurrency: 1, rateLimit: 1000 });
+        const ask = (prompt: string) => gateway.generate({ system: 'test', prompt, expect: 'text' }, 'caller');
+
+        const first = ask('first');
+        const waiting = ask('waiting');
+        await ticks(20);
+        release();
+        await ticks(delay);
+        const newcomer = ask('newcomer');
+        await Promise.all([first, waiting, newcomer]);
+
+        assert.ok(stats.peak <= 1, `peak of ${stats.peak} calls in flight with the newcomer ${delay} ticks late`);
+    }
+});
+
+test('answers every call once more than `concurrency` are made', async () => {
+    const { provider, stats, release } = countingProvider();
+    const gateway = createGateway({ provider, cache: memoryCache(), concurrency: 3, rateLimit: 1000 });
+    const prompts = ['first', ...Array.from({ length: 11 }, (_, i) => `question ${i}`)];
+
+    const answers = Promise.all(prompts.map(prompt => gateway.generate({ system: 'test', prompt, expect: 'text' }, 'caller')));
+    release();
+
+    assert.deepEqual((await answers).map(answer => answer.text), prompts);
+    assert.ok(stats.peak <= 3, `peak of ${stats.peak} calls in flight`);
+});
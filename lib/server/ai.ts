@@ -0,0 +1,369 @@
+import { createHash } from 'crypto';
+import { GoogleGenAI } from '@google/genai';
+import type { Executor } from '../rpc/operation';
+
+// -----------------------------------------------------------------------------
+// AI GATEWAY
+// -----------------------------------------------------------------------------
+// Every model call the app makes goes through here, on the server. The model
+// behind it is pluggable, selected by AI_PROVIDER:
+// - pollinations (default): text.pollinations.ai, no key needed
+// - gemini: Google's Gemini API (GEMINI_API_KEY)
+// - openai: any OpenAI-compatible /chat/completions endpoint, e.g. a local
+//   Ollama or llama.cpp server (AI_BASE_URL, AI_API_KEY)
+// - stub: canned, deterministic answers for tests; never calls out
+//
+// Around the provider:
+// - Answers are cached, keyed on provider, model, prompt and seed, in memory
+//   and in the `ai_cache` table, so every user asking the same question gets
+//   the one answer and it is paid for once. Identical calls in flight at the
+//   same time share one request.
+// - Each attempt has a timeout; timeouts, network errors, 429s and 5xx are
+//   retried with backoff.
+// - At most AI_CONCURRENCY calls run at once per server instance, and each
+//   caller may make AI_RATE_LIMIT uncached calls a minute.
+//
+// Server-only: never import this from a component.
+// -----------------------------------------------------------------------------
+
+export interface AiRequest {
+    system: string;
+    prompt: string;
+    seed?: number;
+    // How the caller will read the reply; only the stub looks at it
+    expect: 'list' | 'text' | 'json';
+}
+
+export interface AiProvider {
+    name: string;
+    model: string;
+    generate: (request: AiRequest, signal: AbortSignal) => Promise<string>;
+}
+
+// A reply, and which provider/model produced it (e.g. "gemini/gemini-2.5-flash")
+export interface AiAnswer {
+    text: string;
+    generator: string;
+}
+
+export class AiError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'AiError';
+    }
+}
+
+// --- Providers ---
+
+export const pollinationsProvider = ({ model = 'openai' }: { model?: string } = {}): AiProvider => ({
+    name: 'pollinations',
+    model,
+    generate: async ({ system, prompt, seed }, signal) => {
+        let url = `https://text.pollinations.ai/${encodeURIComponent(prompt)}?model=${encodeURIComponent(model)}&system=${encodeURIComponent(system)}`;
+        if (seed !== undefined) url += `&seed=${seed}`;
+
+        const response = await fetch(url, { signal });
+        if (!response.ok) throw new AiError(response.status, `Pollinations: ${response.status} ${response.statusText}`);
+        return response.text();
+    }
+});
+
+export const geminiProvider = ({ apiKey, model = 'gemini-2.5-flash' }: { apiKey: string; model?: string }): AiProvider => {
+    const client = new GoogleGenAI({ apiKey });
+    return {
+        name: 'gemini',
+        model,
+        generate: async ({ system, prompt, seed }, signal) => {
+            const response = await client.models.generateContent({
+                model,
+                contents: prompt,
+                config: { systemInstruction: system, seed, abortSignal: signal }
+            });
+            return response.text ?? '';
+        }
+    };
+};
+
+export interface OpenAiCompatibleConfig {
+    // Up to and including the version, e.g. http://localhost:11434/v1
+    baseUrl: string;
+    apiKey?: string;
+    model: string;
+}
+
+export const openAiCompatibleProvider = ({ baseUrl, apiKey, model }: OpenAiCompatibleConfig): AiProvider => ({
+    name: 'openai',
+    model,
+    generate: async ({ system, prompt, seed }, signal) => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+        const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers,
+            signal,
+            body: JSON.stringify({
+                model,
+                seed,
+                messages: [{ role: 'system', content: system }, { role: 'user', content: prompt }]
+            })
+        });
+        if (!response.ok) throw new AiError(response.status, `${baseUrl}: ${response.status} ${response.statusText}`);
+        const json = await response.json();
+        return json.choices?.[0]?.message?.content ?? '';
+    }
+});
+
+// The same request always gets the same answer, tagged with a hash of it
+export const stubProvider = (): AiProvider => ({
+    name: 'stub',
+    model: 'stub',
+    generate: async ({ system, prompt, seed, expect }) => {
+        const tag = createHash('sha256').update(`${system}\n${prompt}\n${seed ?? ''}`).digest('hex').slice(0, 6);
+        if (expect === 'list') return JSON.stringify(Array.from({ length: 8 }, (_, i) => `Topic ${i + 1} ${tag}`));
+        if (expect === 'json') return JSON.stringify({ summary: `Stub answer ${tag}.`, keyConcepts: [`Concept ${tag}`] });
+        return `Stub answer ${tag}.`;
+    }
+});
+
+export const providerFromEnv = (): AiProvider => {
+    const name = process.env.AI_PROVIDER || 'pollinations';
+    const model = process.env.AI_MODEL || undefined;
+    switch (name) {
+        case 'pollinations':
+            return pollinationsProvider({ model });
+        case 'gemini': {
+            const apiKey = process.env.GEMINI_API_KEY;
+            if (!apiKey) throw new Error('AI_PROVIDER=gemini needs GEMINI_API_KEY');
+            return geminiProvider({ apiKey, model });
+        }
+        case 'openai': {
+            const baseUrl = process.env.AI_BASE_URL;
+            if (!baseUrl || !model) throw new Error('AI_PROVIDER=openai needs AI_BASE_URL and AI_MODEL');
+            return openAiCompatibleProvider({ baseUrl, apiKey: process.env.AI_API_KEY, model });
+        }
+        case 'stub':
+            return stubProvider();
+        default:
+            throw new Error(`Unknown AI_PROVIDER: ${name}`);
+    }
+};
+
+// --- Cache ---
+
+export interface AiCache {
+    get: (key: string) => Promise<AiAnswer | undefined>;
+    put: (key: string, answer: AiAnswer) => Promise<void>;
+}
+
+// How long a cached answer is served before the model is asked again
+const CACHE_TTL = 30 * 24 * 60 * 60 * 1000;
+
+export const cacheKey = (provider: AiProvider, { system, prompt, seed }: AiRequest) =>
+    createHash('sha256').update(JSON.stringify([provider.name, provider.model, system, prompt, seed ?? null])).digest('hex');
+
+// Least recently used entries go first once `maxEntries` is reached
+export const memoryCache = (maxEntries = 1000): AiCache => {
+    const entries = new Map<string, { answer: AiAnswer; expires: number }>();
+    return {
+        get: async key => {
+            const entry = entries.get(key);
+            if (!entry || entry.expires < Date.now()) return undefined;
+            entries.delete(key);
+            entries.set(key, entry);
+            return entry.answer;
+        },
+        put: async (key, answer) => {
+            entries.delete(key);
+            entries.set(key, { answer, expires: Date.now() + CACHE_TTL });
+            if (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+        }
+    };
+};
+
+// Shared by every instance. The cache is an optimisation, so an unreachable
+// database reads as a miss rather than failing the call.
+export const databaseCache = (execute: Executor): AiCache => ({
+    get: async key => {
+        const rows = await execute('SELECT generator, response, expires_at FROM ai_cache WHERE cache_key = ?', [key]).catch(() => []);
+        const row = rows[0];
+        if (!row || Number(row.expires_at) < Date.now()) return undefined;
+        return { text: row.response, generator: row.generator };
+    },
+    put: async (key, { text, generator }) => {
+        await execute(
+            'REPLACE INTO ai_cache (cache_key, generator, response, expires_at) VALUES (?, ?, ?, ?)',
+            [key, generator, text, Date.now() + CACHE_TTL]
+        ).catch(err => console.warn('[AI] Could not cache answer:', err.message));
+    }
+});
+
+// Checks each cache in turn, copying a hit into the ones before it
+export const layeredCache = (...caches: AiCache[]): AiCache => ({
+    get: async key => {
+        for (const [i, cache] of caches.entries()) {
+            const answer = await cache.get(key);
+            if (answer) {
+                await Promise.all(caches.slice(0, i).map(c => c.put(key, answer)));
+                return answer;
+            }
+        }
+        return undefined;
+    },
+    put: async (key, answer) => {
+        await Promise.all(caches.map(c => c.put(key, answer)));
+    }
+});
+
+// --- Gateway ---
+
+export interface GatewayOptions {
+    provider: AiProvider;
+    cache: AiCache;
+    // Per attempt, in ms
+    timeout?: number;
+    retries?: number;
+    // Provider calls in flight at once; more wait their turn
+    concurrency?: number;
+    // Uncached calls per caller per minute
+    rateLimit?: number;
+}
+
+export interface AiGateway {
+    provider: AiProvider;
+    /**
+     * The answer to `request`, from the cache if possible. `usable` decides
+     * whether a fresh reply can be used (and cached); one that can't is a 502.
+     */
+    generate: (request: AiRequest, caller: string, usable?: (text: string) => boolean) => Promise<AiAnswer>;
+}
+
+// Calls still waiting for a slot before new ones are turned away
+const MAX_QUEUED = 100;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Worth another try: timed out, unreachable, throttled or a server error
+const isRetryable = (error: any) => {
+    const status = error?.status;
+    return typeof status !== 'number' || status === 408 || status === 429 || status >= 500;
+};
+
+export const createGateway = ({ provider, cache, timeout = 20_000, retries = 2, concurrency = 4, rateLimit = 30 }: GatewayOptions): AiGateway => {
+    const generator = `${provider.name}/${provider.model}`;
+    const inFlight = new Map<string, Promise<AiAnswer>>();
+
+    let running = 0;
+    const waiting: (() => void)[] = [];
+
+    const withSlot = async <T>(work: () => Promise<T>): Promise<T> => {
+        if (running >= concurrency) {
+            if (waiting.length >= MAX_QUEUED) throw new AiError(503, 'The AI service is busy. Try again shortly.');
+            // Woken with the slot of a call that finished, still counted
+            await new Promise<void>(resolve => waiting.push(resolve));
+        } else {
+            running++;
+        }
+        try {
+            return await work();
+        } finally {
+            // Handed straight on, so a newcomer can't take it in between
+            const next = waiting.shift();
+            if (next) next();
+            else running--;
+        }
+    };
+
+    // Fixed one-minute windows per caller
+    const windows = new Map<string, { start: number; count: number }>();
+    const checkRate = (caller: string) => {
+        const now = Date.now();
+        const window = windows.get(caller);
+        if (!window || now - window.start >= 60_000) {
+            if (windows.size > 10_000) windows.clear();
+            windows.set(caller, { start: now, count: 1 });
+            return;
+        }
+        if (++window.count > rateLimit) throw new AiError(429, 'Too many AI requests. Try again in a minute.');
+    };
+
+    const attempt = async (request: AiRequest) => {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeout);
+        try {
+            return await provider.generate(request, controller.signal);
+        } catch (error: any) {
+            if (controller.signal.aborted) throw new AiError(504, `${generator} did not answer within ${timeout}ms`);
+            throw error;
+        } finally {
+            clearTimeout(timer);
+        }
+    };
+
+    const callProvider = async (request: AiRequest) => {
+        for (let i = 0; ; i++) {
+            try {
+                return await withSlot(() => attempt(request));
+            } catch (error) {
+                if (i >= retries || !isRetryable(error)) throw error;
+                await sleep(250 * 2 ** i);
+            }
+        }
+    };
+
+    return {
+        provider,
+        generate: async (request, caller, usable = () => true) => {
+            const key = cacheKey(provider, request);
+            const cached = await cache.get(key);
+            if (cached) return cached;
+
+            const pending = inFlight.get(key);
+            if (pending) return pending;
+
+            checkRate(caller);
+            const call = (async () => {
+                let text: string;
+                try {
+                    text = await callProvider(request);
+                } catch (error: any) {
+                    if (error instanceof AiError && error.status < 500) throw new AiError(502, error.message);
+                    if (error instanceof AiError) throw error;
+                    throw new AiError(502, `${generator} failed: ${error?.message ?? error}`);
+                }
+                if (!usable(text)) throw new AiError(502, `${generator} gave no usable answer`);
+                const answer = { text, generator };
+                await cache.put(key, answer);
+                return answer;
+            })();
+
+            inFlight.set(key, call);
+            try {
+                return await call;
+            } finally {
+                inFlight.delete(key);
+            }
+        }
+    };
+};
+
+const envNumber = (name: string, fallback: number) => {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+export const gatewayFromEnv = (execute: Executor): AiGateway => createGateway({
+    provider: providerFromEnv(),
+    cache: layeredCache(memoryCache(), databaseCache(execute)),
+    timeout: envNumber('AI_TIMEOUT_MS', 20_000),
+    concurrency: envNumber('AI_CONCURRENCY', 4),
+    rateLimit: envNumber('AI_RATE_LIMIT', 30),
+});
+
+let defaultGateway: AiGateway | null = null;
+
+// The gateway for this deployment, built on first use
+export const aiGateway = (execute: Executor) => {
+    if (!defaultGateway) defaultGateway = gatewayFromEnv(execute);
+    return defaultGateway;
+};
@@ -0,0 +1,156 @@
+import { AiTask, AiTaskInput, AiResult, AiTaskOutputs, PROFILE_LIMITS } from '../ai';
+import { DomainProfile } from '../../types';
+import { AiGateway, AiRequest } from './ai';
+
+// -----------------------------------------------------------------------------
+// AI TASK PROMPTS
+// -----------------------------------------------------------------------------
+// How each task in lib/ai becomes a model request, and how the reply is read
+// back. Replies are cached raw (see lib/server/ai), so changing a parser
+// applies to cached answers too; changing a prompt starts a fresh cache.
+//
+// Server-only: never import this from a component.
+// -----------------------------------------------------------------------------
+
+interface TaskDefinition<T extends AiTask> {
+    request: (input: AiTaskInput<T>) => AiRequest;
+    parse: (text: string, input: AiTaskInput<T>) => AiTaskOutputs[T];
+    // Whether a parsed reply is worth returning (and caching)
+    usable: (data: AiTaskOutputs[T]) => boolean;
+}
+
+// Models often wrap the list in prose, markdown or numbering
+const parseList = (text: string, parentDomain: string): string[] => {
+    if (!text) return [];
+
+    let clean = text.trim();
+
+    // Remove markdown code blocks
+    clean = clean.replace(/```json/g, '').replace(/```/g, '').trim();
+
+    // Try JSON parse first
+    // Look for array bracket pattern
+    const arrayMatch = clean.match(/\[[\s\S]*\]/);
+    if (arrayMatch) {
+        try {
+            const parsed = JSON.parse(arrayMatch[0]);
+            if (Array.isArray(parsed)) {
+                return parsed.map(s => String(s).trim()).filter(s => s.length > 0 && s.toLowerCase() !== parentDomain.toLowerCase());
+            }
+        } catch (e) {
+            // ignore JSON parse error, fall through to line parsing
+        }
+    }
+
+    // Fallback: Line-based parsing
+    let items = clean.split('\n');
+
+    // Handle comma-separated lists if it's just one line and looks like a list
+    if (items.length === 1 && clean.includes(',')) {
+        items = clean.split(',');
+    }
+
+    return items
+        .map(line => {
+            // Remove common list bullets, numbering, and markdown syntax
+            return line
+                .replace(/^[\d\-\*\•\>]+[\.\)]?\s*/, '')
+                .replace(/[\[\]"]/g, '')
+                .replace(/\*\*/g, '') // remove bold markdown
+                .replace(/^\#+\s*/, '') // remove headings
+                .trim();
+        })
+        .filter(line => {
+            const lower = line.toLowerCase();
+            const parentLower = parentDomain.toLowerCase();
+
+            if (line.length < 2 || line.length > 100) return false;
+            if (lower.includes('here is')) return false;
+            if (lower.includes('sure,')) return false;
+            if (lower === parentLower) return false;
+            return true;
+        })
+        .slice(0, 10);
+};
+
+// The JSON object in the reply, with every field checked and cut to size.
+// A reply that ignored the format entirely is taken as the summary.
+const parseProfile = (text: string): DomainProfile => {
+    const clean = text.replace(/```json/g, '').replace(/```/g, '').trim();
+    let raw: any = null;
+    const objectMatch = clean.match(/\{[\s\S]*\}/);
+    if (objectMatch) {
+        try {
+            raw = JSON.parse(objectMatch[0]);
+        } catch (e) {
+            // not JSON after all
+        }
+    }
+    if (!raw || typeof raw !== 'object') raw = { summary: clean };
+
+    const str = (value: unknown, max: number = PROFILE_LIMITS.text) => (typeof value === 'string' && value.trim().length <= max ? value.trim() : '');
+    const list = <T>(value: unknown, item: (entry: any) => T | null): T[] => (Array.isArray(value) ? value : [])
+        .map(item)
+        .filter((entry): entry is T => entry !== null)
+        .slice(0, PROFILE_LIMITS.items);
+    // Domain names, as in the domains task
+    const names = (value: unknown) => list(value, entry => str(entry, 100) || null);
+    const withNote = <K extends string>(key: K, noteKey: string) => (entry: any) => {
+        const main = str(typeof entry === 'string' ? entry : entry?.[key]);
+        return main ? { [key]: main, [noteKey]: str(entry?.[noteKey]) || undefined } : null;
+    };
+
+    return {
+        summary: typeof raw.summary === 'string' ? raw.summary.trim().slice(0, PROFILE_LIMITS.summary) : '',
+        keyConcepts: list(raw.keyConcepts, entry => str(entry) || null),
+        notablePeople: list(raw.notablePeople, withNote('name', 'note')) as DomainProfile['notablePeople'],
+        prerequisites: names(raw.prerequisites),
+        related: names(raw.related),
+        reading: list(raw.reading, withNote('title', 'author')) as DomainProfile['reading'],
+    };
+};
+
+// Deterministic per topic, so everyone gets the same list for the same view,
+// but different for each 'load more' (variant)
+const seedFor = (topic: string, variant: number) => {
+    let seed = variant * 1000;
+    for (let i = 0; i < topic.length; i++) {
+        seed += topic.charCodeAt(i);
+    }
+    return seed;
+};
+
+const tasks: { [T in AiTask]: TaskDefinition<T> } = {
+    domains: {
+        request: ({ topic, path, variant }) => ({
+            system: `You are a taxonomy expert. List 8 distinct subfields or specific topics related to "${topic}". Return ONLY a JSON array of strings. Do not include any explanation.`,
+            prompt: `Context: ${path.join(' > ')}. List sub-topics.`,
+            seed: seedFor(topic, variant),
+            expect: 'list'
+        }),
+        parse: (text, { topic }) => parseList(text, topic).filter(name => name.length <= 100),
+        usable: domains => domains.length > 0
+    },
+    profile: {
+        // Revision 0 is what everyone sees first; a refresh asks again
+        request: ({ term, path, revision }) => ({
+            system: `You are an encyclopedia editor. Describe the field "${term}" as a JSON object with these keys: `
+                + '"summary" (a paragraph of 3 to 5 sentences), "keyConcepts" (up to 8 short terms), '
+                + '"notablePeople" (up to 5 objects with "name" and a short "note"), '
+                + '"prerequisites" (up to 5 fields worth knowing first), "related" (up to 6 neighbouring fields), '
+                + '"reading" (up to 5 objects with "title" and "author"). '
+                + 'Name fields the way an encyclopedia would title them. Return ONLY the JSON object.',
+            prompt: `Field: ${term}. Context: ${path.join(' > ')}.`,
+            seed: seedFor(term, revision),
+            expect: 'json'
+        }),
+        parse: text => parseProfile(text),
+        usable: profile => profile.summary.length > 0
+    }
+};
+
+export const runAiTask = async <T extends AiTask>(gateway: AiGateway, task: T, input: AiTaskInput<T>, caller: string): Promise<AiResult<T>> => {
+    const { request, parse, usable } = tasks[task] as TaskDefinition<T>;
+    const { text, generator } = await gateway.generate(request(input), caller, text => usable(parse(text, input)));
+    return { data: parse(text, input), generator };
+};
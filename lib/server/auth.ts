@@ -0,0 +1,157 @@
+import { createPublicKey, verify, KeyObject, JsonWebKey } from 'crypto';
+import { readFileSync } from 'fs';
+
+// -----------------------------------------------------------------------------
+// FIREBASE ID TOKEN VERIFICATION
+// -----------------------------------------------------------------------------
+// The client sends `Authorization: Bearer <Firebase ID token>` with every RPC.
+// We verify it here (RS256 signature, audience, issuer, expiry) following
+// https://firebase.google.com/docs/auth/admin/verify-id-tokens
+//
+// Where the signing keys come from is pluggable:
+// - Production: Google's published securetoken JWKS (cached per Cache-Control)
+// - Tests / local: a static JWKS from FIREBASE_JWKS or FIREBASE_JWKS_PATH
+// - Auth emulator: tokens are unsigned, so only the claims are checked
+//
+// Server-only: never import this from a component.
+// -----------------------------------------------------------------------------
+
+const GOOGLE_JWKS_URL = 'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com';
+
+// Tolerated clock drift between us and Google, in seconds
+const CLOCK_SKEW = 60;
+
+export interface KeySource {
+    getKey: (kid: string) => Promise<KeyObject | null>;
+    // Emulator tokens carry `alg: none` and no signature
+    allowUnsigned?: boolean;
+}
+
+export interface TokenClaims {
+    sub: string;
+    email?: string;
+    aud: string;
+    iss: string;
+    exp: number;
+    iat: number;
+    [claim: string]: unknown;
+}
+
+export class AuthError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
+
+interface Jwks {
+    keys: (JsonWebKey & { kid?: string })[];
+}
+
+const toKeyMap = (jwks: Jwks) => {
+    const keys = new Map<string, KeyObject>();
+    for (const jwk of jwks.keys || []) {
+        if (jwk.kid) keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+    return keys;
+};
+
+// A fixed set of keys, e.g. one generated by a test harness
+export const jwksKeySource = (jwks: Jwks): KeySource => {
+    const keys = toKeyMap(jwks);
+    return { getKey: async (kid) => keys.get(kid) ?? null };
+};
+
+// Google's rotating keys, refetched once the response's max-age runs out
+export const remoteJwksKeySource = (url = GOOGLE_JWKS_URL): KeySource => {
+    let keys = new Map<string, KeyObject>();
+    let expiresAt = 0;
+    let pending: Promise<void> | null = null;
+
+    const refresh = async () => {
+        const response = await fetch(url);
+        if (!response.ok) throw new AuthError(`Could not fetch signing keys (${response.status})`);
+        keys = toKeyMap(await response.json());
+        const maxAge = /max-age=(\d+)/.exec(response.headers.get('cache-control') || '');
+        expiresAt = Date.now() + (maxAge ? Number(maxAge[1]) : 3600) * 1000;
+    };
+
+    return {
+        getKey: async (kid) => {
+            // An unknown kid right after a rotation also forces a refetch
+            if (Date.now() >= expiresAt || !keys.has(kid)) {
+                if (!pending) pending = refresh().finally(() => { pending = null; });
+                await pending;
+            }
+            return keys.get(kid) ?? null;
+        }
+    };
+};
+
+// The Firebase Auth emulator issues unsigned tokens
+export const emulatorKeySource = (): KeySource => ({
+    getKey: async () => null,
+    allowUnsigned: true
+});
+
+export const keySourceFromEnv = (): KeySource => {
+    if (process.env.FIREBASE_AUTH_EMULATOR_HOST) return emulatorKeySource();
+    if (process.env.FIREBASE_JWKS) return jwksKeySource(JSON.parse(process.env.FIREBASE_JWKS));
+    if (process.env.FIREBASE_JWKS_PATH) return jwksKeySource(JSON.parse(readFileSync(process.env.FIREBASE_JWKS_PATH, 'utf8')));
+    return remoteJwksKeySource();
+};
+
+const decodeSegment = (segment: string) => {
+    try {
+        return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    } catch {
+        throw new AuthError('Malformed token');
+    }
+};
+
+export const createVerifier = ({ projectId, keySource }: { projectId: string; keySource: KeySource }) =>
+    async (token: string): Promise<TokenClaims> => {
+        const parts = token.split('.');
+        if (parts.length !== 3) throw new AuthError('Malformed token');
+        const [headerPart, payloadPart, signaturePart] = parts;
+        const header = decodeSegment(headerPart);
+        const claims = decodeSegment(payloadPart) as TokenClaims;
+
+        if (header.alg === 'none' && keySource.allowUnsigned) {
+            // Emulator token: nothing to verify cryptographically
+        } else {
+            if (header.alg !== 'RS256') throw new AuthError('Unexpected signing algorithm');
+            const key = typeof header.kid === 'string' ? await keySource.getKey(header.kid) : null;
+            if (!key) throw new AuthError('Unknown signing key');
+            const valid = verify(
+                'RSA-SHA256',
+                Buffer.from(`${headerPart}.${payloadPart}`),
+                key,
+                Buffer.from(signaturePart, 'base64url')
+            );
+            if (!valid) throw new AuthError('Invalid signature');
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        if (claims.aud !== projectId) throw new AuthError('Token was issued for another project');
+        if (claims.iss !== `https://securetoken.google.com/${projectId}`) throw new AuthError('Unexpected token issuer');
+        if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW < now) throw new AuthError('Token expired');
+        if (typeof claims.iat !== 'number' || claims.iat - CLOCK_SKEW > now) throw new AuthError('Token issued in the future');
+        if (typeof claims.sub !== 'string' || claims.sub.length === 0 || claims.sub.length > 128) {
+            throw new AuthError('Token has no subject');
+        }
+        return claims;
+    };
+
+let defaultVerifier: ((token: string) => Promise<TokenClaims>) | null = null;
+
+// Verifier for this deployment's Firebase project, built on first use
+export const verifyIdToken = (token: string) => {
+    if (!defaultVerifier) {
+        defaultVerifier = createVerifier({
+            projectId: process.env.FIREBASE_PROJECT_ID || 'sparkai-9bf6c',
+            keySource: keySourceFromEnv()
+        });
+    }
+    return defaultVerifier(token);
+};
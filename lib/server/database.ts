@@ -0,0 +1,252 @@
+import { connect, Connection, DatabaseError } from '@tidbcloud/serverless';
+import { Database, Executor, OperationKind, toDatabase, joinedTransaction } from '../rpc/operation';
+
+// -----------------------------------------------------------------------------
+// SERVER-SIDE DATABASE STACK (CONNECTION MANAGER)
+// -----------------------------------------------------------------------------
+// Stack Config:
+// 1. Primary: process.env.DATABASE_URL. Takes every write (and DDL).
+// 2. Replica: process.env.DATABASE_URL_SECONDARY. A read replica of the
+//    primary (e.g. via TiCDC); serves reads only when the primary can't.
+//
+// Writes never fail over: sending them to a replica would split data across
+// clusters. When the primary is down they fail fast with
+// DatabaseUnavailableError (503), and clients fall back to their offline
+// outbox.
+//
+// Each cluster has a circuit breaker. After FAILURE_THRESHOLD consecutive
+// connection-level failures (network errors, timeouts, 5xx from the gateway)
+// it opens and the cluster is skipped without waiting on its timeout. After
+// OPEN_COOLDOWN_MS one trial request is let through (half-open); success
+// closes the breaker again. Background `SELECT 1` probes keep the state and
+// latency fresh while the server is busy. SQL errors (bad syntax, duplicate
+// keys, ...) say nothing about cluster health and are passed straight through.
+//
+// Transactions (`executeWrite.transaction(...)`) always run on the primary,
+// in a session of their own; every statement in them still counts towards
+// the breaker.
+//
+// Server-only: never import this from a component.
+// -----------------------------------------------------------------------------
+
+const FAILURE_THRESHOLD = 3;
+const OPEN_COOLDOWN_MS = 30_000;
+const QUERY_TIMEOUT_MS = 10_000;
+const PROBE_INTERVAL_MS = 15_000;
+
+export type ClusterRole = 'primary' | 'replica';
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+export class DatabaseUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatabaseUnavailableError';
+  }
+}
+
+interface Cluster {
+  name: string;
+  role: ClusterRole;
+  conn: Connection;
+  execute: Executor;
+  state: BreakerState;
+  consecutiveFailures: number;
+  openedAt: number;
+  // Half-open admits a single trial request at a time
+  trialInFlight: boolean;
+  latencyMs: number | null;
+  lastError: string | null;
+  lastCheckedAt: number | null;
+}
+
+const createCluster = (name: string, role: ClusterRole, url: string): Cluster => {
+  const conn = connect({ url });
+  return {
+    name,
+    role,
+    conn,
+    execute: async (query, params = []) => await conn.execute(query, params) as any[],
+    state: 'closed',
+    consecutiveFailures: 0,
+    openedAt: 0,
+    trialInFlight: false,
+    latencyMs: null,
+    lastError: null,
+    lastCheckedAt: null
+  };
+};
+
+// Define the stack of clusters
+const clusters: Cluster[] = [
+  process.env.DATABASE_URL && createCluster('PRIMARY', 'primary', process.env.DATABASE_URL),
+  process.env.DATABASE_URL_SECONDARY && createCluster('SECONDARY_1', 'replica', process.env.DATABASE_URL_SECONDARY)
+].filter(Boolean) as Cluster[];
+
+const primary = clusters.find(c => c.role === 'primary');
+const replicas = clusters.filter(c => c.role === 'replica');
+
+// --- Circuit breaker ---
+
+// Did the cluster fail, or did the query? Only the former trips the breaker.
+const isConnectionFailure = (error: any) =>
+  !(error instanceof DatabaseError) || error.status === undefined || error.status >= 500;
+
+const withTimeout = <T>(promise: Promise<T>, ms: number) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+
+const isAvailable = (cluster: Cluster) => {
+  if (cluster.state === 'open' && Date.now() - cluster.openedAt >= OPEN_COOLDOWN_MS) {
+    cluster.state = 'half-open';
+    cluster.trialInFlight = false;
+  }
+  return cluster.state === 'closed' || (cluster.state === 'half-open' && !cluster.trialInFlight);
+};
+
+const recordSuccess = (cluster: Cluster, latencyMs: number) => {
+  cluster.state = 'closed';
+  cluster.consecutiveFailures = 0;
+  cluster.latencyMs = latencyMs;
+  cluster.lastError = null;
+  cluster.lastCheckedAt = Date.now();
+};
+
+const recordFailure = (cluster: Cluster, error: any) => {
+  cluster.consecutiveFailures++;
+  cluster.lastError = error?.message || String(error);
+  cluster.lastCheckedAt = Date.now();
+  if (cluster.state === 'half-open' || cluster.consecutiveFailures >= FAILURE_THRESHOLD) {
+    if (cluster.state !== 'open') console.warn(`[DB] Circuit opened for ${cluster.name}:`, cluster.lastError);
+    cluster.state = 'open';
+    cluster.openedAt = Date.now();
+  }
+};
+
+const runOn = async <T>(cluster: Cluster, task: () => Promise<T>): Promise<T> => {
+  const trial = cluster.state === 'half-open';
+  if (trial) cluster.trialInFlight = true;
+  const started = Date.now();
+  try {
+    const result = await withTimeout(task(), QUERY_TIMEOUT_MS);
+    recordSuccess(cluster, Date.now() - started);
+    return result;
+  } catch (error: any) {
+    if (isConnectionFailure(error)) {
+      recordFailure(cluster, error);
+    } else {
+      // The cluster answered; the statement was just wrong
+      recordSuccess(cluster, Date.now() - started);
+    }
+    throw error;
+  } finally {
+    if (trial) cluster.trialInFlight = false;
+  }
+};
+
+// --- Health probes ---
+
+let probeTimer: ReturnType<typeof setInterval> | null = null;
+
+const probe = async (cluster: Cluster) => {
+  try {
+    await runOn(cluster, () => cluster.execute('SELECT 1'));
+  } catch { /* Recorded by runOn */ }
+};
+
+export const probeAll = () => Promise.all(clusters.map(probe));
+
+// Started lazily on first use so importing this module has no side effects
+const ensureProbing = () => {
+  if (probeTimer || clusters.length === 0) return;
+  probeTimer = setInterval(probeAll, PROBE_INTERVAL_MS);
+  // Don't keep an otherwise idle process (or a build) alive
+  (probeTimer as any).unref?.();
+};
+
+// --- Transactions ---
+
+const transactOn = async <T>(cluster: Cluster, work: (tx: Database) => Promise<T>): Promise<T> => {
+  const session = await runOn(cluster, () => cluster.conn.begin());
+  const tx = joinedTransaction(async (query, params = []) => await runOn(cluster, () => session.execute(query, params)) as any[]);
+  try {
+    const result = await work(tx);
+    await runOn(cluster, () => session.commit());
+    return result;
+  } catch (error) {
+    // Best effort: if the session is gone, TiDB discards the transaction anyway
+    await session.rollback().catch(() => { });
+    throw error;
+  }
+};
+
+// --- Routing ---
+
+const availablePrimary = () => {
+  ensureProbing();
+  if (!primary) throw new DatabaseUnavailableError('No primary database configured.');
+  if (!isAvailable(primary)) throw new DatabaseUnavailableError('Primary database is unavailable.');
+  return primary;
+};
+
+export const executeWrite: Database = toDatabase(
+  async (query, params = []) => {
+    const cluster = availablePrimary();
+    return runOn(cluster, () => cluster.execute(query, params));
+  },
+  work => transactOn(availablePrimary(), work)
+);
+
+// Primary first, so users read their own writes; replicas when it can't answer
+const readAnywhere: Executor = async (query, params = []) => {
+  ensureProbing();
+  let lastError: any = null;
+
+  for (const cluster of primary ? [primary, ...replicas] : replicas) {
+    if (!isAvailable(cluster)) continue;
+    try {
+      // Return immediately on success (One finishes after other concept)
+      return await runOn(cluster, () => cluster.execute(query, params));
+    } catch (error: any) {
+      if (!isConnectionFailure(error)) throw error;
+      console.warn(`[DB] Read failed on ${cluster.name}:`, error.message);
+      lastError = error;
+      // Continue to the next cluster in the stack...
+    }
+  }
+
+  // If we exit the loop, every cluster is down or tripped.
+  throw new DatabaseUnavailableError(lastError?.message || 'No database connections available in stack.');
+};
+
+// A transaction must see its own writes, so it only ever runs on the primary
+export const executeRead: Database = toDatabase(readAnywhere, executeWrite.transaction);
+
+export const executorFor = (kind: OperationKind): Database => (kind === 'write' ? executeWrite : executeRead);
+
+// The primary alone, bypassing the breaker, for schema work (scripts/migrate)
+export const primaryExecutor = (): Executor | null => primary?.execute ?? null;
+
+export interface ClusterHealth {
+  name: string;
+  role: ClusterRole;
+  state: BreakerState;
+  latencyMs: number | null;
+  consecutiveFailures: number;
+  lastCheckedAt: string | null;
+  lastError: string | null;
+}
+
+export const clusterHealth = (): ClusterHealth[] => clusters.map(c => ({
+  name: c.name,
+  role: c.role,
+  state: c.state,
+  latencyMs: c.latencyMs,
+  consecutiveFailures: c.consecutiveFailures,
+  lastCheckedAt: c.lastCheckedAt ? new Date(c.lastCheckedAt).toISOString() : null,
+  lastError: c.lastError
+}));
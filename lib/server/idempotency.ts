@@ -0,0 +1,40 @@
+import type { Database } from '../rpc/operation';
+
+// -----------------------------------------------------------------------------
+// IDEMPOTENT WRITES
+// -----------------------------------------------------------------------------
+// Writes carry an `Idempotency-Key`, the same one when first sent and when
+// replayed from the client's offline outbox.
+// The first time a key is seen the write runs and its result is stored; a
+// repeat (the response was lost, the tab retried) returns the stored result
+// without running the write again.
+//
+// The write and the stored result commit in one transaction, so a key is
+// never recorded for a write that didn't happen (or vice versa).
+//
+// Keys are scoped to the caller, so one user can't read another's results.
+// -----------------------------------------------------------------------------
+
+export const withIdempotency = async <T>(
+    db: Database,
+    key: string,
+    uid: string,
+    operation: string,
+    run: (tx: Database) => Promise<T>
+): Promise<T> => db.transaction(async tx => {
+    const seen = await tx(
+        'SELECT response FROM idempotency_keys WHERE idempotency_key = ? AND uid = ? AND operation = ?',
+        [key, uid, operation]
+    );
+    if (seen.length > 0) {
+        const stored = seen[0].response;
+        return stored == null ? undefined : JSON.parse(stored);
+    }
+
+    const result = await run(tx);
+    await tx(
+        'INSERT IGNORE INTO idempotency_keys (idempotency_key, uid, operation, response, created_at) VALUES (?, ?, ?, ?, ?)',
+        [key, uid, operation, result === undefined ? null : JSON.stringify(result), new Date().toISOString()]
+    );
+    return result;
+});
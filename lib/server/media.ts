@@ -0,0 +1,389 @@
+import { createHash, createHmac } from 'crypto';
+import { mkdir, readFile, rename, stat, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import sharp from 'sharp';
+import type { Executor } from '../rpc/operation';
+import {
+    MAX_MEDIA_BYTES, MEDIA_TYPES, MEDIA_VARIANTS, MediaExtension, MediaVariant, isMediaId, mediaType, variantKey
+} from '../media';
+
+// -----------------------------------------------------------------------------
+// MEDIA STORE
+// -----------------------------------------------------------------------------
+// Image bytes, stored by hash (see lib/media for the id format). The backend
+// is pluggable:
+// - Production: an S3-compatible bucket (AWS S3, R2, MinIO, ...), selected
+//   by MEDIA_S3_BUCKET.
+// - Dev: files under MEDIA_DIR (default ./.media).
+//
+// Every upload goes through `ingestImage`: it is decoded, checked, and
+// re-encoded into the MEDIA_VARIANTS sizes with all metadata (EXIF GPS,
+// camera serials, ...) dropped. Its dimensions and a tiny blurred placeholder
+// go in the `media` table, so lists can lay images out and show something
+// before the real bytes arrive.
+//
+// Objects are immutable: once written, a key's bytes never change.
+//
+// Server-only: never import this from a component.
+// -----------------------------------------------------------------------------
+
+// Keys are media ids or variant keys (lib/media `variantKey`)
+export interface MediaStore {
+    name: string;
+    get: (key: string) => Promise<Buffer | null>;
+    has: (key: string) => Promise<boolean>;
+    put: (key: string, bytes: Buffer) => Promise<void>;
+}
+
+export class MediaError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+        this.name = 'MediaError';
+    }
+}
+
+// Files fanned out by the first two hex digits, so no directory grows huge
+export const diskStore = (dir: string): MediaStore => {
+    const pathOf = (key: string) => join(dir, key.slice(0, 2), key);
+
+    return {
+        name: `disk:${dir}`,
+        get: async (key) => {
+            try {
+                return await readFile(pathOf(key));
+            } catch (err: any) {
+                if (err.code === 'ENOENT') return null;
+                throw err;
+            }
+        },
+        has: async (key) => {
+            try {
+                await stat(pathOf(key));
+                return true;
+            } catch {
+                return false;
+            }
+        },
+        put: async (key, bytes) => {
+            const path = pathOf(key);
+            await mkdir(dirname(path), { recursive: true });
+            // Write then rename, so a reader never sees a half-written file
+            const temp = `${path}.${process.pid}.${Date.now()}.tmp`;
+            await writeFile(temp, bytes);
+            await rename(temp, path);
+        }
+    };
+};
+
+export interface S3Config {
+    bucket: string;
+    region: string;
+    // e.g. https://<account>.r2.cloudflarestorage.com; AWS when omitted
+    endpoint?: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+}
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest();
+
+// Path-style object requests signed with AWS Signature V4, which every
+// S3-compatible service accepts
+export const s3Store = ({ bucket, region, endpoint, accessKeyId, secretAccessKey }: S3Config): MediaStore => {
+    const base = (endpoint || `https://s3.${region}.amazonaws.com`).replace(/\/+$/, '');
+
+    const request = async (method: 'GET' | 'HEAD' | 'PUT', key: string, body?: Buffer) => {
+        const url = new URL(`${base}/${bucket}/${key}`);
+        const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, '');
+        const day = amzDate.slice(0, 8);
+        const payloadHash = sha256(body ?? '');
+
+        const headers: Record<string, string> = {
+            host: url.host,
+            'x-amz-content-sha256': payloadHash,
+            'x-amz-date': amzDate,
+        };
+        if (body) headers['content-type'] = contentTypeOf(key);
+
+        const names = Object.keys(headers).sort();
+        const signedHeaders = names.join(';');
+        const canonicalRequest = [
+            method,
+            url.pathname,
+            '',
+            names.map(name => `${name}:${headers[name]}\n`).join(''),
+            signedHeaders,
+            payloadHash
+        ].join('\n');
+        const scope = `${day}/${region}/s3/aws4_request`;
+        const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+        const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, day), region), 's3'), 'aws4_request');
+        const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+        // fetch sets Host itself
+        const { host: _host, ...sent } = headers;
+        return fetch(url, {
+            method,
+            headers: {
+                ...sent,
+                Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+            },
+            body: body ? new Uint8Array(body) : undefined
+        });
+    };
+
+    const fail = (action: string, response: Response) =>
+        new Error(`S3 ${action} failed (${response.status})`);
+
+    return {
+        name: `s3:${bucket}`,
+        get: async (key) => {
+            const response = await request('GET', key);
+            if (response.status === 404) return null;
+            if (!response.ok) throw fail('GET', response);
+            return Buffer.from(await response.arrayBuffer());
+        },
+        has: async (key) => {
+            const response = await request('HEAD', key);
+            if (response.status === 404) return false;
+            if (!response.ok) throw fail('HEAD', response);
+            return true;
+        },
+        put: async (key, bytes) => {
+            const response = await request('PUT', key, bytes);
+            if (!response.ok) throw fail('PUT', response);
+        }
+    };
+};
+
+export const storeFromEnv = (): MediaStore => {
+    const bucket = process.env.MEDIA_S3_BUCKET;
+    if (bucket) {
+        const accessKeyId = process.env.MEDIA_S3_ACCESS_KEY_ID;
+        const secretAccessKey = process.env.MEDIA_S3_SECRET_ACCESS_KEY;
+        if (!accessKeyId || !secretAccessKey) {
+            throw new Error('MEDIA_S3_BUCKET is set but MEDIA_S3_ACCESS_KEY_ID / MEDIA_S3_SECRET_ACCESS_KEY are not');
+        }
+        return s3Store({
+            bucket,
+            region: process.env.MEDIA_S3_REGION || 'us-east-1',
+            endpoint: process.env.MEDIA_S3_ENDPOINT,
+            accessKeyId,
+            secretAccessKey
+        });
+    }
+    return diskStore(process.env.MEDIA_DIR || join(process.cwd(), '.media'));
+};
+
+let defaultStore: MediaStore | null = null;
+
+// The store for this deployment, built on first use
+export const mediaStore = () => {
+    if (!defaultStore) defaultStore = storeFromEnv();
+    return defaultStore;
+};
+
+// --- Ingest ---
+
+// Decoding cost grows with pixels, not bytes: a small PNG can expand to
+// gigabytes. Anything beyond these is refused before it is decoded.
+const MAX_PIXELS = 40_000_000;
+const MAX_DIMENSION = 12_000;
+const ACCEPTED_FORMATS = ['jpeg', 'png', 'gif', 'webp'];
+
+// Longest side of the inline placeholder; a few hundred bytes as WebP
+const PLACEHOLDER_SIZE = 16;
+
+// Decides the type from the bytes themselves, never from what the client claims
+const sniffImage = (bytes: Buffer): MediaExtension | null => {
+    if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpg';
+    if (bytes.length >= 8 && bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'png';
+    if (bytes.length >= 6 && /^GIF8[79]a$/.test(bytes.subarray(0, 6).toString('latin1'))) return 'gif';
+    if (bytes.length >= 12 && bytes.subarray(0, 4).toString('latin1') === 'RIFF' && bytes.subarray(8, 12).toString('latin1') === 'WEBP') return 'webp';
+    return null;
+};
+
+// Variants are WebP; objects stored before the pipeline existed are keyed
+// by the media id itself
+const contentTypeOf = (key: string) => (key.endsWith('.webp') ? 'image/webp' : mediaType(key));
+
+// The id `bytes` would be stored under; throws MediaError if they aren't an
+// image we accept
+export const mediaIdOf = (bytes: Buffer): string => {
+    if (bytes.length === 0) throw new MediaError(400, 'Empty upload');
+    if (bytes.length > MAX_MEDIA_BYTES) throw new MediaError(413, 'Image is too large');
+    const extension = sniffImage(bytes);
+    if (!extension) throw new MediaError(415, `Only ${Object.values(MEDIA_TYPES).join(', ')} images are accepted`);
+    return `${sha256(bytes)}.${extension}`;
+};
+
+export interface MediaInfo {
+    id: string;
+    // Upright dimensions of the largest variant
+    width: number;
+    height: number;
+    // data: URL of a tiny WebP, shown blurred while the image loads
+    placeholder: string;
+}
+
+export interface ProcessedImage extends MediaInfo {
+    variants: Record<MediaVariant, Buffer>;
+}
+
+/**
+ * Validates and re-encodes an upload. Only the first frame of an animation
+ * is kept. Throws MediaError (4xx) for anything that isn't a sane image.
+ */
+export const processImage = async (bytes: Buffer): Promise<ProcessedImage> => {
+    const id = mediaIdOf(bytes);
+    // Refuses to decode past MAX_PIXELS even if the header lied
+    const decode = () => sharp(bytes, { limitInputPixels: MAX_PIXELS });
+
+    let meta: sharp.Metadata;
+    try {
+        // Only parses the header; nothing is decoded yet
+        meta = await sharp(bytes).metadata();
+    } catch {
+        throw new MediaError(415, 'Could not read image');
+    }
+    if (!meta.format || !ACCEPTED_FORMATS.includes(meta.format)) {
+        throw new MediaError(415, `Only ${Object.values(MEDIA_TYPES).join(', ')} images are accepted`);
+    }
+    const { width = 0, height = 0 } = meta;
+    if (width < 1 || height < 1) throw new MediaError(415, 'Could not read image');
+    if (width > MAX_DIMENSION || height > MAX_DIMENSION || width * height > MAX_PIXELS) {
+        throw new MediaError(413, `Images may be at most ${MAX_DIMENSION}px on a side and ${MAX_PIXELS / 1_000_000} megapixels`);
+    }
+
+    try {
+        // rotate() applies the EXIF orientation before the metadata goes;
+        // sharp writes none unless asked to
+        const upright = () => decode().rotate();
+        const variants = {} as Record<MediaVariant, Buffer>;
+        for (const variant of Object.keys(MEDIA_VARIANTS) as MediaVariant[]) {
+            variants[variant] = await upright()
+                .resize({ width: MEDIA_VARIANTS[variant], withoutEnlargement: true })
+                .webp({ quality: 80 })
+                .toBuffer();
+        }
+
+        const full = await sharp(variants.full).metadata();
+        const placeholder = await upright()
+            .resize(PLACEHOLDER_SIZE, PLACEHOLDER_SIZE, { fit: 'inside' })
+            .webp({ quality: 40 })
+            .toBuffer();
+
+        return {
+            id,
+            width: full.width ?? width,
+            height: full.height ?? height,
+            placeholder: `data:image/webp;base64,${placeholder.toString('base64')}`,
+            variants
+        };
+    } catch {
+        throw new MediaError(415, 'Could not decode image');
+    }
+};
+
+/**
+ * Stores an image's variants and records it in `media`. Uploading bytes
+ * that are already stored only returns the existing record.
+ */
+export const ingestImage = async (execute: Executor, store: MediaStore, bytes: Buffer): Promise<MediaInfo> => {
+    const id = mediaIdOf(bytes);
+    const existing = await execute('SELECT id, width, height, placeholder FROM media WHERE id = ?', [id]);
+    if (existing.length > 0 && await store.has(variantKey(id, 'full'))) {
+        const { width, height, placeholder } = existing[0];
+        return { id, width: Number(width), height: Number(height), placeholder };
+    }
+
+    const { variants, ...info } = await processImage(bytes);
+    // Variants before the row, so a recorded id is always servable
+    for (const variant of Object.keys(variants) as MediaVariant[]) {
+        await store.put(variantKey(id, variant), variants[variant]);
+    }
+    await execute(
+        'INSERT IGNORE INTO media (id, width, height, placeholder, created_at) VALUES (?, ?, ?, ?, ?)',
+        [id, info.width, info.height, info.placeholder, new Date().toISOString()]
+    );
+    return info;
+};
+
+/**
+ * The bytes to serve for an image at a given size. Falls back to the
+ * object stored under the bare id, for uploads from before variants existed.
+ */
+export const readImage = async (store: MediaStore, id: string, variant: MediaVariant) => {
+    if (!isMediaId(id)) return null;
+    for (const key of [variantKey(id, variant), id]) {
+        const bytes = await store.get(key);
+        if (bytes) return { bytes, contentType: contentTypeOf(key) };
+    }
+    return null;
+};
+
+// --- Extraction of inline images ---
+
+// Columns that used to hold base64 data URLs, and where their media id goes
+const INLINE_COLUMNS = [
+    { table: 'posts', inline: 'imageURL', media: 'image_id' },
+    { table: 'profiles', inline: 'photoURL', media: 'photo_id' },
+];
+
+const DATA_URL = /^data:[^;,]*;base64,(.*)$/s;
+
+export interface ExtractOptions {
+    // Report what would move without storing or updating anything
+    dryRun?: boolean;
+    log?: (message: string) => void;
+}
+
+export interface ExtractReport {
+    column: string;
+    extracted: number;
+    // Not decodable as a supported image; left in place
+    skipped: number;
+}
+
+/**
+ * Moves base64 images out of the database: each data URL goes through
+ * `ingestImage`, its media id is written to the row, and the inline copy is
+ * cleared. Rows are
+ * read one at a time, so no query holds more than one blob. Safe to re-run;
+ * finished rows no longer match.
+ */
+export const extractInlineImages = async (
+    execute: Executor,
+    store: MediaStore,
+    { dryRun = false, log = () => { } }: ExtractOptions = {}
+): Promise<ExtractReport[]> => {
+    const report: ExtractReport[] = [];
+
+    for (const { table, inline, media } of INLINE_COLUMNS) {
+        const column = `${table}.${inline}`;
+        const pending = await execute(`SELECT id FROM ${table} WHERE ${inline} LIKE 'data:%'`);
+        let extracted = 0;
+        let skipped = 0;
+
+        for (const { id } of pending) {
+            const rows = await execute(`SELECT ${inline} AS inline FROM ${table} WHERE id = ?`, [id]);
+            const match = DATA_URL.exec(rows[0]?.inline ?? '');
+            try {
+                if (!match) throw new MediaError(415, 'not a base64 data URL');
+                const bytes = Buffer.from(match[1], 'base64');
+                const mediaId = dryRun ? (await processImage(bytes)).id : (await ingestImage(execute, store, bytes)).id;
+                if (!dryRun) await execute(`UPDATE ${table} SET ${media} = ?, ${inline} = NULL WHERE id = ?`, [mediaId, id]);
+                extracted++;
+            } catch (err) {
+                if (!(err instanceof MediaError)) throw err;
+                log(`  ${column} ${id}: skipped, ${err.message}`);
+                skipped++;
+            }
+        }
+
+        log(`${column}: ${extracted} image(s) ${dryRun ? 'to extract' : 'extracted'}, ${skipped} skipped`);
+        report.push({ column, extracted, skipped });
+    }
+
+    return report;
+};
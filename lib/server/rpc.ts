@@ -0,0 +1,62 @@
+import type { NextApiRequest } from 'next';
+import { ContentSources, OperationContext, OperationError } from '../rpc/operation';
+import { ValidationError } from '../rpc/schema';
+import { findRelatedTopics } from '../../services/webSearchService';
+import { DatabaseUnavailableError, executeWrite } from './database';
+import { verifyIdToken, AuthError } from './auth';
+import { aiGateway } from './ai';
+import { runAiTask } from './aiTasks';
+
+// -----------------------------------------------------------------------------
+// RPC ROUTE HELPERS
+// -----------------------------------------------------------------------------
+// Shared by /api/rpc/<operation> and /api/rpc/batch so both identify the
+// caller and report failures the same way.
+// -----------------------------------------------------------------------------
+
+/**
+ * The caller, from the Firebase ID token in the Authorization header.
+ * No header means an anonymous call; a bad token throws (AuthError or a
+ * key-fetch failure) and must never be downgraded to anonymous.
+ */
+export const callerContext = async (req: NextApiRequest): Promise<OperationContext> => {
+    const header = req.headers.authorization || '';
+    if (!header.startsWith('Bearer ')) return { uid: null };
+    const claims = await verifyIdToken(header.slice('Bearer '.length).trim());
+    return { uid: claims.sub, email: claims.email };
+};
+
+// What operations generate with here: the AI gateway, counted against the
+// caller's per-minute limit, and web search
+export const contentSources = (uid: string | null): ContentSources => ({
+    ai: (task, input) => runAiTask(aiGateway(executeWrite), task, input, uid ?? 'anonymous'),
+    relatedTopics: topic => findRelatedTopics(topic),
+});
+
+export interface ErrorResponse {
+    status: number;
+    message: string;
+    details?: string;
+}
+
+// A token that failed verification is always a 401, whatever the cause
+export const toAuthErrorResponse = (error: any): ErrorResponse => {
+    if (error instanceof AuthError) return { status: 401, message: error.message };
+    console.error('[RPC Auth]', error);
+    return { status: 401, message: 'Could not verify token' };
+};
+
+// Maps whatever an operation threw onto the status and message sent back
+export const toErrorResponse = (name: string, error: any): ErrorResponse => {
+    if (error instanceof ValidationError) return { status: 400, message: error.message };
+    if (error instanceof OperationError) return { status: error.status, message: error.message };
+    // Clients treat 5xx as "unreachable" and switch to local mode
+    if (error instanceof DatabaseUnavailableError) return { status: 503, message: 'Database unavailable' };
+
+    console.error(`[RPC Error] ${name}`, error);
+    return {
+        status: 500,
+        message: 'Operation failed',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    };
+};
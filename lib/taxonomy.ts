@@ -0,0 +1,222 @@
+import type { Database, Executor } from './rpc/operation';
+
+// -----------------------------------------------------------------------------
+// DOMAIN IDENTITY
+// -----------------------------------------------------------------------------
+// A domain's id is the path of names it was created at ("Science/Physics"),
+// so the same name created under two parents is two domains, and posts, saved
+// domains and profiles refer to a domain by exactly that id. One domain that
+// belongs in two places is linked under the second (`domain_links`) instead.
+//
+// Names are canonical before a node is created:
+// - written one way (cleanName) and compared ignoring case, spacing and
+//   punctuation (nameKey), so "Machine  learning" is "Machine Learning"
+// - an alias in `domain_aliases` ("ai" -> "Artificial Intelligence") is
+//   replaced by the name it stands for
+//
+// Duplicates that got in anyway are merged with `npm run merge-domains`: the
+// removed domain's posts, saves, profile and interests move to the kept one,
+// its children move under it, the kept one is linked where the removed one
+// was, its name becomes an alias, and its old id (and every id below it
+// that anything refers to, stored or not) keeps working through
+// `domain_redirects`.
+// -----------------------------------------------------------------------------
+
+// A name as stored. "/" separates path segments, so it can't appear in one.
+export const cleanName = (name: string) => name.normalize('NFKC').replace(/\//g, '-').replace(/\s+/g, ' ').trim();
+
+// Two names with the same key are the same domain
+export const nameKey = (name: string) => cleanName(name)
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}+#]+/gu, ' ')
+    .trim();
+
+export const childId = (parentId: string | undefined | null, name: string) => (parentId ? `${parentId}/${name}` : name);
+
+// The last name in a path
+export const nameOf = (id: string) => id.slice(id.lastIndexOf('/') + 1);
+
+// What `name` is called in the taxonomy: the name its alias stands for, or
+// itself, cleaned up
+export const canonicalName = async (db: Executor, name: string): Promise<string> => {
+    const clean = cleanName(name);
+    const [alias] = await db('SELECT name FROM domain_aliases WHERE alias = ?', [nameKey(clean)]);
+    return alias?.name ?? clean;
+};
+
+// The id a merged-away domain now lives at; any other id is returned as is
+export const resolveDomainId = async (db: Executor, id: string): Promise<string> => {
+    const [redirect] = await db('SELECT to_id FROM domain_redirects WHERE from_id = ?', [id]);
+    return redirect?.to_id ?? id;
+};
+
+// -----------------------------------------------------------------------------
+// MERGING
+// -----------------------------------------------------------------------------
+
+interface Node {
+    id: string;
+    name: string;
+    parent_id?: string | null;
+}
+
+export interface MergeReport {
+    // Stored nodes at or below the removed domain
+    nodes: number;
+    // Posts and saves at or below it, all of which move
+    posts: number;
+    savedDomains: number;
+    // Profiles whose interests name the removed domain
+    interests: number;
+}
+
+export interface MergeOptions {
+    // Report what would move, change nothing
+    dryRun?: boolean;
+    log?: (message: string) => void;
+}
+
+// Domains don't need a row of their own (the fixed top level has none), so
+// a node is whatever row there is, or just its id and name
+const findNode = async (db: Executor, id: string): Promise<Node> => {
+    const [row] = await db('SELECT id, name, parent_id FROM domains WHERE id = ?', [id]);
+    return row ?? { id, name: nameOf(id), parent_id: id.includes('/') ? id.slice(0, id.lastIndexOf('/')) : null };
+};
+
+const childrenOf = (db: Executor, id: string): Promise<Node[]> =>
+    db('SELECT id, name, parent_id FROM domains WHERE parent_id = ? ORDER BY position, id', [id]);
+
+// Ids at or below `id`: SUBSTR rather than LIKE, since names may contain % or _
+export const SUBTREE = '(domain_id = ? OR SUBSTR(domain_id, 1, ?) = ?)';
+export const subtreeParams = (id: string) => [id, id.length + 1, `${id}/`];
+
+const interestsNaming = async (db: Executor, name: string) => {
+    const rows = await db('SELECT id, interests FROM profiles WHERE LOWER(interests) LIKE ?', [`%${name.toLowerCase()}%`]);
+    return rows.filter((row: any) => String(row.interests).split(',').some(i => nameKey(i) === nameKey(name)));
+};
+
+const measure = async (db: Executor, from: Node, into: Node): Promise<MergeReport> => {
+    const count = async (sql: string) => Number((await db(sql, subtreeParams(from.id)))[0].n);
+    return {
+        nodes: await count(`SELECT COUNT(*) AS n FROM domains WHERE ${SUBTREE.replace(/domain_id/g, 'id')}`),
+        posts: await count(`SELECT COUNT(*) AS n FROM posts WHERE ${SUBTREE}`),
+        savedDomains: await count(`SELECT COUNT(*) AS n FROM saved_domains WHERE ${SUBTREE}`),
+        interests: nameKey(from.name) !== nameKey(into.name) ? (await interestsNaming(db, from.name)).length : 0,
+    };
+};
+
+// Everything that refers to `node` by id now refers to `target`
+const repoint = async (tx: Executor, node: Node, target: Node, now: string) => {
+    await tx('UPDATE posts SET domain_id = ? WHERE domain_id = ?', [target.id, node.id]);
+
+    // Someone who saved both keeps the one save
+    await tx(
+        'DELETE FROM saved_domains WHERE domain_id = ? AND user_id IN (SELECT user_id FROM (SELECT user_id FROM saved_domains WHERE domain_id = ?) kept)',
+        [node.id, target.id]
+    );
+    await tx('UPDATE saved_domains SET domain_id = ?, domain_name = ? WHERE domain_id = ?', [target.id, target.name, node.id]);
+
+    // The kept domain's own profile wins
+    const [profile] = await tx('SELECT domain_id FROM domain_profiles WHERE domain_id = ?', [target.id]);
+    if (profile) {
+        await tx('DELETE FROM domain_profiles WHERE domain_id = ?', [node.id]);
+    } else {
+        await tx('UPDATE domain_profiles SET domain_id = ? WHERE domain_id = ?', [target.id, node.id]);
+    }
+
+    // Links to and from `node` move to `target`, unless it already has them
+    const LINK = 'position, created_by, created_at';
+    await tx(`INSERT IGNORE INTO domain_links (parent_id, child_id, ${LINK}) SELECT parent_id, ?, ${LINK} FROM domain_links WHERE child_id = ?`, [target.id, node.id]);
+    await tx(`INSERT IGNORE INTO domain_links (parent_id, child_id, ${LINK}) SELECT ?, child_id, ${LINK} FROM domain_links WHERE parent_id = ?`, [target.id, node.id]);
+    await tx('DELETE FROM domain_links WHERE parent_id = ? OR child_id = ?', [node.id, node.id]);
+    // ... nor a link to itself or to where it already is
+    await tx('DELETE FROM domain_links WHERE child_id = ? AND parent_id IN (?, ?)', [target.id, target.id, target.parent_id ?? target.id]);
+
+    // Earlier redirects to `node` skip straight to `target`
+    await tx('UPDATE domain_redirects SET to_id = ? WHERE to_id = ?', [target.id, node.id]);
+    await tx('REPLACE INTO domain_redirects (from_id, to_id, created_at) VALUES (?, ?, ?)', [node.id, target.id, now]);
+};
+
+// Ids strictly below `id` that posts, saves or profiles use without a
+// domain row of their own (e.g. canned children shown but never stored)
+const idsInUseBelow = async (tx: Executor, id: string): Promise<string[]> => {
+    const below = 'SUBSTR(domain_id, 1, ?) = ?';
+    const params = subtreeParams(id).slice(1);
+    const rows = await tx(
+        `SELECT domain_id FROM posts WHERE ${below}
+         UNION SELECT domain_id FROM saved_domains WHERE ${below}
+         UNION SELECT domain_id FROM domain_profiles WHERE ${below}`,
+        [...params, ...params, ...params]
+    );
+    return rows.map((row: any) => row.domain_id);
+};
+
+// Moves `node`'s children under `target` (into a same-named child where
+// there is one, recursively), then whatever is left below it by the same
+// path, repoints `node` to `target` and removes it
+const mergeNode = async (tx: Executor, node: Node, target: Node, now: string) => {
+    for (const child of await childrenOf(tx, node.id)) {
+        const siblings = await childrenOf(tx, target.id);
+        let into = siblings.find(s => s.id !== child.id && s.id !== node.id && nameKey(s.name) === nameKey(child.name));
+        if (!into) {
+            into = { id: childId(target.id, child.name), name: child.name, parent_id: target.id };
+            await tx(
+                `INSERT INTO domains (id, parent_id, name, position, source, generator, summary, source_url, variant, created_by, created_at)
+                 SELECT ?, ?, name, ?, source, generator, summary, source_url, variant, created_by, created_at FROM domains WHERE id = ?`,
+                [into.id, target.id, siblings.length, child.id]
+            );
+        }
+        await mergeNode(tx, child, into, now);
+    }
+    // Stored children have taken theirs along; this is the rest
+    for (const id of await idsInUseBelow(tx, node.id)) {
+        await repoint(tx, await findNode(tx, id), await findNode(tx, target.id + id.slice(node.id.length)), now);
+    }
+    await repoint(tx, node, target, now);
+    await tx('DELETE FROM domains WHERE id = ?', [node.id]);
+};
+
+// Users interested in `from` are interested in `into`
+const renameInterests = async (tx: Executor, from: Node, into: Node) => {
+    for (const row of await interestsNaming(tx, from.name)) {
+        const interests = String(row.interests).split(',').map(i => (nameKey(i) === nameKey(from.name) ? into.name : i));
+        await tx('UPDATE profiles SET interests = ? WHERE id = ?', [[...new Set(interests)].join(','), row.id]);
+    }
+};
+
+/**
+ * Merges the domain `fromId` into `intoId` (see above) and reports what
+ * moved. Both are resolved through earlier merges first. All or nothing: it
+ * runs in one transaction.
+ */
+export const mergeDomains = async (db: Database, fromId: string, intoId: string, { dryRun = false, log = () => { } }: MergeOptions = {}): Promise<MergeReport> => {
+    const from = await findNode(db, await resolveDomainId(db, fromId));
+    const into = await findNode(db, await resolveDomainId(db, intoId));
+    if (from.id === into.id) throw new Error(`${fromId} and ${intoId} are already the same domain`);
+    if (into.id.startsWith(`${from.id}/`)) throw new Error(`Can't merge ${from.id} into ${into.id}, which is inside it`);
+
+    const report = await measure(db, from, into);
+    log(`${dryRun ? 'Would move' : 'Moving'} ${from.id} -> ${into.id}: ${report.nodes} node(s), ${report.posts} post(s), ${report.savedDomains} save(s), ${report.interests} interest list(s)`);
+    if (dryRun) return report;
+
+    await db.transaction(async tx => {
+        const now = new Date().toISOString();
+        await mergeNode(tx, from, into, now);
+        // Still found where the removed one was
+        const fromParent = from.parent_id;
+        if (fromParent && fromParent !== into.parent_id && fromParent !== into.id && !fromParent.startsWith(`${into.id}/`)) {
+            await tx(
+                'INSERT IGNORE INTO domain_links (parent_id, child_id, position, created_at) SELECT ?, ?, COUNT(*), ? FROM domains WHERE parent_id = ?',
+                [fromParent, into.id, now, fromParent]
+            );
+        }
+        if (nameKey(from.name) !== nameKey(into.name)) {
+            await renameInterests(tx, from, into);
+            // The old name (and anything that was an alias for it) now means the kept one
+            await tx('UPDATE domain_aliases SET name = ? WHERE name = ?', [into.name, from.name]);
+            await tx('REPLACE INTO domain_aliases (alias, name, created_at) VALUES (?, ?, ?)', [nameKey(from.name), into.name, now]);
+        }
+    });
+    return report;
+};
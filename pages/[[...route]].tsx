@@ -1,7 +1,7 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import dynamic from 'next/dynamic';
+import { useRouter } from 'next/router';
 import { ViewState, ViewType, Domain, PostWithAuthorAndLikes } from '../types';
-import { initDB } from '../lib/tidbClient';
 import StatusDisplay from '../components/StatusDisplay';
 import SplashScreen from '../components/SplashScreen';
 import Sidebar from '../components/Sidebar';
@@ -20,6 +20,7 @@ import SearchView from '../components/SearchView';
 import SettingsView from '../components/SettingsView';
 import FeedView from '../components/FeedView';
 import { MobileTopBar, MobileBottomNav } from '../components/MobileNav';
+import { replacesEntry, urlToView, viewToUrl } from '../lib/routes';
 
 const Home: React.FC = () => {
     // Main Entry Point
@@ -40,10 +41,6 @@ const Home: React.FC = () => {
         setRefreshKey(prev => prev + 1);
     };
 
-    useEffect(() => {
-        initDB().catch(err => console.warn("System Init:", err));
-    }, []);
-
     // PWA & Notifications Logic
     const [deferredPrompt, setDeferredPrompt] = useState<any>(null);
     const [showInstallBanner, setShowInstallBanner] = useState(false);
@@ -103,6 +100,48 @@ const Home: React.FC = () => {
         }
     }, [user, isLoading]);
 
+    // --- URL <-> VIEW ---
+    // Every URL renders this page (see lib/routes), so moving between views
+    // is a shallow route change and the app's state survives it. The URL is
+    // read on load and on back/forward; each view change is written back.
+    const router = useRouter();
+    const shownUrl = useRef<string | null>(null); // What the address bar says, as far as we know
+    const shownView = useRef<ViewState | null>(null); // The view that URL was read from or written for
+
+    useEffect(() => {
+        if (!router.isReady || !user || router.asPath === shownUrl.current) return;
+        let cancelled = false;
+        const url = router.asPath;
+        urlToView(url)
+            .catch((e): ViewState => {
+                console.warn(`Could not open ${url}:`, e);
+                return { type: ViewType.Explore };
+            })
+            .then(view => {
+                if (cancelled) return;
+                shownUrl.current = url;
+                shownView.current = view;
+                setCurrentView(view);
+            });
+        return () => { cancelled = true; };
+    }, [router.isReady, router.asPath, user]);
+
+    useEffect(() => {
+        // Nothing to write before the URL has been read, or for the view it gave
+        if (!shownView.current || shownView.current === currentView) return;
+        let cancelled = false;
+        const previous = shownView.current;
+        viewToUrl(currentView, user?.uid).then(url => {
+            if (cancelled) return;
+            shownView.current = currentView;
+            if (url === shownUrl.current) return;
+            shownUrl.current = url;
+            const navigate = replacesEntry(previous, currentView) ? router.replace : router.push;
+            navigate(url, undefined, { shallow: true });
+        }).catch(e => console.warn('Could not update the URL:', e));
+        return () => { cancelled = true; };
+    }, [currentView]);
+
     // Onboarding Redirect
     useEffect(() => {
         if (user && profile && !profile.username && currentView.type !== ViewType.Profile) {
@@ -122,6 +161,7 @@ const Home: React.FC = () => {
                         domainName={currentView.domainName}
                         setCurrentView={setCurrentView}
                         focusedPostId={currentView.focusedPostId}
+                        route={currentView.route}
                         onEditPost={handleOpenCreateModal}
                         refreshKey={refreshKey}
                     />
@@ -145,7 +185,7 @@ const Home: React.FC = () => {
             case ViewType.Notifications:
                 return <NotificationsView setCurrentView={setCurrentView} />;
             case ViewType.Search:
-                return <SearchView domainTree={domainTree} setCurrentView={setCurrentView} />;
+                return <SearchView domainTree={domainTree} setCurrentView={setCurrentView} query={currentView.query} mode={currentView.mode} />;
             case ViewType.Settings:
                 return <SettingsView setCurrentView={setCurrentView} />;
             case ViewType.Feed:
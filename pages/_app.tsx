@@ -6,12 +6,8 @@ import { StatusProvider } from '../contexts/StatusContext';
 import { ThemeProvider } from '../contexts/ThemeContext';
 import '../styles/globals.css';
 
-import { initializeSchema } from '../lib/initDb';
-
 function MyApp({ Component, pageProps }: AppProps) {
     useEffect(() => {
-        initializeSchema();
-
         // Prevent default context menu
         const handleContextMenu = (e: MouseEvent) => e.preventDefault();
         document.addEventListener('contextmenu', handleContextMenu);
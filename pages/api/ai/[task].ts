@@ -0,0 +1,60 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { AiTask, aiTaskInputs, isAiTask } from '../../../lib/ai';
+import { aiGateway, AiError } from '../../../lib/server/ai';
+import { runAiTask } from '../../../lib/server/aiTasks';
+import { executeWrite } from '../../../lib/server/database';
+import { callerContext, toAuthErrorResponse } from '../../../lib/server/rpc';
+import { ValidationError } from '../../../lib/rpc/schema';
+import { OperationContext } from '../../../lib/rpc/operation';
+
+// -----------------------------------------------------------------------------
+// AI ENDPOINT
+// -----------------------------------------------------------------------------
+// POST /api/ai/<task>  { input: {...} }  ->  { data: <output>, generator }
+//
+// Runs one of the tasks in lib/ai through the gateway in lib/server/ai
+// (provider, cache, limits). Signed-in callers only: the per-minute limit is
+// per user. Failures are 429 (slow down), 502/504 (the model failed or
+// timed out) or 503 (busy); clients fall back to canned answers on any of them.
+// -----------------------------------------------------------------------------
+
+// Generic in the task, so the input is parsed as that task's and no other
+const runTask = <T extends AiTask>(task: T, rawInput: unknown, caller: string) =>
+  runAiTask(aiGateway(executeWrite), task, aiTaskInputs[task].parse(rawInput ?? {}), caller);
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method Not Allowed' });
+  }
+
+  const task = String(req.query.task);
+  if (!isAiTask(task)) {
+    return res.status(404).json({ message: `Unknown AI task: ${task}` });
+  }
+
+  let ctx: OperationContext;
+  try {
+    ctx = await callerContext(req);
+  } catch (error) {
+    const { status, message } = toAuthErrorResponse(error);
+    return res.status(status).json({ message });
+  }
+  if (!ctx.uid) {
+    return res.status(401).json({ message: 'Sign in required' });
+  }
+
+  try {
+    res.status(200).json(await runTask(task, req.body?.input, ctx.uid));
+  } catch (error: any) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ message: error.message });
+    }
+    if (error instanceof AiError) {
+      if (error.status === 429) res.setHeader('Retry-After', '60');
+      if (error.status >= 500) console.warn(`[AI] ${task}:`, error.message);
+      return res.status(error.status).json({ message: error.status >= 500 ? 'AI service unavailable' : error.message });
+    }
+    console.error(`[AI Error] ${task}`, error);
+    res.status(500).json({ message: 'AI task failed' });
+  }
+}
@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { probeAll, clusterHealth } from '../../lib/server/database';
+
+// -----------------------------------------------------------------------------
+// HEALTH ENDPOINT
+// -----------------------------------------------------------------------------
+// GET /api/health -> { status, clusters: [{ name, role, state, latencyMs, ... }] }
+//
+// Probes every cluster before answering, so the report is current.
+// - ok:       every cluster's breaker is closed
+// - degraded: the primary is up but a replica isn't
+// - down:     the primary is unavailable (writes are failing); responds 503
+// -----------------------------------------------------------------------------
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: 'Method Not Allowed' });
+  }
+
+  await probeAll();
+  const clusters = clusterHealth().map(cluster => ({
+    ...cluster,
+    // Driver errors can include hostnames; only show them locally
+    lastError: process.env.NODE_ENV === 'development' ? cluster.lastError : (cluster.lastError ? 'unreachable' : null)
+  }));
+
+  const primary = clusters.find(c => c.role === 'primary');
+  const status = !primary || primary.state !== 'closed'
+    ? 'down'
+    : clusters.every(c => c.state === 'closed') ? 'ok' : 'degraded';
+
+  res.setHeader('Cache-Control', 'no-store');
+  res.status(status === 'down' ? 503 : 200).json({ status, clusters });
+}
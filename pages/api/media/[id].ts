@@ -0,0 +1,51 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { mediaStore, readImage } from '../../../lib/server/media';
+import { isMediaId, isMediaVariant } from '../../../lib/media';
+
+// -----------------------------------------------------------------------------
+// MEDIA
+// -----------------------------------------------------------------------------
+// GET /api/media/<id>[?variant=thumb|feed|full]  ->  the image bytes
+//
+// Ids are content hashes, so the bytes behind one never change: responses
+// are cacheable forever by browsers and CDNs, and the hash doubles as the
+// ETag for revalidation. Without a variant the full size is served.
+// -----------------------------------------------------------------------------
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return res.status(405).json({ message: 'Method Not Allowed' });
+  }
+
+  const id = String(req.query.id);
+  const variant = String(req.query.variant ?? 'full');
+  if (!isMediaId(id) || !isMediaVariant(variant)) {
+    return res.status(404).json({ message: 'No such image' });
+  }
+
+  const etag = `"${id.split('.')[0]}-${variant}"`;
+  res.setHeader('ETag', etag);
+  res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+
+  if ((req.headers['if-none-match'] || '').split(',').some(tag => tag.trim().replace(/^W\//, '') === etag)) {
+    return res.status(304).end();
+  }
+
+  try {
+    const image = await readImage(mediaStore(), id, variant);
+    if (!image) {
+      res.setHeader('Cache-Control', 'no-store');
+      return res.status(404).json({ message: 'No such image' });
+    }
+    const { bytes, contentType } = image;
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Length', bytes.length);
+    // Served from our origin, so never let a browser reinterpret the bytes
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.status(200).end(req.method === 'HEAD' ? undefined : bytes);
+  } catch (error) {
+    console.error('[Media]', error);
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(503).json({ message: 'Media store unavailable' });
+  }
+}
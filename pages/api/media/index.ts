@@ -0,0 +1,73 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { callerContext, toAuthErrorResponse } from '../../../lib/server/rpc';
+import { mediaStore, ingestImage, MediaError } from '../../../lib/server/media';
+import { executeWrite, DatabaseUnavailableError } from '../../../lib/server/database';
+import { MAX_MEDIA_BYTES, mediaUrl } from '../../../lib/media';
+import { OperationContext } from '../../../lib/rpc/operation';
+
+// -----------------------------------------------------------------------------
+// MEDIA UPLOAD
+// -----------------------------------------------------------------------------
+// POST /api/media  <raw image bytes>  ->  { id, url, width, height, placeholder }
+//
+// Runs an image through the pipeline in lib/server/media (validation,
+// metadata stripping, resized variants) and returns its id, which
+// posts.create / profiles.update take instead of the image itself.
+// Signed-in callers only. The type is sniffed from the bytes; JPEG, PNG,
+// GIF and WebP up to MAX_MEDIA_BYTES are accepted.
+// -----------------------------------------------------------------------------
+
+// Read the raw body ourselves instead of letting Next parse it as JSON
+export const config = { api: { bodyParser: false } };
+
+// Past MAX_MEDIA_BYTES it stops reading and rejects with a 413; the
+// connection is closed once that response is out, so the client sees it
+// rather than a reset, and the rest of the upload is never read.
+const readBody = (req: NextApiRequest, res: NextApiResponse) => new Promise<Buffer>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const onData = (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_MEDIA_BYTES) {
+      req.off('data', onData);
+      req.pause();
+      res.setHeader('Connection', 'close');
+      res.once('finish', () => req.destroy());
+      reject(new MediaError(413, 'Image is too large'));
+      return;
+    }
+    chunks.push(chunk);
+  };
+  req.on('data', onData);
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method Not Allowed' });
+  }
+
+  let ctx: OperationContext;
+  try {
+    ctx = await callerContext(req);
+  } catch (error) {
+    const { status, message } = toAuthErrorResponse(error);
+    return res.status(status).json({ message });
+  }
+  if (!ctx.uid) {
+    return res.status(401).json({ message: 'Sign in to upload images' });
+  }
+
+  try {
+    const media = await ingestImage(executeWrite, mediaStore(), await readBody(req, res));
+    res.status(200).json({ ...media, url: mediaUrl(media.id) });
+  } catch (error: any) {
+    if (error instanceof MediaError) {
+      return res.status(error.status).json({ message: error.message });
+    }
+    // Clients treat 5xx as "unreachable"
+    if (!(error instanceof DatabaseUnavailableError)) console.error('[Media Upload]', error);
+    res.status(503).json({ message: 'Media store unavailable' });
+  }
+}
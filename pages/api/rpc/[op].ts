@@ -0,0 +1,59 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getOperation } from '../../../lib/rpc/operations';
+import { runOperation, Database, OperationContext } from '../../../lib/rpc/operation';
+import { executorFor, executeWrite } from '../../../lib/server/database';
+import { callerContext, contentSources, toAuthErrorResponse, toErrorResponse } from '../../../lib/server/rpc';
+import { withIdempotency } from '../../../lib/server/idempotency';
+
+// -----------------------------------------------------------------------------
+// RPC ENDPOINT
+// -----------------------------------------------------------------------------
+// POST /api/rpc/<operation>  { input: {...} }  ->  { data: <output> }
+//
+// Only operations registered in lib/rpc/operations can run here; the client
+// never sends SQL. Input is validated before touching the database and the
+// output is filtered through the operation's schema before it is returned.
+//
+// The caller is identified by the Firebase ID token in the Authorization
+// header; operations act on behalf of that uid and nobody else.
+//
+// Writes may carry an `Idempotency-Key` header (lib/rpc/client sends one), making
+// retries of the same write safe. Reads may also be sent together through
+// /api/rpc/batch.
+// -----------------------------------------------------------------------------
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method Not Allowed' });
+  }
+
+  const name = String(req.query.op);
+  const operation = getOperation(name);
+  if (!operation) {
+    return res.status(404).json({ message: `Unknown operation: ${name}` });
+  }
+
+  let ctx: OperationContext;
+  try {
+    const caller = await callerContext(req);
+    ctx = { ...caller, sources: contentSources(caller.uid) };
+  } catch (error) {
+    const { status, message } = toAuthErrorResponse(error);
+    return res.status(status).json({ message });
+  }
+
+  const idempotencyKey = req.headers['idempotency-key'];
+
+  try {
+    // Writes go to the primary only; reads may be served by a replica
+    const execute = (db: Database) => runOperation(operation, db, req.body?.input, ctx);
+    const data = operation.kind === 'write' && ctx.uid && typeof idempotencyKey === 'string' && idempotencyKey.length <= 255
+      ? await withIdempotency(executeWrite, idempotencyKey, ctx.uid, name, execute)
+      : await execute(executorFor(operation.kind));
+    res.status(200).json({ data });
+  } catch (error: any) {
+    const { status, ...body } = toErrorResponse(name, error);
+    if (status === 503) res.setHeader('Retry-After', '30');
+    res.status(status).json(body);
+  }
+}
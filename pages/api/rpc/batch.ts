@@ -0,0 +1,56 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getOperation } from '../../../lib/rpc/operations';
+import { runOperation, OperationContext } from '../../../lib/rpc/operation';
+import { MAX_BATCH_SIZE, BatchResult } from '../../../lib/rpc/batch';
+import { executeRead } from '../../../lib/server/database';
+import { callerContext, toAuthErrorResponse, toErrorResponse } from '../../../lib/server/rpc';
+
+// -----------------------------------------------------------------------------
+// RPC BATCH ENDPOINT
+// -----------------------------------------------------------------------------
+// POST /api/rpc/batch  { calls: [{ op, input }] }  ->  { results: [...] }
+//
+// Runs read operations side by side for one caller (see lib/rpc/batch for
+// the shapes). A failing call doesn't fail the batch; its slot carries the
+// same status and message /api/rpc/<op> would have answered with.
+// -----------------------------------------------------------------------------
+
+const runCall = async (call: any, ctx: OperationContext): Promise<BatchResult> => {
+  const name = String(call?.op);
+  const operation = getOperation(name);
+  if (!operation) {
+    return { error: { status: 404, message: `Unknown operation: ${name}` } };
+  }
+  if (operation.kind !== 'read') {
+    return { error: { status: 400, message: `${name} is a write and can't be batched` } };
+  }
+
+  try {
+    return { data: await runOperation(operation, executeRead, call.input, ctx) };
+  } catch (error: any) {
+    const { status, message } = toErrorResponse(name, error);
+    return { error: { status, message } };
+  }
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method Not Allowed' });
+  }
+
+  const calls = req.body?.calls;
+  if (!Array.isArray(calls) || calls.length === 0 || calls.length > MAX_BATCH_SIZE) {
+    return res.status(400).json({ message: `calls: expected 1 to ${MAX_BATCH_SIZE} operations` });
+  }
+
+  let ctx: OperationContext;
+  try {
+    ctx = await callerContext(req);
+  } catch (error) {
+    const { status, message } = toAuthErrorResponse(error);
+    return res.status(status).json({ message });
+  }
+
+  const results = await Promise.all(calls.map(call => runCall(call, ctx)));
+  res.status(200).json({ results });
+}
@@ -0,0 +1,35 @@
+import { appliedMigrations } from '../lib/migrations';
+import { primaryExecutor } from '../lib/server/database';
+import { mediaStore, extractInlineImages } from '../lib/server/media';
+
+// -----------------------------------------------------------------------------
+// npm run extract-media -- [--dry-run]
+// -----------------------------------------------------------------------------
+// Moves base64 images still stored inline in posts.imageURL and
+// profiles.photoURL into the media store (see lib/server/media) and points
+// the rows at them. Run once after migration 007_media, which creates the
+// media table; re-running only picks up rows that are still inline.
+//
+//   --dry-run  count and validate the images that would move, change nothing
+// -----------------------------------------------------------------------------
+
+const dryRun = process.argv.slice(2).includes('--dry-run');
+
+const main = async () => {
+    const execute = primaryExecutor();
+    if (!execute) {
+        throw new Error('No database configured. Set DATABASE_URL.');
+    }
+    if (!(await appliedMigrations(execute)).includes('007_media')) {
+        throw new Error('Migration 007_media has not been applied. Run npm run migrate first.');
+    }
+
+    const store = mediaStore();
+    console.log(`Media store: ${store.name}`);
+    await extractInlineImages(execute, store, { dryRun, log: message => console.log(message) });
+};
+
+main().catch(err => {
+    console.error(err.message || err);
+    process.exit(1);
+});
@@ -0,0 +1,37 @@
+import { primaryExecutor, executeWrite } from '../lib/server/database';
+import { mergeDomains } from '../lib/taxonomy';
+
+// -----------------------------------------------------------------------------
+// npm run merge-domains -- <from> <into> [--dry-run]
+// -----------------------------------------------------------------------------
+// Merges the domain with id <from> into <into>, e.g.
+//
+//   npm run merge-domains -- "Technology/AI" "Technology/Artificial Intelligence"
+//
+// Posts, saved domains, the profile and interests move to <into>, children
+// of <from> move under it, and <from> redirects there from now on (see
+// lib/taxonomy).
+//
+//   --dry-run  report what would move, change nothing
+// -----------------------------------------------------------------------------
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const [fromId, intoId] = args.filter(arg => arg !== '--dry-run');
+
+const main = async () => {
+    if (!fromId || !intoId) {
+        throw new Error('Usage: npm run merge-domains -- <from> <into> [--dry-run]');
+    }
+    if (!primaryExecutor()) {
+        throw new Error('No database configured. Set DATABASE_URL.');
+    }
+
+    await mergeDomains(executeWrite, fromId, intoId, { dryRun, log: message => console.log(message) });
+    if (!dryRun) console.log('Merged.');
+};
+
+main().catch(err => {
+    console.error(err.message || err);
+    process.exit(1);
+});
@@ -0,0 +1,48 @@
+import { primaryExecutor } from '../lib/server/database';
+import { migrate, migrations, appliedMigrations } from '../lib/migrations';
+
+// -----------------------------------------------------------------------------
+// npm run migrate -- [--dry-run] [--down] [--steps=N] [--status]
+// -----------------------------------------------------------------------------
+// Brings the primary cluster (DATABASE_URL) up to date. Replicas receive the
+// DDL, and the `schema_migrations` ledger, through replication.
+//
+//   --status   list applied / pending migrations and exit
+//   --dry-run  print the DDL that would run, change nothing
+//   --down     roll back instead (1 migration unless --steps is given)
+//   --steps=N  limit how many migrations to apply or roll back
+// -----------------------------------------------------------------------------
+
+const args = process.argv.slice(2);
+const flag = (name: string) => args.includes(`--${name}`);
+const stepsArg = args.find(a => a.startsWith('--steps='));
+const steps = stepsArg ? Number(stepsArg.split('=')[1]) : undefined;
+
+const main = async () => {
+    const execute = primaryExecutor();
+    if (!execute) {
+        throw new Error('No database configured. Set DATABASE_URL.');
+    }
+    if (steps !== undefined && (!Number.isInteger(steps) || steps < 1)) {
+        throw new Error('--steps must be a positive integer');
+    }
+
+    if (flag('status')) {
+        const applied = new Set(await appliedMigrations(execute));
+        migrations.forEach(m => console.log(`${applied.has(m.id) ? 'applied' : 'pending'}  ${m.id}  ${m.description}`));
+        return;
+    }
+
+    const plan = await migrate(execute, {
+        direction: flag('down') ? 'down' : 'up',
+        steps,
+        dryRun: flag('dry-run'),
+        log: message => console.log(message)
+    });
+    if (plan.length === 0) console.log('Nothing to do.');
+};
+
+main().catch(err => {
+    console.error(err.message || err);
+    process.exit(1);
+});
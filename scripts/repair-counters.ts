@@ -0,0 +1,29 @@
+import { primaryExecutor } from '../lib/server/database';
+import { repairCounters } from '../lib/counters';
+
+// -----------------------------------------------------------------------------
+// npm run repair-counters -- [--dry-run]
+// -----------------------------------------------------------------------------
+// Recomputes the denormalized like / comment / follower / post counters on
+// the primary cluster (DATABASE_URL) and fixes any that drifted.
+//
+//   --dry-run  report drifted rows, change nothing
+// -----------------------------------------------------------------------------
+
+const dryRun = process.argv.slice(2).includes('--dry-run');
+
+const main = async () => {
+    const execute = primaryExecutor();
+    if (!execute) {
+        throw new Error('No database configured. Set DATABASE_URL.');
+    }
+
+    const report = await repairCounters(execute, { dryRun, log: message => console.log(message) });
+    const drifted = report.reduce((sum, r) => sum + r.drifted, 0);
+    console.log(drifted === 0 ? 'All counters are consistent.' : `${drifted} row(s) ${dryRun ? 'drifted' : 'repaired'}.`);
+};
+
+main().catch(err => {
+    console.error(err.message || err);
+    process.exit(1);
+});
@@ -0,0 +1,46 @@
+import { DomainProfile } from '../types';
+
+export const ROOT_DOMAINS = [
+    "Science",
+    "Technology",
+    "Engineering",
+    "Arts",
+    "Mathematics",
+    "Philosophy",
+    "History",
+    "Nature",
+    "Social Sciences",
+    "Business",
+    "Literature",
+    "Health",
+    "Environment",
+    "Education",
+    "Law",
+
+];
+
+// Shown, never stored, for a domain whose children the model couldn't
+// generate (see domainService)
+export const fallbackDomains = (topic: string): string[] => [
+    `Concepts in ${topic}`,
+    `History of ${topic}`,
+    `Modern ${topic}`,
+    `Applications of ${topic}`,
+    `Research in ${topic}`,
+    `Future of ${topic}`,
+    `Ethics in ${topic}`,
+    `Tools for ${topic}`,
+    `${topic} Case Studies`,
+    `${topic} Theory`
+];
+
+// Shown, never stored, for a domain whose profile the model couldn't
+// generate: a one-line summary of `term`, found at `path`
+export const fallbackProfile = (term: string, path: string[]): DomainProfile => ({
+    summary: `${term} is a significant topic within ${path[path.length - 2] || 'this field'}.`,
+    keyConcepts: [],
+    notablePeople: [],
+    prerequisites: [],
+    related: [],
+    reading: [],
+});
@@ -0,0 +1,127 @@
+import { call } from '../lib/rpc/client';
+import { childId, nameKey, nameOf } from '../lib/taxonomy';
+import { Domain, DomainNode, DomainProfile, StoredDomainProfile } from '../types';
+import { fallbackDomains, fallbackProfile, ROOT_DOMAINS } from './aiService';
+
+// Nodes are addressed by id (see lib/taxonomy): a node linked under several
+// parents has the one id, whichever route led to it. `parentId` undefined is
+// the top level.
+
+const toDomain = (node: DomainNode): Domain => ({
+    id: node.id,
+    name: node.name,
+    children: null,
+    source: node.source,
+    summary: node.summary,
+    sourceUrl: node.source_url,
+    sourceName: node.source === 'web' ? node.generator : undefined,
+});
+
+// The fixed top-level list first, then whatever has been stored next to it
+const withRootDomains = (parentId: string | undefined, domains: Domain[]): Domain[] => {
+    if (parentId) return domains;
+    const stored = new Set(domains.map(d => nameKey(d.name)));
+    const roots = ROOT_DOMAINS
+        .filter(name => !stored.has(nameKey(name)))
+        .map(name => ({ id: name, name, children: null, source: 'ai' as const }));
+    return [...roots, ...domains];
+};
+
+// The canned children shown, never stored, when the model couldn't answer,
+// so the next visitor gets another real attempt
+const withFallback = (parentId: string | undefined, shown: Domain[]): Domain[] => {
+    if (!parentId) return shown;
+    const taken = new Set(shown.map(d => nameKey(d.name)));
+    const canned = fallbackDomains(nameOf(parentId))
+        .filter(name => !taken.has(nameKey(name)))
+        .map(name => ({ id: childId(parentId, name), name, children: null, source: 'ai' as const }));
+    return [...shown, ...canned];
+};
+
+/**
+ * The children of the node `parentId`. Stored children are used as they
+ * are; a node nobody has expanded yet is expanded on the server (generated,
+ * together with related topics from a web search) and stored for everyone.
+ * The top level is never generated.
+ */
+export const loadDomainChildren = async (parentId: string | undefined): Promise<Domain[]> => {
+    const stored = (await call('domains.children', { parentId })).map(toDomain);
+    if (!parentId || stored.some(d => d.source === 'ai')) return withRootDomains(parentId, stored);
+
+    // Offline, nothing is generated: the canned list it is
+    const children = await call('domains.expand', { parentId }).then(nodes => nodes.map(toDomain), error => {
+        console.warn(`Could not expand ${parentId}:`, error);
+        return stored;
+    });
+    return children.some(d => d.source === 'ai') ? children : withFallback(parentId, children);
+};
+
+// The children loadDomainChildren would show without generating any, or null
+// if it would have to (nothing stored yet, or only web and user children)
+export const peekDomainChildren = async (parentId: string): Promise<Domain[] | null> => {
+    const stored = (await call('domains.children', { parentId })).map(toDomain);
+    return stored.some(d => d.source === 'ai') ? stored : null;
+};
+
+// One more round of generated children ("load more") after `current`, the
+// ones shown now; returns all children
+export const generateMoreDomainChildren = async (parentId: string | undefined, variant: number, current: Domain[]): Promise<Domain[]> => {
+    const nodes = await call('domains.expand', { parentId, variant });
+    const stored = new Set(nodes.map(n => n.id));
+    // Keeps what is shown but not stored: the fixed top level, canned children
+    const children = [...current.filter(c => !stored.has(c.id)), ...nodes.map(toDomain)];
+    return nodes.some(n => n.variant === variant) ? children : withFallback(parentId, children);
+};
+
+/**
+ * A child typed in by the user; returns all children. A domain of that name
+ * that already exists elsewhere is linked here rather than created again,
+ * so it keeps one set of posts.
+ */
+export const addUserDomain = async (parentId: string | undefined, name: string): Promise<Domain[]> => {
+    const [existing] = parentId ? await call('domains.findByName', { name }) : [];
+    if (existing) {
+        try {
+            return (await call('domains.link', { parentId: parentId!, childId: existing.id })).map(toDomain);
+        } catch (error) {
+            // e.g. it is above this node; a new one it is
+            console.warn(`Could not link ${existing.id} under ${parentId}:`, error);
+        }
+    }
+    const nodes = await call('domains.addChildren', { parentId, names: [name] });
+    return withRootDomains(parentId, nodes.map(toDomain));
+};
+
+// Every parent of the domain `id`, first the one it was created under
+export const loadDomainParents = (id: string) => call('domains.parents', { id });
+
+// What an info card shows: the stored profile, or the canned fallback
+// (`stored` absent), which like fallback children is never stored
+export interface ShownProfile {
+    profile: DomainProfile;
+    stored?: StoredDomainProfile;
+}
+
+const shownProfile = (domainId: string, stored?: StoredDomainProfile): ShownProfile =>
+    stored ? { profile: stored.profile, stored } : { profile: fallbackProfile(nameOf(domainId), domainId.split('/')) };
+
+/**
+ * The profile of the domain `domainId`. Generated on the server and stored
+ * for the first viewer; everyone after reads the stored one.
+ */
+export const loadDomainProfile = async (domainId: string): Promise<ShownProfile> => {
+    const stored = await call('domains.profile', { domainId }) ?? await call('domains.generateProfile', { domainId }).catch(error => {
+        // Offline, nothing is generated: the fallback it is
+        console.warn(`Could not generate a profile of ${domainId}:`, error);
+        return undefined;
+    });
+    return shownProfile(domainId, stored);
+};
+
+// Replaces `current` with a newly generated profile. Throws if the AI can't
+// answer, rather than swapping a real profile for the fallback.
+export const refreshDomainProfile = async (domainId: string, current?: StoredDomainProfile): Promise<ShownProfile> => {
+    const stored = await call('domains.generateProfile', { domainId, replaces: current?.revision });
+    if (current && (!stored || stored.revision === current.revision)) throw new Error(`Could not refresh the profile of ${domainId}`);
+    return shownProfile(domainId, stored);
+};
@@ -1 +1,153 @@
-export {};
\ No newline at end of file
+// -----------------------------------------------------------------------------
+// WEB SEARCH
+// -----------------------------------------------------------------------------
+// Topics related to a domain, found on the web rather than made up by the AI,
+// each with a short summary and the page it came from. They become `web`
+// domains in the taxonomy, placed on the outer ring of the explore view.
+//
+// The source is pluggable, selected by NEXT_PUBLIC_WEB_SEARCH:
+// - wikipedia (default): the MediaWiki API of en.wikipedia.org. Any other
+//   MediaWiki site works with `mediaWikiProvider({ endpoint })`.
+// - fixtures: a small canned set, for offline development and tests
+// - off: no web results
+//
+// Related topics are looked up on the server, which stores them (see
+// domains.expand); summaries in the browser, since MediaWiki allows
+// anonymous cross-origin reads.
+// -----------------------------------------------------------------------------
+
+export interface WebTopic {
+    title: string;
+    summary?: string;
+    url: string;
+    // Where it was found, for attribution, e.g. "Wikipedia"
+    source: string;
+}
+
+export interface WebSearchProvider {
+    name: string;
+    // Topics related to `topic`, most related first
+    relatedTopics: (topic: string, limit: number) => Promise<WebTopic[]>;
+    // The page for `topic` itself, or null if there is none
+    summary: (topic: string) => Promise<WebTopic | null>;
+}
+
+// Two sentences is enough for a card
+const SUMMARY_SENTENCES = 2;
+// Web results are extras: not worth waiting long for (domains.expand waits)
+const REQUEST_TIMEOUT = 5000;
+
+export const mediaWikiProvider = ({ name = 'Wikipedia', endpoint = 'https://en.wikipedia.org/w/api.php', timeout = REQUEST_TIMEOUT } = {}): WebSearchProvider => {
+    const query = async (params: Record<string, string | number>): Promise<any[]> => {
+        const url = new URL(endpoint);
+        const all = {
+            action: 'query', format: 'json', formatversion: 2, origin: '*',
+            prop: 'extracts|info', exintro: 1, explaintext: 1, exsentences: SUMMARY_SENTENCES, inprop: 'url',
+            ...params
+        };
+        Object.entries(all).forEach(([key, value]) => url.searchParams.set(key, String(value)));
+
+        // A timeout throws, and so reads as no results (see findRelatedTopics)
+        const response = await fetch(url, { signal: AbortSignal.timeout(timeout) });
+        if (!response.ok) throw new Error(`${name} API Error: ${response.status} ${response.statusText}`);
+        const json = await response.json();
+        return json.query?.pages ?? [];
+    };
+
+    const toTopic = (page: any): WebTopic => ({
+        title: page.title,
+        summary: page.extract?.trim() || undefined,
+        url: page.fullurl,
+        source: name,
+    });
+
+    const search = async (term: string, limit: number) => {
+        const pages = await query({ generator: 'search', gsrsearch: term, gsrnamespace: 0, gsrlimit: limit, exlimit: limit });
+        // Generator results come back unordered; `index` is the search rank
+        return pages.filter(p => !p.missing).sort((a, b) => (a.index ?? 0) - (b.index ?? 0)).map(toTopic);
+    };
+
+    return {
+        name,
+        relatedTopics: async (topic, limit) => {
+            // "morelike:" finds articles similar to the topic's own; a topic
+            // with no article of its own falls back to a plain search
+            const similar = await search(`morelike:${topic}`, limit + 1);
+            const topics = similar.length > 0 ? similar : await search(topic, limit + 1);
+            return topics.filter(t => t.title.toLowerCase() !== topic.toLowerCase()).slice(0, limit);
+        },
+        summary: async topic => {
+            const [page] = await query({ titles: topic, redirects: 1 });
+            return page && !page.missing ? toTopic(page) : null;
+        }
+    };
+};
+
+const FIXTURES: Record<string, Omit<WebTopic, 'source'>[]> = {
+    science: [
+        { title: 'Scientific method', summary: 'The scientific method is an empirical method for acquiring knowledge.', url: 'https://example.org/wiki/Scientific_method' },
+        { title: 'Philosophy of science', summary: 'Philosophy of science is the branch of philosophy concerned with the foundations, methods, and implications of science.', url: 'https://example.org/wiki/Philosophy_of_science' },
+    ],
+    technology: [
+        { title: 'History of technology', summary: 'The history of technology is the history of the invention of tools and techniques.', url: 'https://example.org/wiki/History_of_technology' },
+        { title: 'Engineering', summary: 'Engineering is the practice of using natural science, mathematics, and the engineering design process to solve problems.', url: 'https://example.org/wiki/Engineering' },
+    ],
+};
+
+// Canned results keyed by lower-case topic; anything else has none
+export const fixtureProvider = (fixtures = FIXTURES): WebSearchProvider => {
+    const find = (topic: string) => (fixtures[topic.toLowerCase()] ?? []).map(t => ({ ...t, source: 'Fixtures' }));
+    return {
+        name: 'Fixtures',
+        relatedTopics: async (topic, limit) => find(topic).slice(0, limit),
+        summary: async topic => {
+            const match = Object.values(fixtures).flat().find(t => t.title.toLowerCase() === topic.toLowerCase());
+            return match ? { ...match, source: 'Fixtures' } : null;
+        }
+    };
+};
+
+const providerFromEnv = (): WebSearchProvider | null => {
+    switch (process.env.NEXT_PUBLIC_WEB_SEARCH || 'wikipedia') {
+        case 'off':
+            return null;
+        case 'fixtures':
+            return fixtureProvider();
+        default:
+            return mediaWikiProvider();
+    }
+};
+
+let provider: WebSearchProvider | null | undefined;
+
+const webSearch = () => {
+    if (provider === undefined) provider = providerFromEnv();
+    return provider;
+};
+
+/**
+ * Up to `limit` topics related to `topic`. Web results are extras, so any
+ * failure (offline, rate limited, timed out, ...) just means there are none.
+ */
+export const findRelatedTopics = async (topic: string, limit = 4): Promise<WebTopic[]> => {
+    const source = webSearch();
+    if (!source) return [];
+    try {
+        return await source.relatedTopics(topic, limit);
+    } catch (error) {
+        console.warn(`Web search failed for ${topic}:`, error);
+        return [];
+    }
+};
+
+// The source page for `topic`, or null if there is none (or it can't be reached)
+export const findTopicSummary = async (topic: string): Promise<WebTopic | null> => {
+    const source = webSearch();
+    if (!source) return null;
+    try {
+        return await source.summary(topic);
+    } catch (error) {
+        console.warn(`Web summary failed for ${topic}:`, error);
+        return null;
+    }
+};
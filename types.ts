@@ -14,31 +14,97 @@ export enum ViewType {
 
 export type ProfileTab = 'posts' | 'likes' | 'saved' | 'comments';
 
+export type SearchMode = 'frequency' | 'signal' | 'people';
+
+// Every ViewState has a URL (lib/routes), kept in sync with browser history
 export type ViewState =
   | { type: ViewType.Explore; initialPath?: string[]; overlayProfileId?: string }
-  | { type: ViewType.Post; domainId: string; domainName: string; focusedPostId?: string; overlayProfileId?: string }
+  | { type: ViewType.Post; domainId: string; domainName: string; focusedPostId?: string; route?: string[]; overlayProfileId?: string }
   | { type: ViewType.Profile; initialTab?: ProfileTab; userId?: string; overlayProfileId?: string }
   | { type: ViewType.Chat; chatId?: string; otherUserId?: string; overlayProfileId?: string }
   | { type: ViewType.Inbox; overlayProfileId?: string }
   | { type: ViewType.Notifications; overlayProfileId?: string }
-  | { type: ViewType.Search; query?: string; overlayProfileId?: string }
+  | { type: ViewType.Search; query?: string; mode?: SearchMode; overlayProfileId?: string }
   | { type: ViewType.Auth; overlayProfileId?: string }
   | { type: ViewType.Feed; overlayProfileId?: string }
   | { type: ViewType.Settings; overlayProfileId?: string };
 
 export interface Domain {
-  id: string; // Path-based ID, e.g., "Art/Painting"
+  id: string; // Node id: the path it was first created at, e.g., "Art/Painting"
   name: string;
   children: Domain[] | null; // null means not yet fetched
   position?: { x: number; y: number }; // Optional: Only for orbital view
-  source?: 'web' | 'ai'; // 'web' results float to periphery, 'ai' results stay in core
+  source?: DomainSource; // 'web' results float to periphery, 'ai' results stay in core
+  summary?: string; // For 'web' domains: a sentence or two from the source page
+  sourceUrl?: string; // For 'web' domains: the page it was found on
+  sourceName?: string; // For 'web' domains: where it was found, e.g. "Wikipedia"
+}
+
+// Where a domain came from: generated by the AI, found by a web search or
+// added by hand by a user
+export type DomainSource = 'ai' | 'web' | 'user';
+
+// A stored node of the shared taxonomy (the `domains` table)
+export interface DomainNode {
+  id: string; // The path it was first created at, e.g. "Art/Painting"
+  parent_id?: string; // Its first parent; absent for top-level domains. Others are in `domain_links`.
+  name: string;
+  source: DomainSource;
+  generator?: string; // e.g. "pollinations/openai" for AI nodes, "Wikipedia" for web ones
+  summary?: string;
+  source_url?: string;
+  variant: number; // Which "load more" round produced it (0 = first expansion)
+  created_by?: string;
+  created_at: string;
+}
+
+// A longer, structured write-up of a domain for its info card. Prerequisites
+// and related domains are names, linked into the tree when shown.
+export interface DomainProfile {
+  summary: string; // A paragraph
+  keyConcepts: string[];
+  notablePeople: { name: string; note?: string }[];
+  prerequisites: string[]; // Domains worth knowing first
+  related: string[];
+  reading: { title: string; author?: string }[];
+}
+
+// A profile as stored (the `domain_profiles` table)
+export interface StoredDomainProfile {
+  domain_id: string; // The domain's path
+  profile: DomainProfile;
+  version: number; // Format it was generated in (see PROFILE_VERSION)
+  revision: number; // 0 when first generated, +1 on each refresh
+  generator?: string;
+  updated_at: string;
+}
+
+// What Explore shows on a domain when zoomed in close: how busy it is and
+// what was posted last
+export interface DomainDigest {
+  domainId: string;
+  count: number; // Posts
+  latest?: {
+    id: string;
+    headline: string; // The first line of the post, shortened
+    created_at: string;
+    username?: string;
+  };
+}
+
+// How active the community is at and below a domain, for Explore's spheres
+export interface DomainActivity {
+  domainId: string;
+  posts: number;
+  recent: number; // Posts in the last week
+  lastPostAt: string;
 }
 
 export interface Profile {
   id: string; // UID from Firebase Auth
   username: string;
   email?: string;
-  photoURL?: string; // Base64 compressed image
+  photoURL?: string; // /api/media URL (see lib/media)
   bio?: string;
   is_private?: boolean;
   tags?: string; // Comma separated tags
@@ -58,11 +124,21 @@ export interface Comment {
   };
 }
 
+// An image on a post
+export interface Attachment {
+  url: string; // /api/media URL (see lib/media)
+  alt?: string;
+  width?: number;
+  height?: number;
+  placeholder?: string; // Tiny data: URL to show blurred while the image loads
+}
+
 // This type is for client-side use after combining Firestore queries
 export interface PostWithAuthorAndLikes {
   id: string; // Firestore Doc ID
   content: string;
-  imageURL?: string; // Base64 compressed image
+  imageURL?: string; // Cover: the first attachment's URL
+  attachments: Attachment[]; // In display order
   created_at: string; // ISO string
   user_id: string;
   domain_id: string;
@@ -75,6 +151,50 @@ export interface PostWithAuthorAndLikes {
   is_liked_by_user: boolean;
   comment_count: number;
   comments: Comment[];
+  commentsCursor?: string; // Set while more comments remain to be loaded
+}
+
+// A post as returned by list operations, before comments are attached
+export type PostSummary = Omit<PostWithAuthorAndLikes, 'comments'>;
+
+// A post as shown on a profile grid
+export interface UserPost {
+  id: string;
+  content: string;
+  imageURL?: string;
+  created_at: string;
+  user_id: string;
+  domain_id: string;
+  like_count: number;
+}
+
+export interface SavedDomain {
+  id: string;
+  user_id: string;
+  domain_id: string;
+  domain_name: string;
+  saved_at: string;
+}
+
+export interface ProfileStats {
+  posts: number;
+  followers: number;
+  following: number;
+  totalLikes: number;
+}
+
+export interface AppNotification {
+  id: string;
+  type: 'follow' | 'like' | 'comment';
+  actor_id: string;
+  entity_id?: string; // For likes/comments
+  created_at: string;
+  read_status: boolean;
+  actorProfile: {
+    id: string;
+    username: string;
+    photoURL?: string;
+  };
 }
 
 export interface ChatMessage {
@@ -92,4 +212,20 @@ export interface ChatSession {
   participantProfile?: Profile; // Populated client side
 }
 
+export type ChatStatus = 'accepted' | 'pending' | 'blocked';
+
+// A chat as seen by one participant
+export interface ChatSummary {
+  id: string;
+  lastMessage?: string;
+  updatedAt?: string;
+  status: ChatStatus;
+}
+
+// One page of a keyset-paginated list (see lib/rpc/pagination)
+export interface Page<T> {
+  items: T[];
+  nextCursor?: string; // Absent on the last page
+}
+
 export type Theme = 'nebula' | 'zen' | 'midnight' | 'studio' | 'hyle';